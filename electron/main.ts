@@ -1,4 +1,5 @@
 import { app, BrowserWindow, ipcMain, Menu, dialog, screen } from 'electron';
+import * as fs from 'fs/promises';
 import * as path from 'path';
 import { autoUpdater } from 'electron-updater';
 import log from 'electron-log';
@@ -93,6 +94,13 @@ function createMenu() {
         {
             label: 'File',
             submenu: [
+                {
+                    label: 'Export for Spreadsheet…',
+                    accelerator: 'CmdOrCtrl+E',
+                    // The renderer owns the filters and the data, so it opens its export panel
+                    click: () => mainWindow?.webContents.send('menu:export')
+                },
+                { type: 'separator' },
                 { role: 'quit', label: 'Exit' }
             ]
         },
@@ -181,9 +189,9 @@ function createWindow() {
         mainWindow.loadURL('http://localhost:5173');
         mainWindow.webContents.openDevTools();
     } else {
-        // In production, both main.js and index.html are in dist/
-        // __dirname will be dist/, so index.html is in the same directory
-        mainWindow.loadFile(path.join(__dirname, 'index.html'));
+        // In production, main.js is compiled to dist/electron/ and index.html to dist/
+        // __dirname will be dist/electron/, so index.html is one directory up
+        mainWindow.loadFile(path.join(__dirname, '..', 'index.html'));
     }
 
     mainWindow.once('ready-to-show', () => {
@@ -196,22 +204,57 @@ function createWindow() {
 }
 
 // IPC Handlers for data persistence
-ipcMain.handle('budget:load', async () => {
-    return await budgetService.loadBudget();
+ipcMain.handle('profiles:load', async () => {
+    return await budgetService.loadProfiles();
+});
+
+ipcMain.handle('profiles:save', async (_, index) => {
+    return await budgetService.saveProfiles(index);
+});
+
+ipcMain.handle('budget:load', async (_, profileId) => {
+    return await budgetService.loadBudget(profileId);
 });
 
-ipcMain.handle('budget:save', async (_, data) => {
-    return await budgetService.saveBudget(data);
+ipcMain.handle('budget:save', async (_, profileId, data) => {
+    return await budgetService.saveBudget(profileId, data);
+});
+
+ipcMain.handle('budget:remove', async (_, profileId) => {
+    return await budgetService.deleteProfileData(profileId);
 });
 
 ipcMain.handle('budget:export', async (_, data) => {
     return await budgetService.exportToFile(data);
 });
 
+ipcMain.handle('budget:exportReport', async (_, file) => {
+    return await budgetService.exportReport(file);
+});
+
 ipcMain.handle('budget:import', async () => {
     return await budgetService.importFromFile();
 });
 
+// Render the calling page (the month report) to PDF using its print stylesheet
+ipcMain.handle('report:savePdf', async (event, fileName: string) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const options = {
+        title: 'Save Statement as PDF',
+        defaultPath: path.join(app.getPath('documents'), fileName),
+        filters: [{ name: 'PDF Files', extensions: ['pdf'] }],
+    };
+    const { filePath } = win
+        ? await dialog.showSaveDialog(win, options)
+        : await dialog.showSaveDialog(options);
+    if (!filePath) return false;
+
+    const pdf = await event.sender.printToPDF({ pageSize: 'Letter', printBackground: true });
+    await fs.writeFile(filePath, pdf);
+    log.info(`Saved statement PDF to ${filePath}`);
+    return true;
+});
+
 // Auto-update event handlers
 autoUpdater.on('checking-for-update', () => {
     log.info('Checking for update...');
@@ -3,11 +3,22 @@ import { contextBridge, ipcRenderer } from 'electron';
 // Expose protected methods to renderer process via contextBridge
 contextBridge.exposeInMainWorld('electronAPI', {
     budget: {
-        load: () => ipcRenderer.invoke('budget:load'),
-        save: (data: any) => ipcRenderer.invoke('budget:save', data),
+        loadProfiles: () => ipcRenderer.invoke('profiles:load'),
+        saveProfiles: (index: any) => ipcRenderer.invoke('profiles:save', index),
+        load: (profileId: string) => ipcRenderer.invoke('budget:load', profileId),
+        save: (profileId: string, data: any) => ipcRenderer.invoke('budget:save', profileId, data),
+        remove: (profileId: string) => ipcRenderer.invoke('budget:remove', profileId),
         export: (data: any) => ipcRenderer.invoke('budget:export', data),
+        exportReport: (file: any) => ipcRenderer.invoke('budget:exportReport', file),
         import: () => ipcRenderer.invoke('budget:import'),
     },
+    report: {
+        savePdf: (fileName: string) => ipcRenderer.invoke('report:savePdf', fileName),
+    },
+    // Menu events (from main → renderer)
+    onMenuExport: (callback: () => void) => {
+        ipcRenderer.on('menu:export', () => callback());
+    },
     // Update events (from main → renderer)
     onUpdateAvailable: (callback: (info: any) => void) => {
         ipcRenderer.on('update-available', (_, info) => callback(info));
@@ -38,11 +49,19 @@ declare global {
     interface Window {
         electronAPI: {
             budget: {
-                load: () => Promise<any>;
-                save: (data: any) => Promise<void>;
+                loadProfiles: () => Promise<any>;
+                saveProfiles: (index: any) => Promise<void>;
+                load: (profileId: string) => Promise<any>;
+                save: (profileId: string, data: any) => Promise<void>;
+                remove: (profileId: string) => Promise<void>;
                 export: (data: any) => Promise<void>;
+                exportReport: (file: any) => Promise<boolean>;
                 import: () => Promise<any>;
             };
+            report: {
+                savePdf: (fileName: string) => Promise<boolean>;
+            };
+            onMenuExport: (callback: () => void) => void;
             onUpdateAvailable: (callback: (info: any) => void) => void;
             onUpdateDownloaded: (callback: (info: any) => void) => void;
             onUpdateProgress: (callback: (percent: number) => void) => void;
@@ -1,46 +1,254 @@
 import { app, dialog } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-// BudgetData type inlined to avoid cross-rootDir import from src/
-interface BudgetData {
-    version?: number;
-    bills: Array<Record<string, unknown>>;
-    paidHistory: Array<Record<string, unknown>>;
-    lastReset: string;
-    isFirstTime: boolean;
-    theme: 'dark' | 'light';
-    payInfos?: Array<Record<string, unknown>>;
-    activeMonth?: string;
+import log from 'electron-log';
+import type { BudgetData, ProfileIndex } from '../../src/types';
+import type { ExportFile } from '../../src/core/BudgetExport';
+import { migrateBudgetData } from '../../src/core/BudgetMigrations';
+import { validateBudgetData, BudgetValidationError } from '../../src/core/BudgetSchema';
+import { BudgetProfiles, DEFAULT_PROFILE_ID } from '../../src/core/BudgetProfiles';
+
+export interface BackupOptions {
+    /** Number of most recent saves kept as backups, regardless of age */
+    keepRecent: number;
+    /** Number of days for which the last save of each day is also kept */
+    keepDaily: number;
 }
 
+const DEFAULT_BACKUP_OPTIONS: BackupOptions = {
+    keepRecent: 10,
+    keepDaily: 14,
+};
+
+const BACKUP_PREFIX = 'budget-data.';
+const BACKUP_SUFFIX = '.json';
+
 export class BudgetDataService {
-    private dataPath: string;
+    private userDataPath: string;
+    private profilesPath: string;
+    private backupOptions: BackupOptions;
+
+    // Saves are chained so the temp files and backup rings are never written concurrently
+    private pendingSave: Promise<void> = Promise.resolve();
+
+    constructor(backupOptions: Partial<BackupOptions> = {}) {
+        this.userDataPath = app.getPath('userData');
+        this.profilesPath = path.join(this.userDataPath, 'profiles.json');
+        this.backupOptions = { ...DEFAULT_BACKUP_OPTIONS, ...backupOptions };
+    }
+
+    // ── Profiles ──
+
+    /** Returns null when no profile index has been written yet (data from before profiles existed) */
+    async loadProfiles(): Promise<ProfileIndex | null> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.profilesPath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+        return BudgetProfiles.normalizeIndex(JSON.parse(contents));
+    }
+
+    saveProfiles(index: ProfileIndex): Promise<void> {
+        const validated = BudgetProfiles.normalizeIndex(index);
+        return this.enqueue(() => this.writeFileAtomic(this.profilesPath, JSON.stringify(validated, null, 2)));
+    }
+
+    /** The default profile keeps budget-data.json and backups/ from before profiles existed */
+    private dataPath(profileId: string): string {
+        this.assertProfileId(profileId);
+        return profileId === DEFAULT_PROFILE_ID
+            ? path.join(this.userDataPath, 'budget-data.json')
+            : path.join(this.userDataPath, `budget-data.${profileId}.json`);
+    }
+
+    private backupDir(profileId: string): string {
+        this.assertProfileId(profileId);
+        return profileId === DEFAULT_PROFILE_ID
+            ? path.join(this.userDataPath, 'backups')
+            : path.join(this.userDataPath, 'backups', profileId);
+    }
+
+    // Profile ids arrive over IPC and end up in file paths
+    private assertProfileId(profileId: string): void {
+        if (!BudgetProfiles.isValidId(profileId)) {
+            throw new Error(`Invalid profile id: ${profileId}`);
+        }
+    }
+
+    // ── Budget documents ──
+
+    /**
+     * Returns null when no budget file has been written yet, so the renderer
+     * can migrate older localStorage data or start the welcome wizard.
+     * If the file exists but cannot be parsed, the newest valid backup is returned instead.
+     */
+    async loadBudget(profileId: string): Promise<BudgetData | null> {
+        const dataPath = this.dataPath(profileId);
+        let data: string;
+        try {
+            data = await fs.readFile(dataPath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            log.error('Failed to read budget file:', error);
+            return this.recoverFromBackup(profileId, error);
+        }
+
+        try {
+            return this.parseBudget(data);
+        } catch (error) {
+            log.error('Budget file could not be parsed:', error);
+            await this.preserveCorruptFile(dataPath);
+            return this.recoverFromBackup(profileId, error);
+        }
+    }
+
+    saveBudget(profileId: string, data: BudgetData): Promise<void> {
+        const dataPath = this.dataPath(profileId);
+        return this.enqueue(async () => {
+            const contents = JSON.stringify(data, null, 2);
+            await this.writeFileAtomic(dataPath, contents);
+            await this.writeBackup(profileId, contents);
+        });
+    }
 
-    constructor() {
-        const userDataPath = app.getPath('userData');
-        this.dataPath = path.join(userDataPath, 'budget-data.json');
+    /** Remove a profile's document together with its backups, when it is deleted or the app is reset */
+    async deleteProfileData(profileId: string): Promise<void> {
+        const dataPath = this.dataPath(profileId);
+        const backupDir = this.backupDir(profileId);
+        await this.pendingSave;
+        await fs.rm(dataPath, { force: true });
+
+        if (profileId === DEFAULT_PROFILE_ID) {
+            // The default backups share their folder with the other profiles' folders
+            for (const name of await this.listBackups(profileId)) {
+                await fs.rm(path.join(backupDir, name), { force: true });
+            }
+        } else {
+            await fs.rm(backupDir, { recursive: true, force: true });
+        }
+        log.info(`Deleted budget data for profile ${profileId}`);
     }
 
-    async loadBudget(): Promise<BudgetData> {
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        const next = this.pendingSave.then(write);
+        this.pendingSave = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Parse and migrate a stored document. Throws when the JSON or its overall shape is unusable;
+     * record-level problems are left for the renderer to report to the user.
+     */
+    private parseBudget(contents: string): BudgetData {
+        const data = migrateBudgetData(JSON.parse(contents));
+        validateBudgetData(data);
+        return data;
+    }
+
+    /**
+     * Write to a temp file, fsync it, then rename over the target so a crash
+     * mid-write leaves either the old or the new file, never a truncated one
+     */
+    private async writeFileAtomic(filePath: string, contents: string): Promise<void> {
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
         try {
-            const data = await fs.readFile(this.dataPath, 'utf-8');
-            return JSON.parse(data);
+            const handle = await fs.open(tmpPath, 'w');
+            try {
+                await handle.writeFile(contents, 'utf-8');
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+            await fs.rename(tmpPath, filePath);
         } catch (error) {
-            // Return default data if file doesn't exist
-            return {
-                bills: [],
-                paidHistory: [],
-                lastReset: new Date().toISOString(),
-                isFirstTime: true,
-                theme: 'dark',
-            };
+            await fs.rm(tmpPath, { force: true });
+            throw error;
+        }
+    }
+
+    // ── Backups ──
+
+    private async writeBackup(profileId: string, contents: string): Promise<void> {
+        const backupDir = this.backupDir(profileId);
+        try {
+            await fs.mkdir(backupDir, { recursive: true });
+            // ISO timestamps sort lexicographically; ':' and '.' are not allowed in Windows file names
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            await this.writeFileAtomic(path.join(backupDir, `${BACKUP_PREFIX}${stamp}${BACKUP_SUFFIX}`), contents);
+            await this.pruneBackups(profileId);
+        } catch (error) {
+            // The primary file is already saved; a failed backup must not fail the save
+            log.error('Failed to write budget backup:', error);
+        }
+    }
+
+    /** Backup file names, newest first */
+    private async listBackups(profileId: string): Promise<string[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.backupDir(profileId));
+        } catch {
+            return [];
+        }
+        return entries
+            .filter(name => name.startsWith(BACKUP_PREFIX) && name.endsWith(BACKUP_SUFFIX))
+            .sort()
+            .reverse();
+    }
+
+    /**
+     * Keep the last `keepRecent` saves plus the newest save of each of the last `keepDaily` days
+     */
+    private async pruneBackups(profileId: string): Promise<void> {
+        const backupDir = this.backupDir(profileId);
+        const backups = await this.listBackups(profileId);
+        const keep = new Set(backups.slice(0, this.backupOptions.keepRecent));
+
+        const days = new Set<string>();
+        for (const name of backups) {
+            const day = name.slice(BACKUP_PREFIX.length, BACKUP_PREFIX.length + 10); // YYYY-MM-DD
+            if (days.has(day)) continue;
+            if (days.size >= this.backupOptions.keepDaily) break;
+            days.add(day);
+            keep.add(name);
+        }
+
+        for (const name of backups) {
+            if (!keep.has(name)) {
+                await fs.rm(path.join(backupDir, name), { force: true });
+            }
         }
     }
 
-    async saveBudget(data: BudgetData): Promise<void> {
-        await fs.writeFile(this.dataPath, JSON.stringify(data, null, 2), 'utf-8');
+    private async recoverFromBackup(profileId: string, originalError: unknown): Promise<BudgetData> {
+        const backupDir = this.backupDir(profileId);
+        for (const name of await this.listBackups(profileId)) {
+            try {
+                const data = this.parseBudget(await fs.readFile(path.join(backupDir, name), 'utf-8'));
+                log.warn(`Recovered budget data from backup ${name}`);
+                return data;
+            } catch (error) {
+                log.warn(`Skipping unreadable backup ${name}:`, error);
+            }
+        }
+        throw originalError;
     }
 
+    /** Keep the unreadable file aside so the next save does not destroy it */
+    private async preserveCorruptFile(dataPath: string): Promise<void> {
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        try {
+            await fs.copyFile(dataPath, `${dataPath}.corrupt-${stamp}`);
+        } catch (error) {
+            log.error('Failed to preserve corrupt budget file:', error);
+        }
+    }
+
+    // ── Import / export ──
+
     async exportToFile(data: BudgetData): Promise<void> {
         const { filePath } = await dialog.showSaveDialog({
             title: 'Export Budget Data',
@@ -53,6 +261,25 @@ export class BudgetDataService {
         }
     }
 
+    /**
+     * Save a CSV/.xlsx export built in the renderer. Returns false when the dialog is cancelled.
+     */
+    async exportReport(file: ExportFile): Promise<boolean> {
+        const extension = path.extname(file.fileName).slice(1);
+        const { filePath } = await dialog.showSaveDialog({
+            title: 'Export for Spreadsheet',
+            defaultPath: path.join(app.getPath('documents'), file.fileName),
+            filters: [extension === 'csv'
+                ? { name: 'CSV Files', extensions: ['csv'] }
+                : { name: 'Excel Workbooks', extensions: ['xlsx'] }],
+        });
+
+        if (!filePath) return false;
+        await fs.writeFile(filePath, Buffer.from(file.content));
+        log.info(`Exported ${file.fileName} to ${filePath}`);
+        return true;
+    }
+
     async importFromFile(): Promise<BudgetData | null> {
         const { filePaths } = await dialog.showOpenDialog({
             title: 'Import Budget Data',
@@ -61,8 +288,13 @@ export class BudgetDataService {
         });
 
         if (filePaths.length > 0 && filePaths[0]) {
-            const data = await fs.readFile(filePaths[0], 'utf-8');
-            return JSON.parse(data);
+            const contents = await fs.readFile(filePaths[0], 'utf-8');
+            // Imported files are held to the full schema — nothing is silently dropped
+            const { data, issues } = validateBudgetData(migrateBudgetData(JSON.parse(contents)));
+            if (issues.length > 0) {
+                throw new BudgetValidationError(issues);
+            }
+            return data;
         }
 
         return null;
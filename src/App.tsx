@@ -1,18 +1,77 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import { SplashScreen } from './components/SplashScreen';
 import { WelcomeWizard } from './components/WelcomeWizard';
 import { Dashboard } from './components/Dashboard';
 import { UpdateNotification } from './components/UpdateNotification';
+import { LoadErrorScreen } from './components/LoadErrorScreen';
 import { DateUtils } from './core/DateUtils';
-import { Bill, PayInfo, BudgetData, HistoryItem } from './types';
+import { createBudgetStorage, loadProfileIndex } from './core/BudgetStorage';
+import { BudgetProfiles, DEFAULT_PROFILE_ID } from './core/BudgetProfiles';
+import { DEFAULT_CATEGORIES } from './core/BudgetCategories';
+import { migrateBudgetData, CURRENT_BUDGET_VERSION } from './core/BudgetMigrations';
+import { validateBudgetData, formatValidationIssues, BudgetValidationError } from './core/BudgetSchema';
+import type { ValidationIssue } from './core/BudgetSchema';
+import type { ExportFile } from './core/BudgetExport';
+import { Bill, PayInfo, BudgetData, BudgetCategory, DebtPlan, HistoryItem, CsvImportPreset, HolidayCalendar, LedgerEntry, ProfileIndex, UtilizationSnapshot, UtilizationThresholds } from './types';
 import './styles/design-system.css';
 
-const STORAGE_KEY = 'honeycutt_budget_data';
+/**
+ * Upgrade stored data to the current version and validate it.
+ * Amounts and flags that can be defaulted are repaired; records that still fail are skipped. Both are listed for the user.
+ */
+function prepareBudgetData(raw: unknown): BudgetData {
+    const { data, issues } = validateBudgetData(migrateBudgetData(raw));
+    if (issues.length > 0) {
+        console.warn('Budget data validation issues:', issues);
+        alert(`Some of your saved data did not pass validation and was repaired or skipped:\n\n${formatValidationIssues(issues)}`);
+    }
+    return data;
+}
 
+/** A budget whose saved document could not be loaded; it is left untouched until the user decides what to do */
+interface LoadFailure {
+    profileId: string;
+    message: string;
+    issues: ValidationIssue[];
+}
+
+function describeLoadFailure(profileId: string, error: unknown): LoadFailure {
+    if (error instanceof BudgetValidationError) {
+        return { profileId, message: 'Some required fields are missing or invalid:', issues: error.issues };
+    }
+    return { profileId, message: error instanceof Error ? error.message : String(error), issues: [] };
+}
+
+/** Month-rollover backups kept in localStorage for a profile, newest first */
+function readBackupSlots(profileId: string): Array<{ slot: number; timestamp: string; month: string }> {
+    const result: Array<{ slot: number; timestamp: string; month: string }> = [];
+    for (const slot of [1, 2]) {
+        try {
+            const raw = localStorage.getItem(BudgetProfiles.backupSlotKey(profileId, slot));
+            if (raw) {
+                const parsed = JSON.parse(raw);
+                result.push({ slot, timestamp: parsed.timestamp, month: parsed.month });
+            }
+        } catch { /* skip corrupted */ }
+    }
+    return result.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/** Payment methods were kept in localStorage, outside the budget document, before profiles existed */
+function readLegacyPaymentMethods(): string[] {
+    try {
+        const saved = localStorage.getItem('payment_methods');
+        const methods: unknown = saved ? JSON.parse(saved) : [];
+        return Array.isArray(methods) ? methods.filter((m): m is string => typeof m === 'string') : [];
+    } catch {
+        return [];
+    }
+}
 
 function App() {
     const DEFAULT_BUDGET_DATA: BudgetData = useMemo(() => ({
+        version: CURRENT_BUDGET_VERSION,
         bills: [],
         paidHistory: [],
         lastReset: new Date().toISOString(),
@@ -23,6 +82,8 @@ function App() {
 
     const [showSplash, setShowSplash] = useState(true);
     const [budgetData, setBudgetData] = useState<BudgetData | null>(null);
+    const [profileIndex, setProfileIndex] = useState<ProfileIndex | null>(null);
+    const [loadFailure, setLoadFailure] = useState<LoadFailure | null>(null);
     const [loading, setLoading] = useState(true);
     const [updateInfo, setUpdateInfo] = useState<{
         available: boolean;
@@ -35,79 +96,227 @@ function App() {
     // DATA PERSISTENCE LOGIC
     // ========================================================================
 
-    const loadBudgetData = useCallback(() => {
+    const storage = useMemo(() => createBudgetStorage(), []);
+
+    // Latest saved document — handlers read from here so several saves fired
+    // from one event build on each other instead of on a stale render
+    const budgetDataRef = useRef<BudgetData | null>(null);
+
+    const commitBudgetData = useCallback((data: BudgetData) => {
+        budgetDataRef.current = data;
+        setBudgetData(data);
+    }, []);
+
+    // Same pattern for the profile index, so saves always target the profile that is active right now
+    const profileIndexRef = useRef<ProfileIndex | null>(null);
+
+    const commitProfileIndex = useCallback((index: ProfileIndex) => {
+        profileIndexRef.current = index;
+        setProfileIndex(index);
+    }, []);
+
+    const saveProfileIndex = useCallback((index: ProfileIndex) => {
+        commitProfileIndex(index);
+        storage.saveProfiles(index).catch((error) => {
+            console.error('Failed to save budget profiles:', error);
+            alert('Warning: Failed to save your list of budgets. Changes to your budgets may be lost if you close the app.');
+        });
+    }, [storage, commitProfileIndex]);
+
+    /**
+     * Read a profile's document. A missing document yields a fresh one; an unreadable one
+     * throws, so callers never save defaults over data that may still be recovered.
+     */
+    const readProfile = useCallback(async (profileId: string): Promise<BudgetData> => {
+        const saved = await storage.load(profileId);
+        if (!saved) {
+            console.info('No saved data found, starting fresh');
+            return DEFAULT_BUDGET_DATA;
+        }
+        console.info(`Loaded budget data from ${storage.kind}`);
+        const data = prepareBudgetData(saved);
+        if (profileId === DEFAULT_PROFILE_ID && data.paymentMethods === undefined) {
+            return { ...data, paymentMethods: readLegacyPaymentMethods() };
+        }
+        return data;
+    }, [storage, DEFAULT_BUDGET_DATA]);
+
+    // Nothing is loaded (or saved) while the failure screen is up
+    const showLoadFailure = useCallback((profileId: string, error: unknown) => {
+        console.error('Failed to load budget data:', error);
+        budgetDataRef.current = null;
+        setBudgetData(null);
+        setLoadFailure(describeLoadFailure(profileId, error));
+    }, []);
+
+    const loadBudgetData = useCallback(async () => {
+        let index: ProfileIndex;
         try {
-            const savedData = localStorage.getItem(STORAGE_KEY);
-            if (savedData) {
-                const parsed = JSON.parse(savedData);
-                // Migrate old data formats
-                if (!parsed.version) {
-                    parsed.version = 1;
-                    // Ensure all bills have required fields
-                    if (parsed.bills) {
-                        parsed.bills = parsed.bills.map((b: any) => ({
-                            ...b,
-                            isRecurring: b.isRecurring ?? (b.frequency !== 'one-time'),
-                            frequency: b.frequency ?? 'monthly',
-                            isPaid: b.isPaid ?? false,
-                            hasBalance: b.hasBalance ?? false,
-                        }));
-                    }
-                }
-                console.info('Loaded budget data from storage');
-                setBudgetData(parsed);
-            } else {
-                console.info('No saved data found, starting fresh');
-                setBudgetData(DEFAULT_BUDGET_DATA);
-            }
+            index = await loadProfileIndex(storage);
         } catch (error) {
-            console.error('Failed to load budget data:', error);
-            alert('Warning: Your saved data could not be loaded and may have been corrupted. Starting fresh. If you had important data, check your browser developer tools console for details.');
-            setBudgetData(DEFAULT_BUDGET_DATA);
-        } finally {
-            setLoading(false);
+            // Fall back to the default profile without overwriting the unreadable index
+            console.error('Failed to load budget profiles:', error);
+            index = BudgetProfiles.createIndex();
         }
-    }, [DEFAULT_BUDGET_DATA]);
-
-    const saveBudgetData = useCallback((data: BudgetData) => {
+        commitProfileIndex(index);
         try {
-            // Create backup of current data before overwriting
-            const current = localStorage.getItem(STORAGE_KEY);
-            if (current) {
-                localStorage.setItem(STORAGE_KEY + '_backup', current);
-            }
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-            setBudgetData(data);
+            commitBudgetData(await readProfile(index.activeProfileId));
         } catch (error) {
+            showLoadFailure(index.activeProfileId, error);
+        }
+        setLoading(false);
+    }, [storage, readProfile, commitProfileIndex, commitBudgetData, showLoadFailure]);
+
+    const saveBudgetData = useCallback((data: BudgetData) => {
+        commitBudgetData(data);
+        const profileId = profileIndexRef.current?.activeProfileId ?? DEFAULT_PROFILE_ID;
+        storage.save(profileId, data).catch((error) => {
             console.error('Failed to save budget data:', error);
             alert('Warning: Failed to save data to storage. Your changes may be lost if you close the app. Try freeing up disk space or clearing browser data.');
-        }
-    }, []);
+        });
+    }, [storage, commitBudgetData]);
 
-    const handleLoadBackup = useCallback((slot: number) => {
-        const key = `honeycutt_backup_slot_${slot}`;
-        const raw = localStorage.getItem(key);
-        if (!raw) return;
+    /** Returns whether the backup was restored */
+    const handleLoadBackup = useCallback((slot: number): boolean => {
+        const profileId = profileIndexRef.current?.activeProfileId ?? DEFAULT_PROFILE_ID;
+        const raw = localStorage.getItem(BudgetProfiles.backupSlotKey(profileId, slot));
+        if (!raw) return false;
         try {
             const backup = JSON.parse(raw);
+            const restored = prepareBudgetData(backup.data);
             // Save current state to pre-restore slot before loading backup
-            const current = localStorage.getItem(STORAGE_KEY);
+            const current = budgetDataRef.current;
             if (current) {
-                localStorage.setItem('honeycutt_backup_pre_restore', current);
+                localStorage.setItem('honeycutt_backup_pre_restore', JSON.stringify(current));
             }
-            saveBudgetData(backup.data);
+            // Backups written before payment methods and categories moved into the document keep the current ones
+            saveBudgetData({
+                ...restored,
+                paymentMethods: restored.paymentMethods ?? current?.paymentMethods,
+                categories: restored.categories ?? current?.categories,
+            });
+            return true;
         } catch (e) {
             console.error('Failed to load backup:', e);
+            alert(`This backup could not be loaded${e instanceof BudgetValidationError ? `:\n\n${formatValidationIssues(e.issues)}` : '.'}`);
+            return false;
         }
     }, [saveBudgetData]);
 
     const handleResetApp = useCallback(() => {
-        // Clear all local storage
+        // Clear all local storage and the stored budget document and backups of every profile
+        const profiles = profileIndexRef.current?.profiles ?? [];
         localStorage.clear();
+        for (const profile of profiles) {
+            storage.remove(profile.id).catch((error) => console.error('Failed to clear budget data:', error));
+        }
         // Reset state to default - React will re-render with fresh state
-        setBudgetData({ ...DEFAULT_BUDGET_DATA, lastReset: new Date().toISOString() });
+        saveProfileIndex(BudgetProfiles.createIndex());
+        commitBudgetData({ ...DEFAULT_BUDGET_DATA, lastReset: new Date().toISOString() });
         // No need for window.location.reload() - state reset triggers re-render
-    }, [DEFAULT_BUDGET_DATA]);
+    }, [storage, saveProfileIndex, commitBudgetData, DEFAULT_BUDGET_DATA]);
+
+    // ========================================================================
+    // PROFILES
+    // ========================================================================
+
+    const handleSwitchProfile = useCallback(async (profileId: string) => {
+        if (profileIndexRef.current?.activeProfileId === profileId) return;
+        let data: BudgetData;
+        try {
+            data = await readProfile(profileId);
+        } catch (error) {
+            // Stay on the current budget; the other one is left as it is on disk
+            console.error('Failed to load budget data:', error);
+            alert(`That budget could not be loaded:\n\n${describeLoadFailure(profileId, error).message}`);
+            return;
+        }
+        const index = profileIndexRef.current;
+        if (!index) return;
+        saveProfileIndex({ ...index, activeProfileId: profileId });
+        commitBudgetData(data);
+    }, [readProfile, saveProfileIndex, commitBudgetData]);
+
+    const handleCreateProfile = useCallback((name: string) => {
+        const index = profileIndexRef.current;
+        if (!index) return;
+        const profile = BudgetProfiles.createProfile(name);
+        saveProfileIndex({ activeProfileId: profile.id, profiles: [...index.profiles, profile] });
+        // New budgets open on the month the current one is on, ready for bills to be added
+        saveBudgetData({
+            ...DEFAULT_BUDGET_DATA,
+            lastReset: new Date().toISOString(),
+            isFirstTime: false,
+            activeMonth: budgetDataRef.current?.activeMonth,
+            paymentMethods: [],
+        });
+    }, [saveProfileIndex, saveBudgetData, DEFAULT_BUDGET_DATA]);
+
+    const handleRenameProfile = useCallback((profileId: string, name: string) => {
+        const index = profileIndexRef.current;
+        if (!index) return;
+        saveProfileIndex({
+            ...index,
+            profiles: index.profiles.map(p => p.id === profileId ? { ...p, name: name.trim() } : p),
+        });
+    }, [saveProfileIndex]);
+
+    const handleDuplicateProfile = useCallback(async (profileId: string) => {
+        const index = profileIndexRef.current;
+        const source = index?.profiles.find(p => p.id === profileId);
+        if (!index || !source) return;
+
+        let data: BudgetData;
+        try {
+            data = profileId === index.activeProfileId && budgetDataRef.current
+                ? budgetDataRef.current
+                : await readProfile(profileId);
+        } catch (error) {
+            console.error('Failed to load budget data:', error);
+            alert(`"${source.name}" could not be loaded, so it was not duplicated.`);
+            return;
+        }
+        const latest = profileIndexRef.current ?? index;
+        const copy = BudgetProfiles.createProfile(BudgetProfiles.copyName(latest, source.name));
+        try {
+            await storage.save(copy.id, data);
+        } catch (error) {
+            console.error('Failed to duplicate budget:', error);
+            alert(`"${source.name}" could not be duplicated. Try freeing up disk space and try again.`);
+            return;
+        }
+        saveProfileIndex({ activeProfileId: copy.id, profiles: [...latest.profiles, copy] });
+        commitBudgetData(data);
+    }, [storage, readProfile, saveProfileIndex, commitBudgetData]);
+
+    const handleDeleteProfile = useCallback(async (profileId: string) => {
+        const index = profileIndexRef.current;
+        // The last profile cannot be deleted; Reset App is the way to start over
+        if (!index || index.profiles.length <= 1) return;
+
+        const profiles = index.profiles.filter(p => p.id !== profileId);
+        if (profileId === index.activeProfileId) {
+            // Read the next budget before switching, so nothing is saved under its id with the deleted one's data
+            const next = profiles[0]!;
+            let data: BudgetData;
+            try {
+                data = await readProfile(next.id);
+            } catch (error) {
+                console.error('Failed to load budget data:', error);
+                alert(`"${next.name}" could not be loaded, so this budget was not deleted:\n\n${describeLoadFailure(next.id, error).message}`);
+                return;
+            }
+            saveProfileIndex({ activeProfileId: next.id, profiles });
+            commitBudgetData(data);
+        } else {
+            saveProfileIndex({ ...index, profiles });
+        }
+
+        for (const slot of [1, 2]) {
+            localStorage.removeItem(BudgetProfiles.backupSlotKey(profileId, slot));
+        }
+        storage.remove(profileId).catch((error) => console.error('Failed to delete budget data:', error));
+    }, [storage, readProfile, saveProfileIndex, commitBudgetData]);
 
     // ========================================================================
     // LIFECYCLE
@@ -162,12 +371,14 @@ function App() {
 
     const handleWizardComplete = useCallback((bills: Bill[]) => {
         const newData: BudgetData = {
+            version: CURRENT_BUDGET_VERSION,
             bills,
             paidHistory: [],
             lastReset: new Date().toISOString(),
             isFirstTime: false,
             theme: 'dark',
             payInfos: [],
+            paymentMethods: [],
             activeMonth: undefined,
         };
 
@@ -175,36 +386,129 @@ function App() {
     }, [saveBudgetData]);
 
     const handleBillsChange = useCallback((bills: Bill[], history?: HistoryItem[]) => {
-        if (budgetData) {
+        const current = budgetDataRef.current;
+        if (current) {
             saveBudgetData({
-                ...budgetData,
+                ...current,
                 bills,
-                paidHistory: history || budgetData.paidHistory || []
+                paidHistory: history || current.paidHistory || []
             });
         }
-    }, [budgetData, saveBudgetData]);
+    }, [saveBudgetData]);
 
     const handleSplashComplete = useCallback(() => {
         setShowSplash(false);
     }, []);
 
     const handleActiveMonthChange = useCallback((activeMonth: string) => {
-        if (budgetData) {
+        const current = budgetDataRef.current;
+        if (current) {
             saveBudgetData({
-                ...budgetData,
+                ...current,
                 activeMonth
             });
         }
-    }, [budgetData, saveBudgetData]);
+    }, [saveBudgetData]);
 
     const handlePayInfosChange = useCallback((payInfos: PayInfo[]) => {
-        if (budgetData) {
+        const current = budgetDataRef.current;
+        if (current) {
             saveBudgetData({
-                ...budgetData,
+                ...current,
                 payInfos
             });
         }
-    }, [budgetData, saveBudgetData]);
+    }, [saveBudgetData]);
+
+    const handleImportPresetsChange = useCallback((importPresets: CsvImportPreset[]) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                importPresets
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handlePaymentMethodsChange = useCallback((paymentMethods: string[]) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                paymentMethods
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleCategoriesChange = useCallback((categories: BudgetCategory[]) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                categories
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleCategoryRolloversChange = useCallback((categoryRollovers: Record<string, Record<string, number>>) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                categoryRollovers
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleDebtPlanChange = useCallback((debtPlan: DebtPlan) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                debtPlan
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleBalanceLedgerChange = useCallback((balanceLedger: LedgerEntry[]) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                balanceLedger
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleUtilizationThresholdsChange = useCallback((utilizationThresholds: UtilizationThresholds) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                utilizationThresholds
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleUtilizationHistoryChange = useCallback((utilizationHistory: UtilizationSnapshot[]) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                utilizationHistory
+            });
+        }
+    }, [saveBudgetData]);
+
+    const handleHolidayCalendarChange = useCallback((holidayCalendar: HolidayCalendar) => {
+        const current = budgetDataRef.current;
+        if (current) {
+            saveBudgetData({
+                ...current,
+                holidayCalendar
+            });
+        }
+    }, [saveBudgetData]);
 
     const handleDownloadUpdate = useCallback(() => {
         window.electronAPI?.downloadUpdate();
@@ -218,6 +522,22 @@ function App() {
         setUpdateInfo(null);
     }, []);
 
+    const handleRetryLoad = useCallback(() => {
+        setLoadFailure(null);
+        setLoading(true);
+        loadBudgetData();
+    }, [loadBudgetData]);
+
+    const handleRestoreAfterFailure = useCallback((slot: number) => {
+        if (handleLoadBackup(slot)) setLoadFailure(null);
+    }, [handleLoadBackup]);
+
+    const handleStartFresh = useCallback(() => {
+        if (!window.confirm('Start a new budget? The data that could not be loaded will be replaced once you save.')) return;
+        setLoadFailure(null);
+        commitBudgetData({ ...DEFAULT_BUDGET_DATA, lastReset: new Date().toISOString() });
+    }, [commitBudgetData, DEFAULT_BUDGET_DATA]);
+
     // ========================================================================
     // RENDER LOGIC
     // ========================================================================
@@ -234,22 +554,65 @@ function App() {
         return <SplashScreen onComplete={handleSplashComplete} />;
     }
 
+    if (loadFailure) {
+        return (
+            <LoadErrorScreen
+                profileName={profileIndex?.profiles.find(p => p.id === loadFailure.profileId)?.name ?? 'Your budget'}
+                message={loadFailure.message}
+                issues={loadFailure.issues}
+                backups={readBackupSlots(loadFailure.profileId)}
+                onRestoreBackup={handleRestoreAfterFailure}
+                onRetry={handleRetryLoad}
+                onStartFresh={handleStartFresh}
+            />
+        );
+    }
+
     if (!budgetData || budgetData.isFirstTime) {
         return <WelcomeWizard onComplete={handleWizardComplete} />;
     }
 
+    const activeProfileId = profileIndex?.activeProfileId ?? DEFAULT_PROFILE_ID;
+
     return (
         <>
             <Dashboard
+                // Remount per profile so no view state carries over from the previous budget
+                key={activeProfileId}
                 initialBills={budgetData?.bills || []}
                 initialHistory={budgetData?.paidHistory || []}
                 initialPayInfos={budgetData?.payInfos || []}
                 initialActiveMonth={budgetData?.activeMonth || DateUtils.getCurrentMonth()}
+                importPresets={budgetData?.importPresets || []}
                 onDataChange={handleBillsChange}
                 onPayInfosChange={handlePayInfosChange}
                 onActiveMonthChange={handleActiveMonthChange}
                 onReset={handleResetApp}
                 onLoadBackup={handleLoadBackup}
+                onImportPresetsChange={handleImportPresetsChange}
+                initialPaymentMethods={budgetData?.paymentMethods || []}
+                onPaymentMethodsChange={handlePaymentMethodsChange}
+                profiles={profileIndex?.profiles || []}
+                activeProfileId={activeProfileId}
+                onSwitchProfile={handleSwitchProfile}
+                onCreateProfile={handleCreateProfile}
+                onRenameProfile={handleRenameProfile}
+                onDuplicateProfile={handleDuplicateProfile}
+                onDeleteProfile={handleDeleteProfile}
+                categories={budgetData?.categories ?? DEFAULT_CATEGORIES}
+                onCategoriesChange={handleCategoriesChange}
+                categoryRollovers={budgetData?.categoryRollovers || {}}
+                onCategoryRolloversChange={handleCategoryRolloversChange}
+                debtPlan={budgetData?.debtPlan}
+                onDebtPlanChange={handleDebtPlanChange}
+                balanceLedger={budgetData?.balanceLedger}
+                onBalanceLedgerChange={handleBalanceLedgerChange}
+                utilizationThresholds={budgetData?.utilizationThresholds}
+                onUtilizationThresholdsChange={handleUtilizationThresholdsChange}
+                utilizationHistory={budgetData?.utilizationHistory}
+                onUtilizationHistoryChange={handleUtilizationHistoryChange}
+                holidayCalendar={budgetData?.holidayCalendar}
+                onHolidayCalendarChange={handleHolidayCalendarChange}
             />
 
             {/* Update Notification */}
@@ -279,9 +642,19 @@ declare global {
     interface Window {
         electronAPI?: {
             budget?: {
-                load: () => Promise<BudgetData>;
-                save: (data: BudgetData) => Promise<void>;
+                loadProfiles: () => Promise<unknown | null>;
+                saveProfiles: (index: ProfileIndex) => Promise<void>;
+                load: (profileId: string) => Promise<BudgetData | null>;
+                save: (profileId: string, data: BudgetData) => Promise<void>;
+                remove: (profileId: string) => Promise<void>;
+                export: (data: BudgetData) => Promise<void>;
+                exportReport: (file: ExportFile) => Promise<boolean>;
+                import: () => Promise<BudgetData | null>;
+            };
+            report?: {
+                savePdf: (fileName: string) => Promise<boolean>;
             };
+            onMenuExport: (callback: () => void) => void;
             downloadUpdate: () => void;
             installUpdate: () => void;
             onUpdateAvailable: (callback: (info: { version: string }) => void) => void;
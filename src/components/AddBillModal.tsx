@@ -2,25 +2,62 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { DateUtils } from '../core/DateUtils';
 import { CalculationEngine } from '../core/CalculationEngine';
-import type { Bill } from '../types';
+import { Autopay, AUTOPAY_AMOUNT_LABELS } from '../core/Autopay';
+import { DEFAULT_AMOUNT_ESTIMATE, ESTIMATE_METHOD_LABELS } from '../core/BillEstimates';
+import { BudgetCategories } from '../core/BudgetCategories';
+import { InstallmentLoans } from '../core/InstallmentLoans';
+import { FREQUENCY_LABELS, MONTH_NAMES, Recurrence } from '../core/Recurrence';
+import type { AmountEstimate, AutopayAmount, Bill, BillFrequency, BudgetCategory, DueDateRule, InstallmentLoan, RecurrenceRule } from '../types';
 import './AddBillModal.css';
 
 interface AddBillModalProps {
+    categories: BudgetCategory[];
+    paymentMethods: string[];
     onClose: () => void;
     onAdd: (bill: Bill) => void;
 }
 
-export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) => {
+/** Schedules offered under "Other Schedule" */
+const OTHER_FREQUENCIES: BillFrequency[] = ['weekly', 'biweekly', 'every-n-months', 'quarterly', 'semiannual', 'annual', 'specific-months'];
+
+type RecurrenceEnd = 'never' | 'date' | 'count';
+
+export const AddBillModal: React.FC<AddBillModalProps> = ({ categories, paymentMethods, onClose, onAdd }) => {
     const [name, setName] = useState('');
     const [amount, setAmount] = useState('');
     const [dueDate, setDueDate] = useState('');
-    const [frequency, setFrequency] = useState<'one-time' | 'monthly'>('one-time');
+    const [frequency, setFrequency] = useState<BillFrequency>('one-time');
+    const [monthInterval, setMonthInterval] = useState('2');
+    const [dueMonths, setDueMonths] = useState<number[]>([]);
+    const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>('never');
+    const [endDate, setEndDate] = useState('');
+    const [endCount, setEndCount] = useState('');
+    const [dueDateRuleKind, setDueDateRuleKind] = useState<DueDateRule['kind'] | ''>('');
     const [amountVaries, setAmountVaries] = useState(false);
+    const [estimateMethod, setEstimateMethod] = useState<AmountEstimate['method']>(DEFAULT_AMOUNT_ESTIMATE.method);
+    const [estimatePayments, setEstimatePayments] = useState(String(DEFAULT_AMOUNT_ESTIMATE.payments));
+    const [autopayMethod, setAutopayMethod] = useState('');
+    const [autopayAmount, setAutopayAmount] = useState<AutopayAmount>('statement');
+    const [autopayFixed, setAutopayFixed] = useState('');
     const [hasBalance, setHasBalance] = useState(false);
     const [balance, setBalance] = useState('');
     const [monthlyPayment, setMonthlyPayment] = useState('');
     const [interestRate, setInterestRate] = useState('');
+    const [promoRate, setPromoRate] = useState('');
+    const [promoEndDate, setPromoEndDate] = useState('');
     const [isCreditAccount, setIsCreditAccount] = useState(false);
+    const [creditLimit, setCreditLimit] = useState('');
+    const [isLoan, setIsLoan] = useState(false);
+    const [loanPrincipal, setLoanPrincipal] = useState('');
+    const [loanTerm, setLoanTerm] = useState('');
+    const [loanStartDate, setLoanStartDate] = useState('');
+    const [loanRate, setLoanRate] = useState('');
+    const [loanEscrow, setLoanEscrow] = useState('');
+    const [loanFees, setLoanFees] = useState('');
+    const [loanExtra, setLoanExtra] = useState('');
+    const [loanPaymentsBefore, setLoanPaymentsBefore] = useState('');
+    const [categoryId, setCategoryId] = useState('');
+    const [tagInput, setTagInput] = useState('');
 
     const nameInputRef = useRef<HTMLInputElement>(null);
 
@@ -30,19 +67,109 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
     }, []);
 
     const isMonthly = frequency === 'monthly';
+    const isRecurring = frequency !== 'one-time';
+    const isOtherSchedule = isRecurring && !isMonthly;
+    const isLoanBill = isMonthly && hasBalance && isLoan;
+
+    // Balances and varying amounts are monthly-only options
+    const chooseFrequency = (next: BillFrequency) => {
+        setFrequency(next);
+        if (next !== 'monthly') {
+            setAmountVaries(false);
+            setHasBalance(false);
+        }
+    };
+
+    // Balance-tracked bills always repeat monthly without end; plain monthly bills only need a rule to end
+    const recurrence: RecurrenceRule | undefined = isRecurring && !hasBalance && (isOtherSchedule || recurrenceEnd !== 'never')
+        ? {
+            startDate: dueDate,
+            interval: frequency === 'every-n-months' ? Math.max(1, Math.round(CalculationEngine.parseAmount(monthInterval))) : undefined,
+            months: frequency === 'specific-months' ? [...dueMonths].sort((a, b) => a - b) : undefined,
+            endDate: recurrenceEnd === 'date' && endDate ? endDate : undefined,
+            count: recurrenceEnd === 'count' ? Math.max(1, Math.round(CalculationEngine.parseAmount(endCount))) : undefined,
+        }
+        : undefined;
+
+    // Loan terms as entered, or null until the required ones are filled in
+    const loan: InstallmentLoan | null = isLoanBill
+        && CalculationEngine.parseAmount(loanPrincipal) > 0
+        && CalculationEngine.parseAmount(loanTerm) >= 1
+        && loanStartDate !== ''
+        && CalculationEngine.parseAmount(loanRate) >= 0
+        ? {
+            principal: CalculationEngine.parseAmount(loanPrincipal),
+            termMonths: Math.round(CalculationEngine.parseAmount(loanTerm)),
+            startDate: loanStartDate,
+            rate: CalculationEngine.parseAmount(loanRate),
+            escrow: CalculationEngine.parseAmount(loanEscrow) || undefined,
+            fees: CalculationEngine.parseAmount(loanFees) || undefined,
+            extraPrincipal: CalculationEngine.parseAmount(loanExtra) || undefined,
+        }
+        : null;
+    const defaultPaymentsBefore = loan
+        ? InstallmentLoans.paymentsDueBefore(loan, DateUtils.toLocalDateString(new Date()))
+        : 0;
+
+    // One-time and weekly bills can only shift off a non-business day; the other rules pick a day of the month
+    const dueDateRules = dueDate
+        ? DateUtils.dueDateRuleChoices(dueDate).filter(r =>
+            (isRecurring && !Recurrence.isWeekly(frequency)) || r.kind === 'previous-business-day' || r.kind === 'next-business-day')
+        : [];
+    const dueDateRule = dueDateRules.find(r => r.kind === dueDateRuleKind);
+
+    // The statement minimum only applies to balances; anything else pays the bill's amount
+    const autopayChoices = Autopay.amountChoices({ hasBalance, loan: loan ?? undefined });
+    const autopayRuleAmount = autopayChoices.includes(autopayAmount) ? autopayAmount : 'statement';
+
+    const isScheduleValid = !recurrence || (
+        (frequency !== 'specific-months' || dueMonths.length > 0) &&
+        (recurrenceEnd !== 'date' || endDate >= dueDate) &&
+        (recurrenceEnd !== 'count' || CalculationEngine.parseAmount(endCount) >= 1)
+    );
 
     const isFormValid = name.trim() !== '' &&
         dueDate !== '' &&
-        (frequency === 'one-time' ? amount !== '' : (amountVaries || amount !== ''));
+        isScheduleValid &&
+        (frequency === 'one-time' ? amount !== '' : (isLoanBill ? loan !== null : (amountVaries || amount !== '')));
 
     const handleSubmit = (e?: React.FormEvent) => {
         if (e) e.preventDefault();
         if (!isFormValid) return;
 
+        if (loan) {
+            const paymentsBefore = loanPaymentsBefore !== ''
+                ? Math.max(0, Math.round(CalculationEngine.parseAmount(loanPaymentsBefore)))
+                : defaultPaymentsBefore;
+            const loanTerms: InstallmentLoan = { ...loan, paymentsBefore: paymentsBefore || undefined };
+            const id = crypto.randomUUID();
+            const tags = BudgetCategories.parseTags(tagInput);
+
+            onAdd({
+                id,
+                name: name.trim(),
+                ...InstallmentLoans.billFields(loanTerms, [], id),
+                dueDate: dueDate,
+                frequency: frequency,
+                isPaid: false,
+                hasBalance: true,
+                loan: loanTerms,
+                dueDateRule,
+                isRecurring: true,
+                originalDueDay: DateUtils.parseLocalDate(dueDate).getDate(),
+                note: '',
+                categoryId: categoryId || undefined,
+                tags: tags.length > 0 ? tags : undefined,
+            });
+            onClose();
+            return;
+        }
+
         const parsedAmount = amountVaries ? 0 : CalculationEngine.parseAmount(amount);
         const parsedBalance = hasBalance ? CalculationEngine.parseAmount(balance) : undefined;
         const parsedMonthlyPayment = hasBalance ? CalculationEngine.parseAmount(monthlyPayment) : undefined;
         const parsedInterestRate = hasBalance ? CalculationEngine.parseAmount(interestRate) : undefined;
+        const parsedCreditLimit = hasBalance && isCreditAccount ? CalculationEngine.parseAmount(creditLimit) : 0;
 
         if (!amountVaries && parsedAmount <= 0) {
             alert('Please enter a valid amount greater than 0');
@@ -62,25 +189,72 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                 alert('Interest rate cannot be negative');
                 return;
             }
+            if (creditLimit !== '' && parsedCreditLimit < 0) {
+                alert('Credit limit cannot be negative');
+                return;
+            }
+            if (promoRate !== '' && (!promoEndDate || CalculationEngine.parseAmount(promoRate) < 0)) {
+                alert('Enter a non-negative intro APR and the date it ends');
+                return;
+            }
         }
 
-        const newBill = {
+        // An intro APR becomes a promo period running from today until its end date
+        const rateSchedule = hasBalance && promoRate !== '' && promoEndDate
+            ? [{
+                id: crypto.randomUUID(),
+                effectiveDate: DateUtils.toLocalDateString(new Date()),
+                rate: CalculationEngine.parseAmount(promoRate),
+                endDate: promoEndDate,
+                label: 'Intro APR',
+            }]
+            : undefined;
+
+        const tags = BudgetCategories.parseTags(tagInput);
+
+        const newBill: Bill = {
             id: crypto.randomUUID(),
             name: name.trim(),
             amount: parsedAmount,
             dueDate: dueDate,
             frequency: frequency,
+            recurrence,
+            dueDateRule,
+            estimate: amountVaries
+                ? { method: estimateMethod, payments: Math.max(1, Math.round(CalculationEngine.parseAmount(estimatePayments))) || DEFAULT_AMOUNT_ESTIMATE.payments }
+                : undefined,
+            autopay: autopayMethod
+                ? {
+                    method: autopayMethod,
+                    amount: autopayRuleAmount,
+                    fixedAmount: autopayRuleAmount === 'fixed' ? CalculationEngine.parseAmount(autopayFixed || amount) : undefined,
+                }
+                : undefined,
             isPaid: false,
             hasBalance: hasBalance,
             balance: parsedBalance,
             monthlyPayment: parsedMonthlyPayment,
             interestRate: parsedInterestRate,
-            isRecurring: frequency === 'monthly',
+            rateSchedule,
+            isRecurring,
             isCreditAccount: hasBalance && isCreditAccount,
+            creditLimit: parsedCreditLimit > 0 ? parsedCreditLimit : undefined,
             originalDueDay: DateUtils.parseLocalDate(dueDate).getDate(),
-            note: ''
+            note: '',
+            categoryId: categoryId || undefined,
+            tags: tags.length > 0 ? tags : undefined,
         };
 
+        // A specific-months rule can start in a month it skips; the bill is first due in its next listed month
+        if (recurrence) {
+            const firstDueDate = Recurrence.firstDueDate(newBill);
+            if (!firstDueDate) {
+                alert('This schedule ends before the bill is ever due');
+                return;
+            }
+            newBill.dueDate = firstDueDate;
+        }
+
         onAdd(newBill);
         onClose();
     };
@@ -121,6 +295,28 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                         />
                     </div>
 
+                    {/* Category */}
+                    <div className="bill-form-group">
+                        <label>Category</label>
+                        <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)}>
+                            <option value="">Uncategorized</option>
+                            {categories.map(c => (
+                                <option key={c.id} value={c.id}>{c.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Tags */}
+                    <div className="bill-form-group">
+                        <label>Tags (Optional)</label>
+                        <input
+                            type="text"
+                            value={tagInput}
+                            onChange={(e) => setTagInput(e.target.value)}
+                            placeholder="e.g. shared, tax-deductible"
+                        />
+                    </div>
+
                     {/* Frequency */}
                     <div className="bill-form-group">
                         <label>Frequency</label>
@@ -131,7 +327,7 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                                     name="frequency"
                                     value="one-time"
                                     checked={frequency === 'one-time'}
-                                    onChange={(e) => setFrequency(e.target.value as 'one-time' | 'monthly')}
+                                    onChange={() => chooseFrequency('one-time')}
                                 />
                                 <span>One Time</span>
                             </label>
@@ -140,17 +336,82 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                                     type="radio"
                                     name="frequency"
                                     value="monthly"
-                                    checked={frequency === 'monthly'}
-                                    onChange={(e) => setFrequency(e.target.value as 'one-time' | 'monthly')}
+                                    checked={isMonthly}
+                                    onChange={() => chooseFrequency('monthly')}
                                 />
                                 <span>Monthly</span>
                             </label>
+                            <label className="radio-option">
+                                <input
+                                    type="radio"
+                                    name="frequency"
+                                    value="other"
+                                    checked={isOtherSchedule}
+                                    onChange={() => chooseFrequency('weekly')}
+                                />
+                                <span>Other Schedule</span>
+                            </label>
                         </div>
                     </div>
 
+                    {/* Other schedules */}
+                    <AnimatePresence>
+                        {isOtherSchedule && (
+                            <motion.div
+                                initial={{ opacity: 0, height: 0 }}
+                                animate={{ opacity: 1, height: 'auto' }}
+                                exit={{ opacity: 0, height: 0 }}
+                                transition={{ duration: 0.25 }}
+                                style={{ overflow: 'hidden' }}
+                            >
+                                <div className="bill-form-group">
+                                    <label>Repeats</label>
+                                    <select value={frequency} onChange={(e) => chooseFrequency(e.target.value as BillFrequency)}>
+                                        {OTHER_FREQUENCIES.map(f => (
+                                            <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {frequency === 'every-n-months' && (
+                                    <div className="bill-form-group">
+                                        <label>Every How Many Months</label>
+                                        <input
+                                            type="number"
+                                            value={monthInterval}
+                                            onChange={(e) => setMonthInterval(e.target.value)}
+                                            step="1"
+                                            min="1"
+                                        />
+                                    </div>
+                                )}
+
+                                {frequency === 'specific-months' && (
+                                    <div className="bill-form-group">
+                                        <label>Due In</label>
+                                        <div className="recurrence-months">
+                                            {MONTH_NAMES.map((label, i) => (
+                                                <button
+                                                    key={label}
+                                                    type="button"
+                                                    className={dueMonths.includes(i + 1) ? 'selected' : ''}
+                                                    onClick={() => setDueMonths(prev =>
+                                                        prev.includes(i + 1) ? prev.filter(m => m !== i + 1) : [...prev, i + 1]
+                                                    )}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+
                     {/* Due Date */}
                     <div className="bill-form-group">
-                        <label>{isMonthly ? 'Date Due Each Month' : 'Due Date'}</label>
+                        <label>{isMonthly ? 'Date Due Each Month' : isRecurring ? 'First Due Date' : 'Due Date'}</label>
                         <input
                             type="date"
                             value={dueDate}
@@ -161,10 +422,57 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                         />
                     </div>
 
-                    {/* Amount — show for one-time always, for monthly only if not varying */}
-                    {(!isMonthly || !amountVaries) && (
+                    {/* Weekend & holiday adjustment */}
+                    {dueDateRules.length > 0 && (
                         <div className="bill-form-group">
-                            <label>Amount Due</label>
+                            <label>Due Date Adjustment</label>
+                            <select value={dueDateRule?.kind ?? ''} onChange={(e) => setDueDateRuleKind(e.target.value as DueDateRule['kind'] | '')}>
+                                <option value="">Keep the date as entered</option>
+                                {dueDateRules.map(rule => (
+                                    <option key={rule.kind} value={rule.kind}>{DateUtils.describeDueDateRule(rule)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {/* Series end */}
+                    {isRecurring && !hasBalance && (
+                        <div className="bill-form-group">
+                            <label>Ends</label>
+                            <div className="bill-form-row">
+                                <select value={recurrenceEnd} onChange={(e) => setRecurrenceEnd(e.target.value as RecurrenceEnd)}>
+                                    <option value="never">Never</option>
+                                    <option value="date">On a Date</option>
+                                    <option value="count">After a Number of Payments</option>
+                                </select>
+                                {recurrenceEnd === 'date' && (
+                                    <input
+                                        type="date"
+                                        value={endDate}
+                                        min={dueDate || undefined}
+                                        onChange={(e) => setEndDate(e.target.value)}
+                                        onClick={(e) => (e.target as HTMLInputElement).showPicker?.()}
+                                        className="date-input-full-click"
+                                    />
+                                )}
+                                {recurrenceEnd === 'count' && (
+                                    <input
+                                        type="number"
+                                        value={endCount}
+                                        onChange={(e) => setEndCount(e.target.value)}
+                                        placeholder="e.g. 12"
+                                        step="1"
+                                        min="1"
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Amount — show for one-time and other schedules always, for monthly only if not varying */}
+                    {(!isMonthly || !amountVaries) && !isLoanBill && (
+                        <div className="bill-form-group">
+                            <label>{isOtherSchedule ? 'Amount Each Time' : 'Amount Due'}</label>
                             <div className="input-with-icon-wrapper">
                                 <span className="currency-icon">$</span>
                                 <input
@@ -206,6 +514,31 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                                     </label>
                                 </div>
 
+                                {/* Estimate shown until each month's amount is entered */}
+                                {amountVaries && (
+                                    <div className="bill-form-group">
+                                        <label>Estimate From</label>
+                                        <div className="bill-form-row">
+                                            <select value={estimateMethod} onChange={(e) => setEstimateMethod(e.target.value as AmountEstimate['method'])}>
+                                                {Object.entries(ESTIMATE_METHOD_LABELS).map(([method, label]) => (
+                                                    <option key={method} value={method}>{label}</option>
+                                                ))}
+                                            </select>
+                                            {estimateMethod !== 'last-year' && (
+                                                <input
+                                                    type="number"
+                                                    value={estimatePayments}
+                                                    onChange={(e) => setEstimatePayments(e.target.value)}
+                                                    title="Number of recent payments"
+                                                    aria-label="Number of recent payments"
+                                                    step="1"
+                                                    min="1"
+                                                />
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Balance Tracker */}
                                 <div className="bill-form-group">
                                     <label className="checkbox-wrapper">
@@ -240,19 +573,147 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                                                     <input
                                                         type="checkbox"
                                                         checked={isCreditAccount}
-                                                        onChange={(e) => setIsCreditAccount(e.target.checked)}
+                                                        onChange={(e) => {
+                                                            setIsCreditAccount(e.target.checked);
+                                                            if (e.target.checked) setIsLoan(false);
+                                                        }}
                                                     />
                                                     Credit Account
                                                 </label>
                                                 <span className="balance-tracker-hint">Keeps card visible when paid off</span>
                                             </div>
+                                            <div className="bill-form-group">
+                                                <label className="checkbox-wrapper">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={isLoan}
+                                                        onChange={(e) => {
+                                                            setIsLoan(e.target.checked);
+                                                            if (e.target.checked) setIsCreditAccount(false);
+                                                        }}
+                                                    />
+                                                    Installment Loan
+                                                </label>
+                                                <span className="balance-tracker-hint">Mortgage or auto loan with a fixed term</span>
+                                            </div>
                                         </motion.div>
                                     )}
                                 </AnimatePresence>
 
                                 {/* Balance Fields */}
                                 <AnimatePresence>
-                                    {hasBalance && (
+                                    {isLoanBill && (
+                                        <motion.div
+                                            className="balance-section"
+                                            initial={{ opacity: 0, height: 0 }}
+                                            animate={{ opacity: 1, height: 'auto' }}
+                                            exit={{ opacity: 0, height: 0 }}
+                                            transition={{ duration: 0.25 }}
+                                            style={{ overflow: 'hidden' }}
+                                        >
+                                            <div className="balance-fields-inner">
+                                                <div className="bill-form-group">
+                                                    <label>Original Principal</label>
+                                                    <div className="input-with-icon-wrapper">
+                                                        <span className="currency-icon">$</span>
+                                                        <input
+                                                            type="number"
+                                                            value={loanPrincipal}
+                                                            onChange={(e) => setLoanPrincipal(e.target.value)}
+                                                            placeholder="0.00"
+                                                            step="0.01"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>Term (Months)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={loanTerm}
+                                                        onChange={(e) => setLoanTerm(e.target.value)}
+                                                        placeholder="e.g. 360"
+                                                        step="1"
+                                                        min="1"
+                                                    />
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>First Payment Date</label>
+                                                    <input
+                                                        type="date"
+                                                        value={loanStartDate}
+                                                        onChange={(e) => setLoanStartDate(e.target.value)}
+                                                    />
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>APR %</label>
+                                                    <input
+                                                        type="number"
+                                                        value={loanRate}
+                                                        onChange={(e) => setLoanRate(e.target.value)}
+                                                        placeholder="0.00"
+                                                        step="0.01"
+                                                    />
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>Escrow / Month (Optional)</label>
+                                                    <div className="input-with-icon-wrapper">
+                                                        <span className="currency-icon">$</span>
+                                                        <input
+                                                            type="number"
+                                                            value={loanEscrow}
+                                                            onChange={(e) => setLoanEscrow(e.target.value)}
+                                                            placeholder="Taxes & insurance"
+                                                            step="0.01"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>Fees / Month (Optional)</label>
+                                                    <div className="input-with-icon-wrapper">
+                                                        <span className="currency-icon">$</span>
+                                                        <input
+                                                            type="number"
+                                                            value={loanFees}
+                                                            onChange={(e) => setLoanFees(e.target.value)}
+                                                            placeholder="PMI, servicing"
+                                                            step="0.01"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>Extra Principal / Month (Optional)</label>
+                                                    <div className="input-with-icon-wrapper">
+                                                        <span className="currency-icon">$</span>
+                                                        <input
+                                                            type="number"
+                                                            value={loanExtra}
+                                                            onChange={(e) => setLoanExtra(e.target.value)}
+                                                            placeholder="0.00"
+                                                            step="0.01"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="bill-form-group">
+                                                    <label>Payments Already Made</label>
+                                                    <input
+                                                        type="number"
+                                                        value={loanPaymentsBefore}
+                                                        onChange={(e) => setLoanPaymentsBefore(e.target.value)}
+                                                        placeholder={String(defaultPaymentsBefore)}
+                                                        step="1"
+                                                        min="0"
+                                                    />
+                                                </div>
+                                            </div>
+                                            {loan && (
+                                                <div className="loan-payment-preview">
+                                                    Monthly payment: <strong>{CalculationEngine.formatCurrency(InstallmentLoans.monthlyTotal(loan))}</strong>
+                                                    {' '}({CalculationEngine.formatCurrency(InstallmentLoans.scheduledPayment(loan))} principal &amp; interest)
+                                                </div>
+                                            )}
+                                        </motion.div>
+                                    )}
+                                    {hasBalance && !isLoanBill && (
                                         <motion.div
                                             className="balance-section"
                                             initial={{ opacity: 0, height: 0 }}
@@ -298,6 +759,41 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                                                         step="0.01"
                                                     />
                                                 </div>
+                                                <div className="bill-form-group">
+                                                    <label>Intro APR % (Optional)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={promoRate}
+                                                        onChange={(e) => setPromoRate(e.target.value)}
+                                                        placeholder="0.00"
+                                                        step="0.01"
+                                                    />
+                                                </div>
+                                                {promoRate !== '' && (
+                                                    <div className="bill-form-group">
+                                                        <label>Intro APR Ends</label>
+                                                        <input
+                                                            type="date"
+                                                            value={promoEndDate}
+                                                            onChange={(e) => setPromoEndDate(e.target.value)}
+                                                        />
+                                                    </div>
+                                                )}
+                                                {isCreditAccount && (
+                                                    <div className="bill-form-group">
+                                                        <label>Credit Limit (Optional)</label>
+                                                        <div className="input-with-icon-wrapper">
+                                                            <span className="currency-icon">$</span>
+                                                            <input
+                                                                type="number"
+                                                                value={creditLimit}
+                                                                onChange={(e) => setCreditLimit(e.target.value)}
+                                                                placeholder="0.00"
+                                                                step="0.01"
+                                                            />
+                                                        </div>
+                                                    </div>
+                                                )}
                                             </div>
                                         </motion.div>
                                     )}
@@ -306,6 +802,45 @@ export const AddBillModal: React.FC<AddBillModalProps> = ({ onClose, onAdd }) =>
                         )}
                     </AnimatePresence>
 
+                    {/* Autopay */}
+                    {paymentMethods.length > 0 && (
+                        <div className="bill-form-group">
+                            <label className="checkbox-wrapper">
+                                <input
+                                    type="checkbox"
+                                    checked={autopayMethod !== ''}
+                                    onChange={(e) => setAutopayMethod(e.target.checked ? paymentMethods[0] ?? '' : '')}
+                                />
+                                Pay automatically on the due date
+                            </label>
+                            {autopayMethod && (
+                                <div className="bill-form-row">
+                                    <select value={autopayMethod} onChange={(e) => setAutopayMethod(e.target.value)} aria-label="Autopay payment method">
+                                        {paymentMethods.map(method => (
+                                            <option key={method} value={method}>{method}</option>
+                                        ))}
+                                    </select>
+                                    <select value={autopayRuleAmount} onChange={(e) => setAutopayAmount(e.target.value as AutopayAmount)} aria-label="Autopay amount">
+                                        {autopayChoices.map(choice => (
+                                            <option key={choice} value={choice}>{AUTOPAY_AMOUNT_LABELS[choice]}</option>
+                                        ))}
+                                    </select>
+                                    {autopayRuleAmount === 'fixed' && (
+                                        <input
+                                            type="number"
+                                            value={autopayFixed}
+                                            onChange={(e) => setAutopayFixed(e.target.value)}
+                                            placeholder={amount || '0.00'}
+                                            aria-label="Autopay amount"
+                                            step="0.01"
+                                            min="0"
+                                        />
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Actions */}
                     <div className="modal-form-actions">
                         <button type="button" className="btn-cancel" onClick={onClose}>
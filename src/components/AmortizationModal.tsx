@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { InstallmentLoans } from '../core/InstallmentLoans';
+import type { Bill, HistoryItem, InstallmentLoan } from '../types';
+import './AmortizationModal.css';
+
+interface AmortizationModalProps {
+    bill: Bill & { loan: InstallmentLoan };
+    history: HistoryItem[];
+    onUpdate: (changes: Partial<Bill>) => void;
+    onClose: () => void;
+}
+
+type EditableField = 'escrow' | 'fees' | 'extraPrincipal' | 'paymentsBefore';
+
+const EDITABLE_FIELDS: Array<{ field: EditableField; label: string; step: string }> = [
+    { field: 'escrow', label: 'Escrow / Month', step: '0.01' },
+    { field: 'fees', label: 'Fees / Month', step: '0.01' },
+    { field: 'extraPrincipal', label: 'Extra Principal / Month', step: '0.01' },
+    { field: 'paymentsBefore', label: 'Payments Before Tracking', step: '1' },
+];
+
+const formatDate = (date: string) => DateUtils.parseLocalDate(date)
+    .toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+export const AmortizationModal: React.FC<AmortizationModalProps> = ({ bill, history, onUpdate, onClose }) => {
+    const { loan } = bill;
+    const [inputs, setInputs] = useState<Record<EditableField, string>>({
+        escrow: String(loan.escrow ?? ''),
+        fees: String(loan.fees ?? ''),
+        extraPrincipal: String(loan.extraPrincipal ?? ''),
+        paymentsBefore: String(loan.paymentsBefore ?? ''),
+    });
+
+    const summary = useMemo(() => InstallmentLoans.summarize(loan), [loan]);
+    const paymentsMade = InstallmentLoans.paymentsMade(loan, InstallmentLoans.recordedPayments(bill.id, history));
+    const scheduledPayment = InstallmentLoans.scheduledPayment(loan);
+
+    // Re-derive the bill's payment and balance whenever a loan term changes
+    const commit = (field: EditableField) => {
+        const value = CalculationEngine.parseAmount(inputs[field]);
+        const amount = field === 'paymentsBefore' ? Math.max(0, Math.round(value)) : CalculationEngine.roundCurrency(Math.max(0, value));
+        if (amount === (loan[field] ?? 0)) return;
+        const updatedLoan: InstallmentLoan = { ...loan, [field]: amount || undefined };
+        onUpdate({ loan: updatedLoan, ...InstallmentLoans.billFields(updatedLoan, history, bill.id) });
+    };
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane amortization-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="payoff-header">
+                    <h3>{bill.name} — Amortization</h3>
+                </div>
+
+                <div className="amortization-summary">
+                    <div className="amortization-stat">
+                        <span className="amortization-stat-label">Principal &amp; Interest</span>
+                        <span className="amortization-stat-value">{CalculationEngine.formatCurrency(scheduledPayment)}</span>
+                    </div>
+                    <div className="amortization-stat">
+                        <span className="amortization-stat-label">Monthly Total</span>
+                        <span className="amortization-stat-value">{CalculationEngine.formatCurrency(InstallmentLoans.monthlyTotal(loan))}</span>
+                    </div>
+                    <div className="amortization-stat">
+                        <span className="amortization-stat-label">Balance</span>
+                        <span className="amortization-stat-value">{CalculationEngine.formatCurrency(bill.balance ?? 0)}</span>
+                    </div>
+                    <div className="amortization-stat">
+                        <span className="amortization-stat-label">Payoff</span>
+                        <span className="amortization-stat-value">{formatDate(summary.payoffDate)}</span>
+                    </div>
+                    <div className="amortization-stat">
+                        <span className="amortization-stat-label">Total Interest</span>
+                        <span className="amortization-stat-value">{CalculationEngine.formatCurrency(summary.totalInterest)}</span>
+                    </div>
+                    <div className="amortization-stat">
+                        <span className="amortization-stat-label">Payments Made</span>
+                        <span className="amortization-stat-value">{Math.min(paymentsMade, summary.rows.length)} of {summary.rows.length}</span>
+                    </div>
+                </div>
+
+                {summary.monthsSaved > 0 && (
+                    <div className="amortization-savings">
+                        Extra principal saves {CalculationEngine.formatCurrency(summary.interestSaved)} in interest
+                        and pays the loan off {CalculationEngine.formatPayoffTime(summary.monthsSaved)} early.
+                    </div>
+                )}
+
+                <div className="amortization-fields">
+                    {EDITABLE_FIELDS.map(({ field, label, step }) => (
+                        <label key={field} className="amortization-field">
+                            <span>{label}</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step={step}
+                                value={inputs[field]}
+                                onChange={e => setInputs(prev => ({ ...prev, [field]: e.target.value }))}
+                                onBlur={() => commit(field)}
+                                placeholder="0"
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                <div className="amortization-schedule">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>#</th>
+                                <th>Date</th>
+                                <th>Payment</th>
+                                <th>Principal</th>
+                                <th>Interest</th>
+                                <th>Escrow &amp; Fees</th>
+                                <th>Balance</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {summary.rows.map(row => (
+                                <tr key={row.number} className={row.number <= paymentsMade ? 'amortization-paid' : ''}>
+                                    <td>{row.number}</td>
+                                    <td>{formatDate(row.date)}</td>
+                                    <td>{CalculationEngine.formatCurrency(row.totalPayment)}</td>
+                                    <td>{CalculationEngine.formatCurrency(row.principal)}</td>
+                                    <td>{CalculationEngine.formatCurrency(row.interest)}</td>
+                                    <td>{CalculationEngine.formatCurrency(row.escrowAndFees)}</td>
+                                    <td>{CalculationEngine.formatCurrency(row.balance)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="modal-actions">
+                    <button className="btn-primary" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default AmortizationModal;
@@ -1,15 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { BillEstimates, BillEstimate } from '../core/BillEstimates';
 import './AmountInputModal.css';
 
 interface AmountInputModalProps {
     isOpen: boolean;
     billName: string;
+    estimate?: BillEstimate;
     onSave: (amount: number) => void;
     onCancel: () => void;
 }
 
-export const AmountInputModal: React.FC<AmountInputModalProps> = ({ isOpen, billName, onSave, onCancel }) => {
+export const AmountInputModal: React.FC<AmountInputModalProps> = ({ isOpen, billName, estimate, onSave, onCancel }) => {
     const [amount, setAmount] = useState('');
     const inputRef = useRef<HTMLInputElement>(null);
 
@@ -56,6 +59,14 @@ export const AmountInputModal: React.FC<AmountInputModalProps> = ({ isOpen, bill
             >
                 <h3>Enter Amount</h3>
                 <p className="amount-subtitle">Enter bill amount for <strong>{billName}</strong></p>
+                {estimate && (
+                    <p className="amount-estimate-hint">
+                        Estimated {CalculationEngine.formatCurrency(estimate.amount)} · {BillEstimates.describe(estimate)}
+                        <button className="amount-estimate-use" onClick={() => setAmount(String(estimate.amount))}>
+                            Use
+                        </button>
+                    </p>
+                )}
 
                 <div className="amount-input-group">
                     <span className="currency-prefix">$</span>
@@ -66,7 +77,7 @@ export const AmountInputModal: React.FC<AmountInputModalProps> = ({ isOpen, bill
                         value={amount}
                         onChange={(e) => setAmount(e.target.value)}
                         onKeyDown={handleKeyDown}
-                        placeholder="0.00"
+                        placeholder={estimate ? estimate.amount.toFixed(2) : '0.00'}
                     />
                 </div>
 
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { BalanceLedger, BalancePoint, LEDGER_ENTRY_LABELS } from '../core/BalanceLedger';
+import type { Bill, LedgerEntry, LedgerEntryKind } from '../types';
+import './BalanceHistoryModal.css';
+
+interface BalanceHistoryModalProps {
+    bill: Bill;
+    entries: LedgerEntry[]; // Oldest first
+    onRecord: (kind: LedgerEntryKind, newBalance: number, note?: string) => void;
+    onClose: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatDate = (date: string) => DateUtils.parseLocalDate(date)
+    .toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatChange = (amount: number) => `${amount > 0 ? '+' : '−'}${CalculationEngine.formatCurrency(Math.abs(amount))}`;
+
+/** SVG polyline points for a balance series, dates spaced by time */
+const chartPoints = (series: BalancePoint[]): string => {
+    const times = series.map(p => DateUtils.parseLocalDate(p.date).getTime());
+    const first = times[0] ?? 0;
+    const span = Math.max(1, (times[times.length - 1] ?? 0) - first);
+    const max = Math.max(1, ...series.map(p => p.balance));
+    return series
+        .map((p, i) => {
+            const x = series.length === 1 ? CHART_WIDTH / 2 : ((times[i]! - first) / span) * CHART_WIDTH;
+            const y = CHART_HEIGHT - (Math.max(0, p.balance) / max) * CHART_HEIGHT;
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join(' ');
+};
+
+export const BalanceHistoryModal: React.FC<BalanceHistoryModalProps> = ({ bill, entries, onRecord, onClose }) => {
+    const balance = bill.balance ?? 0;
+    const [kind, setKind] = useState<'charge' | 'edit'>('charge');
+    const [amountInput, setAmountInput] = useState('');
+    const [note, setNote] = useState('');
+
+    const totals = useMemo(() => BalanceLedger.totals(entries), [entries]);
+    const series = useMemo(() => BalanceLedger.balanceSeries(entries, balance), [entries, balance]);
+    const maxBalance = Math.max(0, ...series.map(p => p.balance));
+
+    const amount = CalculationEngine.parseAmount(amountInput);
+    // A charge needs a positive amount; a balance edit needs the corrected balance and a reason
+    const canRecord = amountInput !== '' && (kind === 'charge' ? amount > 0 : amount >= 0 && note.trim() !== '');
+
+    const handleRecord = () => {
+        if (!canRecord) return;
+        const newBalance = kind === 'charge' ? CalculationEngine.roundCurrency(balance + amount) : amount;
+        onRecord(kind, newBalance, note);
+        setAmountInput('');
+        setNote('');
+    };
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane balance-history-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="payoff-header">
+                    <h3>{bill.name} — Balance History</h3>
+                </div>
+
+                <div className="ledger-stats">
+                    <div className="ledger-stat">
+                        <span className="ledger-stat-label">Balance</span>
+                        <span className="ledger-stat-value">{CalculationEngine.formatCurrency(balance)}</span>
+                    </div>
+                    <div className="ledger-stat">
+                        <span className="ledger-stat-label">Interest to Date</span>
+                        <span className="ledger-stat-value ledger-stat-interest">{CalculationEngine.formatCurrency(totals.interest)}</span>
+                    </div>
+                    <div className="ledger-stat">
+                        <span className="ledger-stat-label">Paid to Date</span>
+                        <span className="ledger-stat-value">{CalculationEngine.formatCurrency(totals.payments)}</span>
+                    </div>
+                    <div className="ledger-stat">
+                        <span className="ledger-stat-label">New Charges</span>
+                        <span className="ledger-stat-value">{CalculationEngine.formatCurrency(totals.charges)}</span>
+                    </div>
+                </div>
+
+                {series.length > 1 ? (
+                    <div className="ledger-chart">
+                        <span className="ledger-chart-max">{CalculationEngine.formatCurrency(maxBalance)}</span>
+                        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" role="img" aria-label={`Balance of ${bill.name} over time`}>
+                            <polyline points={chartPoints(series)} />
+                        </svg>
+                        <div className="ledger-chart-dates">
+                            <span>{formatDate(series[0]!.date)}</span>
+                            <span>{formatDate(series[series.length - 1]!.date)}</span>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="ledger-empty">
+                        Interest and payments are recorded here each time a month is closed.
+                    </div>
+                )}
+
+                <div className="ledger-record">
+                    <select value={kind} onChange={e => setKind(e.target.value as 'charge' | 'edit')}>
+                        <option value="charge">New charge</option>
+                        <option value="edit">Correct balance</option>
+                    </select>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={amountInput}
+                        onChange={e => setAmountInput(e.target.value)}
+                        placeholder={kind === 'charge' ? 'Amount' : 'Correct balance'}
+                    />
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        placeholder={kind === 'charge' ? 'Note (optional)' : 'Reason (required)'}
+                    />
+                    <button className="ca-options-btn" onClick={handleRecord} disabled={!canRecord}>Record</button>
+                </div>
+
+                <div className="ledger-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Date</th>
+                                <th>Type</th>
+                                <th>Change</th>
+                                <th>Balance</th>
+                                <th>Note</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...entries].reverse().map(entry => (
+                                <tr key={entry.id} className={`ledger-${entry.kind}`}>
+                                    <td title={`Recorded ${new Date(entry.recordedAt).toLocaleString()}`}>{formatDate(entry.date)}</td>
+                                    <td>{LEDGER_ENTRY_LABELS[entry.kind]}</td>
+                                    <td className="ledger-amount ledger-change">{formatChange(entry.amount)}</td>
+                                    <td className="ledger-amount">{CalculationEngine.formatCurrency(entry.balanceAfter)}</td>
+                                    <td className="ledger-note">
+                                        {entry.kind === 'edit'
+                                            ? `${entry.note ?? ''} (was ${CalculationEngine.formatCurrency(entry.balanceAfter - entry.amount)})`
+                                            : entry.note}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="modal-actions">
+                    <button className="btn-primary" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default BalanceHistoryModal;
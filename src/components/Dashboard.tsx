@@ -1,14 +1,37 @@
-import React, { useState, useMemo, useEffect, useRef } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CalculationEngine } from '../core/CalculationEngine';
-import { DateUtils } from '../core/DateUtils';
+import { DateUtils, DEFAULT_HOLIDAY_CALENDAR } from '../core/DateUtils';
 import { AddBillModal } from './AddBillModal';
 import { HistoryModal } from './HistoryModal';
 import { NewMonthModal } from './NewMonthModal';
 import { AmountInputModal } from './AmountInputModal';
-import { SettingsModal } from './SettingsModal';
+import { SettingsModal, SettingsTab } from './SettingsModal';
 import { PayInfoHeader, PayInfo } from './PayInfoHeader';
-import type { Bill, HistoryItem } from '../types';
+import { ImportTransactionsModal, ImportedBalance, ImportedPayment } from './ImportTransactionsModal';
+import { MonthReport } from './MonthReport';
+import { ProfileSwitcher } from './ProfileSwitcher';
+import { DebtPlannerModal } from './DebtPlannerModal';
+import { AmortizationModal } from './AmortizationModal';
+import { BalanceHistoryModal } from './BalanceHistoryModal';
+import { UtilizationModal } from './UtilizationModal';
+import { WindfallModal } from './WindfallModal';
+import { RefinanceModal } from './RefinanceModal';
+import { DebtTimelineChart } from './DebtTimelineChart';
+import { Autopay, AUTOPAY_AMOUNT_LABELS } from '../core/Autopay';
+import { BalanceLedger } from '../core/BalanceLedger';
+import { BillEstimates, DEFAULT_AMOUNT_ESTIMATE, ESTIMATE_METHOD_LABELS } from '../core/BillEstimates';
+import { CreditUtilization, DEFAULT_UTILIZATION_THRESHOLDS } from '../core/CreditUtilization';
+import { BudgetProfiles } from '../core/BudgetProfiles';
+import { BudgetCategories, CategoryFilter, UNCATEGORIZED } from '../core/BudgetCategories';
+import { DebtPlanner } from '../core/DebtPlanner';
+import { RateSchedule } from '../core/RateSchedule';
+import { CardTerms } from '../core/CardTerms';
+import { InstallmentLoans } from '../core/InstallmentLoans';
+import { PaymentUtils } from '../core/PaymentUtils';
+import { Recurrence } from '../core/Recurrence';
+import { TransactionMatcher } from '../core/TransactionMatcher';
+import type { AmountEstimate, AutopayAmount, AutopayRule, Bill, BillPayment, BudgetCategory, BudgetProfile, CsvImportPreset, DebtPlan, DueDateRule, HistoryItem, HolidayCalendar, LedgerEntry, LedgerEntryKind, MinimumPaymentFormula, PaidMonth, RatePeriod, UtilizationSnapshot, UtilizationThresholds } from '../types';
 import './Dashboard.css';
 
 interface DashboardProps {
@@ -16,14 +39,53 @@ interface DashboardProps {
     initialHistory: HistoryItem[];
     initialPayInfos?: PayInfo[];
     initialActiveMonth?: string;
+    importPresets?: CsvImportPreset[];
     onDataChange: (bills: Bill[], history?: HistoryItem[]) => void;
     onPayInfosChange?: (payInfos: PayInfo[]) => void;
     onActiveMonthChange?: (month: string) => void;
     onReset: () => void;
     onLoadBackup?: (slot: number) => void;
+    onImportPresetsChange?: (presets: CsvImportPreset[]) => void;
+    initialPaymentMethods: string[];
+    onPaymentMethodsChange?: (methods: string[]) => void;
+    profiles: BudgetProfile[];
+    activeProfileId: string;
+    onSwitchProfile: (profileId: string) => void;
+    onCreateProfile: (name: string) => void;
+    onRenameProfile: (profileId: string, name: string) => void;
+    onDuplicateProfile: (profileId: string) => void;
+    onDeleteProfile: (profileId: string) => void;
+    categories: BudgetCategory[];
+    onCategoriesChange?: (categories: BudgetCategory[]) => void;
+    categoryRollovers: Record<string, Record<string, number>>;
+    onCategoryRolloversChange?: (rollovers: Record<string, Record<string, number>>) => void;
+    debtPlan?: DebtPlan;
+    onDebtPlanChange?: (plan: DebtPlan) => void;
+    balanceLedger?: LedgerEntry[];
+    onBalanceLedgerChange?: (ledger: LedgerEntry[]) => void;
+    utilizationThresholds?: UtilizationThresholds;
+    onUtilizationThresholdsChange?: (thresholds: UtilizationThresholds) => void;
+    utilizationHistory?: UtilizationSnapshot[];
+    onUtilizationHistoryChange?: (history: UtilizationSnapshot[]) => void;
+    holidayCalendar?: HolidayCalendar;
+    onHolidayCalendarChange?: (calendar: HolidayCalendar) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHistory, initialPayInfos, initialActiveMonth, onDataChange, onPayInfosChange, onActiveMonthChange, onReset, onLoadBackup }) => {
+const DEFAULT_DEBT_PLAN: DebtPlan = { strategy: 'avalanche', customOrder: [] };
+
+/** Paid bills as category payments, counted the same way as "Total Paid This Month" */
+const toCategoryPayments = (monthBills: Bill[]) => monthBills
+    .filter(b => PaymentUtils.amountPaid(b) > 0)
+    .map(b => ({ categoryId: b.categoryId, amount: PaymentUtils.amountPaid(b) }));
+
+export const Dashboard: React.FC<DashboardProps> = ({
+    initialBills, initialHistory, initialPayInfos, initialActiveMonth, importPresets, onDataChange, onPayInfosChange, onActiveMonthChange, onReset, onLoadBackup, onImportPresetsChange,
+    initialPaymentMethods, onPaymentMethodsChange, profiles, activeProfileId, onSwitchProfile, onCreateProfile, onRenameProfile, onDuplicateProfile, onDeleteProfile,
+    categories, onCategoriesChange, categoryRollovers, onCategoryRolloversChange, debtPlan = DEFAULT_DEBT_PLAN, onDebtPlanChange,
+    balanceLedger = [], onBalanceLedgerChange,
+    utilizationThresholds = DEFAULT_UTILIZATION_THRESHOLDS, onUtilizationThresholdsChange, utilizationHistory = [], onUtilizationHistoryChange,
+    holidayCalendar = DEFAULT_HOLIDAY_CALENDAR, onHolidayCalendarChange
+}) => {
     const [bills, setBills] = useState<Bill[]>(initialBills);
     const [history, setHistory] = useState<HistoryItem[]>(initialHistory);
     const [payInfos, setPayInfos] = useState<PayInfo[]>(initialPayInfos || []);
@@ -31,6 +93,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
     // Month navigation state
     const [activeMonth, setActiveMonth] = useState<string>(initialActiveMonth || DateUtils.getCurrentMonth());
     const [viewingMonth, setViewingMonth] = useState<string>(initialActiveMonth || DateUtils.getCurrentMonth());
+    const [today, setToday] = useState(() => DateUtils.toLocalDateString(new Date()));
+    // "billId:YYYY-MM-DD" due dates autopay has already paid, so a re-run before the new bills land can't pay them twice
+    const autopaidRef = useRef(new Set<string>());
 
     // UI State
     const [showNoteFor, setShowNoteFor] = useState<string | null>(null);
@@ -38,19 +103,26 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
     const [showPaymentModal, setShowPaymentModal] = useState<string | null>(null);
     const [showResetModal, setShowResetModal] = useState(false);
     const [showSettingsModal, setShowSettingsModal] = useState(false);
+    const [settingsTab, setSettingsTab] = useState<SettingsTab | undefined>(undefined);
     const [showNewMonthModal, setShowNewMonthModal] = useState(false);
     const [showAddBillModal, setShowAddBillModal] = useState(false);
     const [showHistory, setShowHistory] = useState(false);
     const [showAmountInputFor, setShowAmountInputFor] = useState<string | null>(null);
+    const [showImportModal, setShowImportModal] = useState(false);
+    const [showMonthReport, setShowMonthReport] = useState(false);
+    const [showDebtPlanner, setShowDebtPlanner] = useState(false);
+    const [showScheduleFor, setShowScheduleFor] = useState<string | null>(null);
+    const [showLedgerFor, setShowLedgerFor] = useState<string | null>(null);
+    const [showUtilization, setShowUtilization] = useState(false);
+    const [showWindfall, setShowWindfall] = useState(false);
+    const [showRefinance, setShowRefinance] = useState(false);
     const [isEditMode, setIsEditMode] = useState(false);
     const [devModeActive, setDevModeActive] = useState(false);
     const [devTestBillIds, setDevTestBillIds] = useState<string[]>([]);
     const [preDevPaymentMethods, setPreDevPaymentMethods] = useState<string[]>([]);
+    const [billFilter, setBillFilter] = useState<CategoryFilter | undefined>(undefined);
 
-    const [paymentMethods, setPaymentMethods] = useState<string[]>(() => {
-        const saved = localStorage.getItem('payment_methods');
-        return saved ? JSON.parse(saved) : [];
-    });
+    const [paymentMethods, setPaymentMethods] = useState<string[]>(initialPaymentMethods);
 
     // Sync props to state
     useEffect(() => {
@@ -59,6 +131,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         if (initialPayInfos) setPayInfos(initialPayInfos);
     }, [initialBills, initialHistory, initialPayInfos]);
 
+    useEffect(() => {
+        setPaymentMethods(initialPaymentMethods);
+    }, [initialPaymentMethods]);
+
+    // Notice the date changing while the app stays open, so autopay runs on each new day
+    useEffect(() => {
+        const timer = setInterval(() => setToday(DateUtils.toLocalDateString(new Date())), 60 * 60 * 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // File → Export for Spreadsheet opens the Export tab of Settings
+    useEffect(() => {
+        window.electronAPI?.onMenuExport?.(() => {
+            setSettingsTab('export');
+            setShowSettingsModal(true);
+        });
+    }, []);
+
     // Handle pay info changes
     const handlePayInfosChange = (newPayInfos: PayInfo[]) => {
         setPayInfos(newPayInfos);
@@ -70,7 +160,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
     // Handle payment methods changes
     const handlePaymentMethodsChange = (methods: string[]) => {
         setPaymentMethods(methods);
-        localStorage.setItem('payment_methods', JSON.stringify(methods));
+        onPaymentMethodsChange?.(methods);
     };
 
     // Helper: format payoff info as "Time Left Until Payoff: X months — Est. Jun 2027"
@@ -88,7 +178,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         // Auto-backup current state before month transition
         try {
             const backupData = {
-                bills, paidHistory: history, payInfos, activeMonth,
+                bills, paidHistory: history, payInfos, paymentMethods, categories, categoryRollovers, debtPlan, balanceLedger,
+                utilizationThresholds, utilizationHistory, holidayCalendar, activeMonth,
                 lastReset: '', isFirstTime: false, theme: 'dark' as const,
             };
             const entry = JSON.stringify({
@@ -96,16 +187,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                 month: activeMonth,
                 data: backupData,
             });
-            const slot1 = localStorage.getItem('honeycutt_backup_slot_1');
-            const slot2 = localStorage.getItem('honeycutt_backup_slot_2');
+            const slot1Key = BudgetProfiles.backupSlotKey(activeProfileId, 1);
+            const slot2Key = BudgetProfiles.backupSlotKey(activeProfileId, 2);
+            const slot1 = localStorage.getItem(slot1Key);
+            const slot2 = localStorage.getItem(slot2Key);
             if (!slot1) {
-                localStorage.setItem('honeycutt_backup_slot_1', entry);
+                localStorage.setItem(slot1Key, entry);
             } else if (!slot2) {
-                localStorage.setItem('honeycutt_backup_slot_2', entry);
+                localStorage.setItem(slot2Key, entry);
             } else {
                 const t1 = JSON.parse(slot1).timestamp;
                 const t2 = JSON.parse(slot2).timestamp;
-                localStorage.setItem(t1 <= t2 ? 'honeycutt_backup_slot_1' : 'honeycutt_backup_slot_2', entry);
+                localStorage.setItem(t1 <= t2 ? slot1Key : slot2Key, entry);
             }
         } catch (e) {
             console.error('Auto-backup failed:', e);
@@ -115,57 +208,109 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         const decisionMap = new Map(unpaidDecisions.map(d => [d.billId, d.action]));
         const newActiveMonth = DateUtils.addMonthsToMonth(activeMonth, 1);
 
-        // 1. Archive Paid Bills — both normally-paid AND advance-paid via paidMonths
+        // Carry unspent category targets into the new month
+        const closingPlans = BudgetCategories.planVsActual(
+            categories,
+            BudgetCategories.actualByCategory(toCategoryPayments(activeMonthBills), categories),
+            categoryRollovers[activeMonth]
+        );
+        const carried = BudgetCategories.rollover(closingPlans);
+        if (Object.keys(carried).length > 0 || categoryRollovers[newActiveMonth]) {
+            onCategoryRolloversChange?.({ ...categoryRollovers, [newActiveMonth]: carried });
+        }
+
+        // 1. Archive every payment made for the closing month, normally or in advance via paidMonths
+        // Bills paid in parts archive one item per payment; bills whose schedule skips the month wait for their own
         const paidBillsToArchive: HistoryItem[] = [];
         for (const b of bills) {
-            const advanceForCurrent = b.paidMonths?.[activeMonth];
-            const wasPaid = b.isPaid || !!advanceForCurrent;
-            if (wasPaid) {
+            const dueDates = Recurrence.occurrencesInMonth(b, activeMonth);
+            const payments = PaymentUtils.paymentsFor(b, activeMonth);
+            if (dueDates.length === 0) continue;
+            const monthAmount = Recurrence.amountForMonth(b, activeMonth);
+            payments.forEach((payment, i) => {
                 paidBillsToArchive.push({
                     id: b.id,
                     name: b.name,
-                    paidAmount: advanceForCurrent?.paidAmount || b.paidAmount || b.amount,
-                    amount: b.amount,
-                    paidDate: advanceForCurrent?.paidDate || b.paidDate,
-                    paidMethod: advanceForCurrent?.paidMethod || b.paidMethod || 'Unknown',
+                    paidAmount: payment.amount,
+                    amount: monthAmount,
+                    paidDate: payment.date || undefined,
+                    paidMethod: payment.method || 'Unknown',
                     archivedDate: new Date().toISOString(),
                     originalDueDate: b.dueDate,
                     hasBalance: b.hasBalance,
                     balance: b.balance,
                     isRecurring: b.isRecurring,
+                    frequency: Recurrence.frequency(b),
+                    occurrences: dueDates.length > 1 ? dueDates.length : undefined,
+                    part: payments.length > 1 ? i + 1 : undefined,
+                    parts: payments.length > 1 ? payments.length : undefined,
+                    categoryId: b.categoryId,
+                    tags: b.tags,
                 });
-            }
+            });
         }
 
         const newHistory = [...paidBillsToArchive, ...history];
         setHistory(newHistory);
 
+        // Interest and payments booked against each balance at month end
+        const ledgerEntries: LedgerEntry[] = [];
+        const closingDate = BalanceLedger.monthEnd(activeMonth);
+        const book = (billId: string, kind: LedgerEntryKind, before: number, after: number) => {
+            const entry = BalanceLedger.change(billId, kind, before, after, closingDate);
+            if (entry) ledgerEntries.push(entry);
+        };
+        // One payment entry per payment, splitting the drop from `before` to `after` by amount
+        const bookPayments = (billId: string, payments: BillPayment[], before: number, after: number) => {
+            const total = payments.reduce((sum, p) => sum + p.amount, 0);
+            let running = before;
+            payments.forEach((payment, i) => {
+                const next = i === payments.length - 1 || total <= 0
+                    ? after
+                    : CalculationEngine.roundCurrency(running - (before - after) * payment.amount / total);
+                book(billId, 'payment', running, next);
+                running = next;
+            });
+        };
+
         // 2. Roll over logic with unpaid bill decisions
         const updatedBills = bills.reduce<Bill[]>((acc, bill) => {
             // Determine if the bill was effectively paid this month (normally or via advance)
-            const advanceForCurrent = bill.paidMonths?.[activeMonth];
-            const effectivelyPaid = bill.isPaid || !!advanceForCurrent;
+            // Not due in the closing month — carried over untouched until its own month closes
+            if (!Recurrence.isDueInMonth(bill, activeMonth)) {
+                acc.push(bill);
+                return acc;
+            }
 
-            // Skip one-time bills - they don't roll over to next month
-            if (bill.frequency === 'one-time') {
-                // Archive unpaid one-time bills so they don't silently disappear
-                if (!effectivelyPaid) {
+            const advanceForCurrent = bill.paidMonths?.[activeMonth];
+            const effectivelyPaid = bill.isPaid || (!!advanceForCurrent && !advanceForCurrent.partial);
+            const payments = PaymentUtils.paymentsFor(bill, activeMonth);
+            const paidAmt = CalculationEngine.roundCurrency(payments.reduce((sum, p) => sum + p.amount, 0));
+            const nextDueDate = Recurrence.nextDueDate(bill, activeMonth);
+
+            // Skip one-time bills and finished series - they don't roll over to next month
+            if (!nextDueDate) {
+                // Archive unpaid bills so they don't silently disappear; part-paid ones are archived with their payments
+                if (!effectivelyPaid && payments.length === 0) {
                     newHistory.push({
                         id: bill.id,
                         name: bill.name,
                         paidAmount: 0,
-                        amount: bill.amount,
+                        amount: Recurrence.amountForMonth(bill, activeMonth),
                         paidDate: undefined,
                         paidMethod: 'Skipped',
                         archivedDate: new Date().toISOString(),
-                        isRecurring: false,
+                        isRecurring: bill.isRecurring,
+                        frequency: Recurrence.frequency(bill),
                         originalDueDate: bill.dueDate,
+                        categoryId: bill.categoryId,
+                        tags: bill.tags,
                     });
                 }
                 return acc;
             }
 
-            // Check if this bill was unpaid and has a decision
+            // Check if this bill was unpaid (or only partially paid) and has a decision
             const decision = !effectivelyPaid ? decisionMap.get(bill.id) : undefined;
 
             // If user chose to defer this unpaid bill, don't include it
@@ -176,20 +321,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
             let newBalance = bill.balance;
             let newAmount = bill.amount;
 
-            // Precise balance update with interest accrual
-            if (bill.hasBalance && bill.balance != null && bill.balance > 0) {
-                const paidAmt = effectivelyPaid
-                    ? (advanceForCurrent?.paidAmount || bill.paidAmount || bill.amount)
-                    : 0;
-
+            // Installment loans follow their schedule and the payments now in history
+            if (bill.loan) {
+                const before = bill.balance ?? 0;
+                newBalance = InstallmentLoans.currentBalance(bill.loan, InstallmentLoans.recordedPayments(bill.id, newHistory));
+                if (payments.length > 0 && newBalance !== before) {
+                    const withInterest = before + InstallmentLoans.paymentSplit(bill.loan, before, paidAmt).interest;
+                    book(bill.id, 'interest', before, withInterest);
+                    bookPayments(bill.id, payments, withInterest, newBalance);
+                }
+            } else if (bill.hasBalance && bill.balance != null && bill.balance > 0) {
+                // Precise balance update with interest accrual, from every payment made this month
                 // If paid amount covers the entire balance, balance becomes 0 (no interest).
                 if (paidAmt >= bill.balance) {
                     newBalance = 0;
+                    bookPayments(bill.id, payments, bill.balance, 0);
                 } else {
                     // Use cents-based math to avoid floating-point precision errors
                     const balanceCents = Math.round(bill.balance * 100);
-                    const interestCents = Math.round((balanceCents * ((bill.interestRate || 0) / 100)) / 12);
+                    const interestCents = CalculationEngine.calculateMonthlyInterestCents(
+                        balanceCents,
+                        RateSchedule.rateForMonth(bill, activeMonth) / 100,
+                        bill.interestMethod,
+                        DateUtils.daysInMonth(activeMonth)
+                    );
                     const paidCents = Math.round(paidAmt * 100);
+                    book(bill.id, 'interest', balanceCents / 100, (balanceCents + interestCents) / 100);
 
                     if (paidCents >= interestCents) {
                         // Payment covers interest — remainder reduces principal
@@ -200,6 +357,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                         const unpaidInterestCents = interestCents - paidCents;
                         newBalance = (balanceCents + unpaidInterestCents) / 100;
                     }
+                    bookPayments(bill.id, payments, (balanceCents + interestCents) / 100, newBalance);
                 }
             }
 
@@ -214,21 +372,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                 return acc;
             }
 
-            // Advance due date, preserving original day-of-month to prevent drift
+            // Advance to the next scheduled date; the rule keeps the original day-of-month to prevent drift
             const origDay = bill.originalDueDay || DateUtils.parseLocalDate(bill.dueDate).getDate();
-            const curDate = DateUtils.parseLocalDate(bill.dueDate);
-            const nextMonth = curDate.getMonth() + 1;
-            const nextYear = curDate.getFullYear() + (nextMonth > 11 ? 1 : 0);
-            const actualNextMonth = nextMonth % 12;
-            const daysInNextMonth = new Date(nextYear, actualNextMonth + 1, 0).getDate();
-            const newDay = Math.min(origDay, daysInNextMonth);
-            const newDueDate = `${nextYear}-${String(actualNextMonth + 1).padStart(2, '0')}-${String(newDay).padStart(2, '0')}`;
 
             // Clean paidMonths: remove entries for months <= new active month
             // Only keep legitimate future advance payments
-            let cleanedPaidMonths: Record<string, { paidAmount: number; paidMethod: string; paidDate: string }> | undefined;
+            let cleanedPaidMonths: Record<string, PaidMonth> | undefined;
             if (bill.paidMonths) {
-                const kept: Record<string, { paidAmount: number; paidMethod: string; paidDate: string }> = {};
+                const kept: Record<string, PaidMonth> = {};
                 for (const [month, payment] of Object.entries(bill.paidMonths)) {
                     if (DateUtils.compareMonths(month, newActiveMonth) > 0) {
                         kept[month] = payment;
@@ -242,14 +393,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
 
             acc.push({
                 ...bill,
-                isPaid: !!advanceForNewMonth,
+                isPaid: !!advanceForNewMonth && !advanceForNewMonth.partial,
                 paidAmount: advanceForNewMonth?.paidAmount ?? 0,
                 paidMethod: advanceForNewMonth?.paidMethod ?? undefined,
                 paidDate: advanceForNewMonth?.paidDate ?? undefined,
+                payments: advanceForNewMonth ? PaymentUtils.paymentsFor(bill, newActiveMonth) : undefined,
                 paidMonths: cleanedPaidMonths,
                 balance: newBalance,
                 amount: newAmount,
-                dueDate: newDueDate,
+                dueDate: nextDueDate,
                 originalDueDay: origDay,
             });
             return acc;
@@ -257,6 +409,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
 
         setBills(updatedBills);
         onDataChange(updatedBills, newHistory);
+        if (ledgerEntries.length > 0) {
+            onBalanceLedgerChange?.([...balanceLedger, ...ledgerEntries]);
+        }
+
+        // Month-end card utilization, for the trend
+        const utilizationSnapshot = CreditUtilization.snapshot(updatedBills, activeMonth);
+        if (utilizationSnapshot) {
+            onUtilizationHistoryChange?.(CreditUtilization.record(utilizationHistory, utilizationSnapshot));
+        }
         setShowNewMonthModal(false);
 
         // Advance active month and viewing month
@@ -271,6 +432,83 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         onDataChange(updated, history);
     };
 
+    const updateBillCategory = (id: string, categoryId: string | undefined) => {
+        const updated = bills.map(b => b.id === id ? { ...b, categoryId } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+    };
+
+    const updateBillDueDateRule = (id: string, dueDateRule: DueDateRule | undefined) => {
+        const updated = bills.map(b => b.id === id ? { ...b, dueDateRule } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+    };
+
+    const updateBillAutopay = (id: string, autopay: AutopayRule | undefined) => {
+        const updated = bills.map(b => b.id === id ? { ...b, autopay } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+    };
+
+    const updateBillEstimate = (id: string, estimate: AmountEstimate) => {
+        const updated = bills.map(b => b.id === id ? { ...b, estimate } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+    };
+
+    // Rate schedule, interest method, minimum-payment formula, loan terms and credit limit, edited in the debt views
+    const updateDebtTerms = (id: string, changes: Partial<Bill>) => {
+        const bill = bills.find(b => b.id === id);
+        const updated = bills.map(b => b.id === id ? { ...b, ...changes } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+
+        // Loan terms re-derive the balance; record the difference
+        const entry = bill && changes.balance !== undefined
+            ? BalanceLedger.change(id, 'adjustment', bill.balance ?? 0, changes.balance, undefined, 'Loan terms changed')
+            : null;
+        if (entry) onBalanceLedgerChange?.([...balanceLedger, entry]);
+    };
+
+    // New charges and hand corrections from the balance history view
+    const recordBalanceChange = (id: string, kind: LedgerEntryKind, newBalance: number, note?: string) => {
+        const bill = bills.find(b => b.id === id);
+        const entry = bill ? BalanceLedger.change(id, kind, bill.balance ?? 0, newBalance, undefined, note) : null;
+        if (!entry) return;
+        const updated = bills.map(b => b.id === id ? { ...b, balance: entry.balanceAfter } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+        onBalanceLedgerChange?.([...balanceLedger, entry]);
+    };
+
+    // A lump sum from the windfall simulator, taken off each balance at once
+    const applyWindfall = (allocation: Array<{ billId: string; amount: number }>) => {
+        const amounts = new Map(allocation.map(a => [a.billId, a.amount]));
+        const entries: LedgerEntry[] = [];
+        const updated = bills.map(b => {
+            const amount = amounts.get(b.id);
+            if (!amount) return b;
+            const before = b.balance ?? 0;
+            const after = CalculationEngine.roundCurrency(Math.max(0, before - amount));
+            const entry = BalanceLedger.change(b.id, 'payment', before, after, undefined, 'Windfall');
+            if (entry) entries.push(entry);
+            return { ...b, balance: after };
+        });
+        setBills(updated);
+        onDataChange(updated, history);
+        if (entries.length > 0) {
+            onBalanceLedgerChange?.([...balanceLedger, ...entries]);
+        }
+        setShowWindfall(false);
+    };
+
+    const updateBillTags = (id: string, tagInput: string) => {
+        const tags = BudgetCategories.parseTags(tagInput);
+        const updated = bills.map(b => b.id === id ? { ...b, tags: tags.length > 0 ? tags : undefined } : b);
+        setBills(updated);
+        onDataChange(updated, history);
+    };
+
     const deleteBill = (id: string) => {
         if (window.confirm("Delete this bill?")) {
             const updated = bills.filter(b => b.id !== id);
@@ -280,6 +518,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
             // Clear any active selection states to prevent crashes
             if (showNoteFor === id) setShowNoteFor(null);
             if (showPayoffFor === id) setShowPayoffFor(null);
+            if (showScheduleFor === id) setShowScheduleFor(null);
+            if (showLedgerFor === id) setShowLedgerFor(null);
             if (showPaymentModal === id) setShowPaymentModal(null);
         }
     };
@@ -292,15 +532,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         onDataChange(updated, history);
     };
 
-    const togglePaid = (billId: string) => {
+    // Bills are only marked paid through the payment modal; undo takes back the latest payment for the viewed month
+    const undoPayment = (billId: string) => {
+        const row = monthBills.find(b => b.id === billId);
         const updatedBills = bills.map(bill => {
             if (bill.id !== billId) return bill;
-            if (bill.isPaid) {
-                // Undo: clear payment data
-                return { ...bill, isPaid: false, paidAmount: undefined, paidMethod: undefined, paidDate: undefined };
-            }
-            // Don't allow toggling unpaid→paid without payment modal
-            return bill;
+            const undone = PaymentUtils.undoLastPayment(bill, viewingMonth);
+            return row && Autopay.isAutoPaid(row) ? Autopay.skipMonth(undone, viewingMonth) : undone;
         });
         setBills(updatedBills);
         onDataChange(updatedBills, history);
@@ -317,43 +555,60 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
 
     const addPaymentMethod = (method: string) => {
         const updatedMethods = [...paymentMethods, method];
-        setPaymentMethods(updatedMethods);
-        localStorage.setItem('payment_methods', JSON.stringify(updatedMethods));
+        handlePaymentMethodsChange(updatedMethods);
     };
 
     const markBillPaid = (billId: string, paymentMethod: string, paidAmount?: number) => {
         const bill = bills.find(b => b.id === billId);
         if (!bill) return;
 
-        // For recurring bills in preview (future) months, store payment per-month
-        const billMonth = DateUtils.getMonthFromDate(bill.dueDate);
-        const isProjectedFuture = bill.isRecurring && DateUtils.compareMonths(viewingMonth, billMonth) > 0;
+        // For recurring bills in preview (future) months, PaymentUtils stores the payment per-month
+        const updatedBills = bills.map(b =>
+            b.id === billId ? PaymentUtils.applyPayment(b, viewingMonth, paymentMethod, paidAmount) : b
+        );
+        setBills(updatedBills);
+        onDataChange(updatedBills, history);
+        setShowPaymentModal(null);
+    };
 
+    // Record imported statement transactions through the same path as markBillPaid
+    const applyImportedPayments = (payments: ImportedPayment[], balances: ImportedBalance[]) => {
+        const balanceByBill = new Map(balances.map(b => [b.billId, b]));
+        const ledgerEntries: LedgerEntry[] = [];
         const updatedBills = bills.map(b => {
-            if (b.id !== billId) return b;
-            if (isProjectedFuture) {
-                // Store advance payment in paidMonths without touching base isPaid
-                const paidMonths = { ...(b.paidMonths || {}) };
-                paidMonths[viewingMonth] = {
-                    paidAmount: paidAmount ?? b.amount,
-                    paidMethod: paymentMethod,
-                    paidDate: new Date().toISOString(),
-                };
-                return { ...b, paidMonths };
-            } else {
-                // Normal payment for current/active month
-                return {
-                    ...b,
-                    isPaid: true,
-                    paidAmount: paidAmount ?? b.amount,
-                    paidMethod: paymentMethod,
-                    paidDate: new Date().toISOString(),
-                };
+            let updated = b;
+            // A bill paid in parts gets each matched transaction as its own payment, oldest first
+            const billPayments = payments
+                .filter(p => p.billId === b.id)
+                .sort((x, y) => x.transaction.date.localeCompare(y.transaction.date));
+            for (const payment of billPayments) {
+                updated = PaymentUtils.applyPayment(updated, viewingMonth, payment.method, payment.transaction.amount, payment.transaction.date);
+                // Remember descriptions the user matched by hand so the next import finds them
+                const keyword = payment.manual ? TransactionMatcher.keywordFor(payment.transaction.description) : '';
+                if (keyword && !updated.matchKeywords?.includes(keyword)) {
+                    updated = { ...updated, matchKeywords: [...(updated.matchKeywords || []), keyword] };
+                }
+            }
+            // Statement balances replace the hand-typed balance and pin the account for next time
+            const statement = balanceByBill.get(b.id);
+            if (statement) {
+                const entry = BalanceLedger.change(b.id, 'adjustment', b.balance ?? 0, statement.balance, undefined, 'Statement import');
+                if (entry) ledgerEntries.push(entry);
+                updated = { ...updated, balance: statement.balance, statementAccountId: statement.accountId };
             }
+            return updated;
         });
         setBills(updatedBills);
         onDataChange(updatedBills, history);
-        setShowPaymentModal(null);
+        if (ledgerEntries.length > 0) {
+            onBalanceLedgerChange?.([...balanceLedger, ...ledgerEntries]);
+        }
+
+        const newMethods = [...new Set(payments.map(p => p.method))].filter(m => !paymentMethods.includes(m));
+        if (newMethods.length > 0) {
+            handlePaymentMethodsChange([...paymentMethods, ...newMethods]);
+        }
+        setShowImportModal(false);
     };
 
     // --- COMPUTED ---
@@ -377,54 +632,63 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         });
     }, [history, viewingMonth, isPastMode]);
 
-    // Helper: get bills for a given month, projecting recurring bills forward
+    // Helper: get bills for a given month, projecting recurring bills forward on their schedule
     const getBillsForMonth = (targetMonth: string) => {
+        const estimates = BillEstimates.forMonth(bills, history, targetMonth);
         return bills
-            .filter(b => {
-                const bMonth = DateUtils.getMonthFromDate(b.dueDate);
-                if (bMonth === targetMonth) return true;
-                // Recurring bills from prior months appear in future months
-                if (b.isRecurring && DateUtils.compareMonths(bMonth, targetMonth) < 0) return true;
-                return false;
-            })
+            .flatMap(b => PaymentUtils.forMonth(b, targetMonth) ?? [])
+            // Variable bills still waiting on their amount count at the estimate, so totals aren't understated
             .map(b => {
-                const bMonth = DateUtils.getMonthFromDate(b.dueDate);
-                if (b.isRecurring && bMonth !== targetMonth) {
-                    const tParts = targetMonth.split('-').map(Number);
-                    const vy = tParts[0] ?? 0, vm = tParts[1] ?? 1;
-                    const day = b.originalDueDay || DateUtils.parseLocalDate(b.dueDate).getDate();
-                    const daysInMonth = new Date(vy, vm, 0).getDate();
-                    const projectedDay = Math.min(day, daysInMonth);
-                    const projectedDate = `${targetMonth}-${String(projectedDay).padStart(2, '0')}`;
-                    // Check if this recurring bill was paid for this specific month
-                    const monthPayment = b.paidMonths?.[targetMonth];
-                    return {
-                        ...b,
-                        dueDate: projectedDate,
-                        isPaid: !!monthPayment,
-                        paidAmount: monthPayment?.paidAmount,
-                        paidMethod: monthPayment?.paidMethod,
-                        paidDate: monthPayment?.paidDate,
-                    };
-                }
-                // Check advance payments even for bills whose dueDate matches this month
-                if (b.paidMonths?.[targetMonth] && !b.isPaid) {
-                    const monthPayment = b.paidMonths[targetMonth];
-                    return {
-                        ...b,
-                        isPaid: true,
-                        paidAmount: monthPayment.paidAmount,
-                        paidMethod: monthPayment.paidMethod,
-                        paidDate: monthPayment.paidDate,
-                    };
-                }
-                return b;
+                const estimate = b.isPaid ? undefined : estimates.get(b.id);
+                return estimate ? { ...b, amount: estimate.amount } : b;
             })
+            // Scheduled dates move off weekends and holidays here, so every due-soon figure sees the real date
+            .map(b => b.dueDateRule ? { ...b, dueDate: DateUtils.applyDueDateRule(b.dueDate, b.dueDateRule, holidayCalendar) } : b)
             .sort((a, b) => DateUtils.parseLocalDate(a.dueDate).getTime() - DateUtils.parseLocalDate(b.dueDate).getTime());
     };
 
+    // Rows for other months carry projected dates and amounts; edits start from the bill as saved
+    const storedBill = (bill: Bill) => bills.find(b => b.id === bill.id) ?? bill;
+
+    // "Checking & Visa" for a bill paid in parts from different accounts
+    const paymentMethodsLabel = (bill: Bill) => {
+        const methods = [...new Set((bill.payments ?? []).map(p => p.method))];
+        return methods.length > 0 ? methods.join(' & ') : bill.paidMethod || 'Unknown';
+    };
+
+    // One line per payment, for the tooltip on paid and part-paid bills
+    const paymentsTitle = (bill: Bill) => (bill.payments ?? [])
+        .map(p => `${p.date ? DateUtils.formatDate(p.date.length > 10 ? new Date(p.date) : p.date) : '—'} · ${CalculationEngine.formatCurrency(p.amount)} · ${p.method}`)
+        .join('\n') || undefined;
+
+    // "Weekly · 4 × $200.00 · Next business day" under bills with more than a plain monthly schedule
+    const scheduleLabel = (bill: Bill) => {
+        const stored = storedBill(bill);
+        const frequency = Recurrence.frequency(stored);
+        const parts: string[] = [];
+        if (frequency !== 'one-time' && (frequency !== 'monthly' || stored.recurrence?.endDate || stored.recurrence?.count)) {
+            const count = Recurrence.occurrencesInMonth(stored, viewingMonth).length;
+            parts.push(Recurrence.describe(stored));
+            if (count > 1) parts.push(`${count} × ${CalculationEngine.formatCurrency(stored.amount)}`);
+        }
+        if (stored.dueDateRule) parts.push(DateUtils.describeDueDateRule(stored.dueDateRule));
+        return parts.join(' · ');
+    };
+
+    // Weekly bills only shift off non-business days; the month-based rules would put every occurrence on one date
+    const dueDateRuleChoices = (bill: Bill) => {
+        const stored = storedBill(bill);
+        const choices = DateUtils.dueDateRuleChoices(stored.dueDate);
+        const current = stored.dueDateRule;
+        const all = current?.kind === 'nth-weekday' ? choices.map(r => r.kind === 'nth-weekday' ? current : r) : choices;
+        return Recurrence.isWeekly(Recurrence.frequency(stored))
+            ? all.filter(r => r.kind === 'previous-business-day' || r.kind === 'next-business-day')
+            : all;
+    };
+
     // Filter bills to viewing month (recurring bills appear in future months too)
-    const monthBills = useMemo(() => getBillsForMonth(viewingMonth), [bills, viewingMonth]);
+    const monthBills = useMemo(() => getBillsForMonth(viewingMonth), [bills, history, viewingMonth, holidayCalendar]);
+    const monthEstimates = useMemo(() => BillEstimates.forMonth(bills, history, viewingMonth), [bills, history, viewingMonth]);
 
     // All bills for the month, excluding zero-balance credit accounts from main list
     const allBills = useMemo(() => monthBills.filter(b => {
@@ -432,24 +696,84 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
         if (b.isCreditAccount && b.hasBalance && (b.balance == null || b.balance <= 0) && b.amount <= 0) return false;
         return true;
     }), [monthBills]);
+    // Planned vs. actual per category for the month being viewed
+    const categoryPlans = useMemo(() => {
+        const payments = isPastMode
+            ? pastMonthHistory.map(h => ({ categoryId: h.categoryId, amount: h.paidAmount }))
+            : toCategoryPayments(monthBills);
+        return BudgetCategories.planVsActual(
+            categories,
+            BudgetCategories.actualByCategory(payments, categories),
+            categoryRollovers[viewingMonth]
+        );
+    }, [isPastMode, pastMonthHistory, monthBills, categories, categoryRollovers, viewingMonth]);
+    const overTargetPlans = useMemo(() => categoryPlans.filter(p => p.isOver), [categoryPlans]);
+    const promoWarnings = useMemo(() => RateSchedule.promoWarnings(bills), [bills]);
+
+    const filteredBills = useMemo(
+        () => allBills.filter(b => BudgetCategories.matches(b, billFilter, categories)),
+        [allBills, billFilter, categories]
+    );
+    const billTags = useMemo(() => BudgetCategories.collectTags(bills), [bills]);
     const creditCards = useMemo(() => bills.filter(b => b.isCreditAccount), [bills]);
     const recurringDebt = useMemo(() => bills.filter(b => b.hasBalance && !b.isCreditAccount), [bills]);
     const hasDebtOverview = creditCards.length > 0 || recurringDebt.length > 0;
+    const utilization = useMemo(
+        () => CreditUtilization.summarize(creditCards, utilizationThresholds),
+        [creditCards, utilizationThresholds]
+    );
+    const plannerDebts = useMemo(() => DebtPlanner.fromBills([...creditCards, ...recurringDebt]), [creditCards, recurringDebt]);
+    const debtPlanResult = useMemo(() => plannerDebts.length > 0
+        ? DebtPlanner.simulate(
+            plannerDebts,
+            debtPlan.monthlyBudget ?? DebtPlanner.minimumBudget(plannerDebts),
+            debtPlan.strategy,
+            debtPlan.customOrder
+        )
+        : null,
+        [plannerDebts, debtPlan]
+    );
+    // Combined balance of every debt under the current plan; follows balances and payments as they change
+    const debtTimeline = useMemo(
+        () => debtPlanResult ? DebtPlanner.timeline(plannerDebts, debtPlanResult) : null,
+        [plannerDebts, debtPlanResult]
+    );
     const totalDue = useMemo(() => CalculationEngine.calculateTotalDue(monthBills), [monthBills]);
     const dueIn2Weeks = useMemo(() => CalculationEngine.calculateDueWithinDays(monthBills, 14), [monthBills]);
     const totalPaidSpending = useMemo(() =>
-        CalculationEngine.roundCurrency(monthBills.filter(b => b.isPaid).reduce((sum, b) => sum + (b.paidAmount || b.amount), 0)),
+        CalculationEngine.roundCurrency(monthBills.reduce((sum, b) => sum + PaymentUtils.amountPaid(b), 0)),
         [monthBills]
     );
     const unpaidCount = useMemo(() => allBills.filter(b => !b.isPaid).length, [allBills]);
 
     // Check if active month is complete (all bills paid)
-    const activeMonthBills = useMemo(() => getBillsForMonth(activeMonth), [bills, activeMonth]);
+    const activeMonthBills = useMemo(() => getBillsForMonth(activeMonth), [bills, history, activeMonth, holidayCalendar]);
     const activeMonthComplete = useMemo(() =>
         activeMonthBills.length > 0 && activeMonthBills.every(b => b.isPaid),
         [activeMonthBills]
     );
 
+    // Autopay bills of the active month whose due date has passed pay themselves, through the same path as markBillPaid
+    const runAutopay = useCallback(() => {
+        const estimated = new Set(BillEstimates.forMonth(bills, history, activeMonth).keys());
+        const due = Autopay.duePayments(activeMonthBills, activeMonth, today, estimated)
+            .filter(p => !autopaidRef.current.has(`${p.billId}:${p.date}`));
+        if (due.length === 0) return;
+
+        due.forEach(p => autopaidRef.current.add(`${p.billId}:${p.date}`));
+        const byBill = new Map(due.map(p => [p.billId, p]));
+        const updatedBills = bills.map(b => {
+            const payment = byBill.get(b.id);
+            return payment ? PaymentUtils.applyPayment(b, activeMonth, payment.method, payment.amount, payment.date, true) : b;
+        });
+        setBills(updatedBills);
+        onDataChange(updatedBills, history);
+    }, [bills, history, activeMonth, activeMonthBills, today, onDataChange]);
+
+    useEffect(() => {
+        runAutopay();
+    }, [runAutopay]);
+
     // Month navigation handlers
     const handlePreviousMonth = () => {
         setViewingMonth(DateUtils.addMonthsToMonth(viewingMonth, -1));
@@ -521,32 +845,76 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                             </div>
                             <div className="current-date-display">{DateUtils.getCurrentDateDisplay()}</div>
                         </div>
-                        {!isPastMode && (
-                            <div className="header-controls">
-                                <button
-                                    className="header-action-btn settings-header-btn"
-                                    onClick={() => setShowSettingsModal(true)}
-                                    title="Settings"
-                                >
-                                    ⚙️
-                                </button>
-                                <button
-                                    className="add-bill-mini-btn"
-                                    onClick={addNewBill}
-                                    title="Add New Bill"
-                                >
-                                    Add Bill
-                                </button>
-                                <button
-                                    className={`header-action-btn edit-mode-btn ${isEditMode ? 'active' : ''}`}
-                                    onClick={() => setIsEditMode(!isEditMode)}
-                                >
-                                    {isEditMode ? 'Done' : 'Edit/Delete Bill'}
-                                </button>
-                            </div>
-                        )}
+                        <div className="header-controls">
+                            <ProfileSwitcher
+                                profiles={profiles}
+                                activeProfileId={activeProfileId}
+                                onSwitch={onSwitchProfile}
+                                onCreate={onCreateProfile}
+                                onRename={onRenameProfile}
+                                onDuplicate={onDuplicateProfile}
+                                onDelete={onDeleteProfile}
+                            />
+                            <button
+                                className="header-action-btn print-month-btn"
+                                onClick={() => setShowMonthReport(true)}
+                                title={`Print ${DateUtils.getMonthDisplay(viewingMonth)} statement`}
+                            >
+                                Print Month
+                            </button>
+                            {!isPastMode && (
+                                <>
+                                    <button
+                                        className="header-action-btn settings-header-btn"
+                                        onClick={() => {
+                                            setSettingsTab(undefined);
+                                            setShowSettingsModal(true);
+                                        }}
+                                        title="Settings"
+                                    >
+                                        ⚙️
+                                    </button>
+                                    <button
+                                        className="add-bill-mini-btn"
+                                        onClick={addNewBill}
+                                        title="Add New Bill"
+                                    >
+                                        Add Bill
+                                    </button>
+                                    <button
+                                        className={`header-action-btn edit-mode-btn ${isEditMode ? 'active' : ''}`}
+                                        onClick={() => setIsEditMode(!isEditMode)}
+                                    >
+                                        {isEditMode ? 'Done' : 'Edit/Delete Bill'}
+                                    </button>
+                                </>
+                            )}
+                        </div>
                     </div>
 
+                    {overTargetPlans.length > 0 && (
+                        <div className="target-warning-banner" role="alert">
+                            <span className="target-warning-icon">⚠</span>
+                            <span>
+                                Over target: {overTargetPlans.map(p =>
+                                    `${p.category.name} by ${CalculationEngine.formatCurrency(-p.remaining)}`
+                                ).join(', ')}
+                            </span>
+                        </div>
+                    )}
+
+                    {promoWarnings.map(warning => (
+                        <div key={`${warning.bill.id}-${warning.period.id}`} className="target-warning-banner promo-warning-banner" role="alert">
+                            <span className="target-warning-icon">⚠</span>
+                            <span>
+                                {warning.bill.name}: {warning.period.label || `${warning.period.rate}% promo`} ends {DateUtils.formatDate(warning.endDate)}
+                                {' '}({warning.daysLeft === 0 ? 'today' : `in ${warning.daysLeft} day${warning.daysLeft !== 1 ? 's' : ''}`})
+                                {' '}with about {CalculationEngine.formatCurrency(warning.balanceAtEnd)} left, which then accrues {warning.rateAfter}% APR
+                            </span>
+                            <button className="ca-options-btn" onClick={() => setShowPayoffFor(warning.bill.id)}>Details</button>
+                        </div>
+                    ))}
+
                     {isPastMode ? (
                         /* ========== PAST MONTH SUMMARY VIEW ========== */
                         <>
@@ -599,6 +967,41 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                     ) : (
                         /* ========== ACTIVE / PREVIEW MONTH VIEW ========== */
                         <>
+                            <div className="bill-filter-row">
+                                <label htmlFor="bill-filter-select">Show</label>
+                                <select
+                                    id="bill-filter-select"
+                                    className="bill-filter-select"
+                                    value={billFilter ? `${billFilter.kind}:${billFilter.kind === 'category' ? billFilter.id : billFilter.tag}` : ''}
+                                    onChange={(e) => {
+                                        const [kind, ...rest] = e.target.value.split(':');
+                                        const value = rest.join(':');
+                                        setBillFilter(kind === 'category' ? { kind, id: value }
+                                            : kind === 'tag' ? { kind, tag: value }
+                                            : undefined);
+                                    }}
+                                >
+                                    <option value="">All bills</option>
+                                    <optgroup label="Categories">
+                                        {[...categories, UNCATEGORIZED].map(c => (
+                                            <option key={c.id} value={`category:${c.id}`}>{c.name}</option>
+                                        ))}
+                                    </optgroup>
+                                    {billTags.length > 0 && (
+                                        <optgroup label="Tags">
+                                            {billTags.map(tag => (
+                                                <option key={tag} value={`tag:${tag}`}>#{tag}</option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                </select>
+                                {billFilter && (
+                                    <span className="bill-filter-count">
+                                        {filteredBills.length} of {allBills.length} bills
+                                    </span>
+                                )}
+                            </div>
+
                             <div className="bill-list-header">
                                 <div className="header-note">NOTES</div>
                                 <div className="header-date">Due Date</div>
@@ -609,7 +1012,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                             </div>
 
                             <div className="bills-list">
-                                {allBills.map((bill) => (
+                                {filteredBills.map((bill) => (
                                     <div key={bill.id} className={`bill-item ${bill.isPaid ? 'is-paid' : ''}`}>
                                         {/* Col 1: Note or Delete */}
                                         <div className="bill-note-col">
@@ -673,15 +1076,136 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                         ✓
                                                     </button>
                                                 </div>
-                                            ) : (
+                                            ) : isEditMode ? (
                                                 <>
                                                     <span className="bill-name-text">{bill.name}</span>
+                                                    <div className="bill-category-editor" onClick={(e) => e.stopPropagation()}>
+                                                        <select
+                                                            value={bill.categoryId && categories.some(c => c.id === bill.categoryId) ? bill.categoryId : ''}
+                                                            onChange={(e) => updateBillCategory(bill.id, e.target.value || undefined)}
+                                                            aria-label={`Category for ${bill.name}`}
+                                                        >
+                                                            <option value="">{UNCATEGORIZED.name}</option>
+                                                            {categories.map(c => (
+                                                                <option key={c.id} value={c.id}>{c.name}</option>
+                                                            ))}
+                                                        </select>
+                                                        <select
+                                                            value={bill.dueDateRule?.kind ?? ''}
+                                                            onChange={(e) => updateBillDueDateRule(bill.id, dueDateRuleChoices(bill).find(r => r.kind === e.target.value))}
+                                                            aria-label={`Due date adjustment for ${bill.name}`}
+                                                        >
+                                                            <option value="">Due as scheduled</option>
+                                                            {dueDateRuleChoices(bill).map(rule => (
+                                                                <option key={rule.kind} value={rule.kind}>{DateUtils.describeDueDateRule(rule)}</option>
+                                                            ))}
+                                                        </select>
+                                                        {(BillEstimates.needsEstimate(storedBill(bill)) || bill.estimate) && (
+                                                            <select
+                                                                value={bill.estimate?.method ?? DEFAULT_AMOUNT_ESTIMATE.method}
+                                                                onChange={(e) => updateBillEstimate(bill.id, {
+                                                                    ...DEFAULT_AMOUNT_ESTIMATE,
+                                                                    ...bill.estimate,
+                                                                    method: e.target.value as AmountEstimate['method'],
+                                                                })}
+                                                                aria-label={`Amount estimate for ${bill.name}`}
+                                                            >
+                                                                {Object.entries(ESTIMATE_METHOD_LABELS).map(([method, label]) => (
+                                                                    <option key={method} value={method}>Estimate: {label}</option>
+                                                                ))}
+                                                            </select>
+                                                        )}
+                                                        <select
+                                                            value={bill.autopay?.method ?? ''}
+                                                            onChange={(e) => updateBillAutopay(bill.id, e.target.value
+                                                                ? { amount: 'statement', ...bill.autopay, method: e.target.value }
+                                                                : undefined)}
+                                                            aria-label={`Autopay for ${bill.name}`}
+                                                        >
+                                                            <option value="">No autopay</option>
+                                                            {[...new Set([...paymentMethods, ...(bill.autopay ? [bill.autopay.method] : [])])].map(method => (
+                                                                <option key={method} value={method}>Autopay: {method}</option>
+                                                            ))}
+                                                        </select>
+                                                        {bill.autopay && (
+                                                            <select
+                                                                value={bill.autopay.amount}
+                                                                onChange={(e) => updateBillAutopay(bill.id, {
+                                                                    ...bill.autopay!,
+                                                                    amount: e.target.value as AutopayAmount,
+                                                                    // A fixed amount starts from the bill's own amount
+                                                                    fixedAmount: e.target.value === 'fixed'
+                                                                        ? bill.autopay!.fixedAmount ?? (storedBill(bill).amount || undefined)
+                                                                        : bill.autopay!.fixedAmount,
+                                                                })}
+                                                                aria-label={`Autopay amount for ${bill.name}`}
+                                                            >
+                                                                {Autopay.amountChoices(bill).map(amount => (
+                                                                    <option key={amount} value={amount}>{AUTOPAY_AMOUNT_LABELS[amount]}</option>
+                                                                ))}
+                                                            </select>
+                                                        )}
+                                                        {bill.autopay?.amount === 'fixed' && (
+                                                            <input
+                                                                type="number"
+                                                                step="0.01"
+                                                                min="0"
+                                                                defaultValue={bill.autopay.fixedAmount ?? ''}
+                                                                onBlur={(e) => updateBillAutopay(bill.id, {
+                                                                    ...bill.autopay!,
+                                                                    fixedAmount: CalculationEngine.parseAmount(e.target.value),
+                                                                })}
+                                                                aria-label={`Autopay fixed amount for ${bill.name}`}
+                                                                placeholder="Autopay amount"
+                                                            />
+                                                        )}
+                                                        <input
+                                                            type="text"
+                                                            placeholder="Tags, comma separated"
+                                                            defaultValue={BudgetCategories.formatTags(bill.tags)}
+                                                            onBlur={(e) => updateBillTags(bill.id, e.target.value)}
+                                                            onKeyDown={(e) => {
+                                                                if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                                                            }}
+                                                            aria-label={`Tags for ${bill.name}`}
+                                                        />
+                                                    </div>
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <span
+                                                        className="bill-name-text"
+                                                        title={bill.tags?.length ? `Tags: ${BudgetCategories.formatTags(bill.tags)}` : undefined}
+                                                    >
+                                                        {bill.categoryId && (
+                                                            <span
+                                                                className="bill-category-dot"
+                                                                style={{ background: BudgetCategories.resolve(categories, bill.categoryId).color }}
+                                                                title={BudgetCategories.resolve(categories, bill.categoryId).name}
+                                                            />
+                                                        )}
+                                                        {bill.name}
+                                                    </span>
                                                     {bill.isPaid && (
                                                         <div className="paid-stamp-area">
                                                             <span className="paid-rubber-stamp">PAID</span>
-                                                            <span className="paid-method-text">via {bill.paidMethod || 'Unknown'}</span>
+                                                            {Autopay.isAutoPaid(bill) && (
+                                                                <span className="autopay-badge" title="Paid automatically on the due date">Auto</span>
+                                                            )}
+                                                            <span className="paid-method-text" title={paymentsTitle(bill)}>via {paymentMethodsLabel(bill)}</span>
                                                         </div>
                                                     )}
+                                                    {PaymentUtils.isPartiallyPaid(bill) && (
+                                                        <span className="bill-partial-inline" title={paymentsTitle(bill)}>
+                                                            Partially paid · {CalculationEngine.formatCurrency(bill.paidAmount || 0)} via {paymentMethodsLabel(bill)}
+                                                        </span>
+                                                    )}
+                                                    {scheduleLabel(bill) && (
+                                                        <span className="bill-recurrence-inline">{scheduleLabel(bill)}</span>
+                                                    )}
+                                                    {bill.autopay && !bill.isPaid && (
+                                                        <span className="bill-recurrence-inline">{Autopay.describe(bill.autopay)}</span>
+                                                    )}
                                                     {bill.note && (
                                                         <span className="bill-note-inline">Note: {bill.note}</span>
                                                     )}
@@ -695,7 +1219,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                 <input
                                                     type="number"
                                                     className="edit-amount-input"
-                                                    value={bill.amount}
+                                                    value={storedBill(bill).amount}
                                                     onChange={(e) => updateBillAmount(bill.id, CalculationEngine.parseAmount(e.target.value))}
                                                     onClick={(e) => e.stopPropagation()}
                                                     step="0.01"
@@ -708,6 +1232,27 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                         <span className="partial-badge">(Partial)</span>
                                                     )}
                                                 </div>
+                                            ) : PaymentUtils.isPartiallyPaid(bill) ? (
+                                                <div className="paid-amount-group" title={paymentsTitle(bill)}>
+                                                    <span>{CalculationEngine.formatCurrency(bill.amount)}</span>
+                                                    <span className="partial-badge">{CalculationEngine.formatCurrency(PaymentUtils.remaining(bill))} left</span>
+                                                </div>
+                                            ) : monthEstimates.has(bill.id) ? (
+                                                <div className="estimate-amount-group">
+                                                    <span
+                                                        className="estimate-amount"
+                                                        title={`Estimated: ${BillEstimates.describe(monthEstimates.get(bill.id)!)}`}
+                                                    >
+                                                        ~{CalculationEngine.formatCurrency(bill.amount)}
+                                                        <span className="estimate-badge">Est.</span>
+                                                    </span>
+                                                    <button
+                                                        className="enter-amount-btn"
+                                                        onClick={() => setShowAmountInputFor(bill.id)}
+                                                    >
+                                                        Enter Bill Amount
+                                                    </button>
+                                                </div>
                                             ) : (
                                                 bill.amount === 0 && !bill.hasBalance ? (
                                                     <button
@@ -743,16 +1288,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
 
                                         {/* Col 6: Pay / Undo */}
                                         <div className="bill-actions">
-                                            {bill.isPaid ? (
+                                            {(bill.isPaid || PaymentUtils.isPartiallyPaid(bill)) && (
                                                 <button
                                                     className="undo-paid-btn"
-                                                    onClick={() => togglePaid(bill.id)}
-                                                    title="Undo Payment"
+                                                    onClick={() => undoPayment(bill.id)}
+                                                    title={Autopay.isAutoPaid(bill)
+                                                        ? 'Undo automatic payment — autopay skips this month'
+                                                        : (bill.payments?.length ?? 0) > 1 ? 'Undo Last Payment' : 'Undo Payment'}
                                                     aria-label={`Undo payment for ${bill.name}`}
                                                 >
                                                     Undo
                                                 </button>
-                                            ) : (
+                                            )}
+                                            {!bill.isPaid && (
                                                 <button
                                                     className="mark-paid-btn"
                                                     onClick={() => {
@@ -764,7 +1312,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                             setShowPaymentModal(bill.id);
                                                         }
                                                     }}
-                                                    title="Mark as paid"
+                                                    title={PaymentUtils.isPartiallyPaid(bill) ? 'Pay the rest' : 'Mark as paid'}
                                                     aria-label={`Mark ${bill.name} as paid`}
                                                 >
                                                     Pay
@@ -773,9 +1321,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                         </div>
                                     </div>
                                 ))}
-                                {allBills.length === 0 && (
+                                {filteredBills.length === 0 && (
                                     <div className="empty-state">
-                                        <p>No bills for this month</p>
+                                        <p>{billFilter && allBills.length > 0 ? 'No bills match this filter' : 'No bills for this month'}</p>
                                     </div>
                                 )}
                             </div>
@@ -800,13 +1348,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
 
                                 {creditCards.length > 0 && (
                                     <>
-                                        <div className="debt-section-label">Credit Cards</div>
+                                        <div className="debt-section-label">
+                                            Credit Cards
+                                            {utilization.percent !== null && (
+                                                <span className={`utilization-overall utilization-${utilization.level}`}>
+                                                    {utilization.percent}% used
+                                                </span>
+                                            )}
+                                            <button className="ca-options-btn ca-section-btn" onClick={() => setShowUtilization(true)}>Utilization</button>
+                                        </div>
                                         {creditCards.map((card) => {
                                             const balance = card.balance ?? 0;
                                             const isPaidOff = balance <= 0;
                                             const payoff = (!isPaidOff && card.monthlyPayment && card.monthlyPayment > 0)
-                                                ? CalculationEngine.calculatePayoff(balance, card.monthlyPayment, (card.interestRate || 0) / 100)
+                                                ? RateSchedule.projectPayoff(card)
                                                 : null;
+                                            const cardUtilization = utilization.cards.find(c => c.billId === card.id);
                                             return (
                                                 <div key={card.id} className={`ca-item-block ${isPaidOff ? 'paid-off' : 'active'}`}>
                                                     <div className="credit-accounts-row">
@@ -814,6 +1371,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                         <span className="ca-col-payment">{card.monthlyPayment ? CalculationEngine.formatCurrency(card.monthlyPayment) : '—'}</span>
                                                         <span className="ca-col-balance">{CalculationEngine.formatCurrency(balance)}</span>
                                                     </div>
+                                                    {cardUtilization && (
+                                                        <div className={`ca-utilization-row utilization-${cardUtilization.level}`}>
+                                                            <div className="utilization-bar">
+                                                                <span className="utilization-bar-fill" style={{ width: `${Math.min(100, cardUtilization.percent)}%` }} />
+                                                            </div>
+                                                            <span>{cardUtilization.percent}% of {CalculationEngine.formatCurrency(cardUtilization.limit)}</span>
+                                                        </div>
+                                                    )}
                                                     {payoff && (
                                                         <div className="ca-payoff-row">
                                                             {isFinite(payoff.monthsToPayoff) ? (() => {
@@ -826,12 +1391,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                             })() : (
                                                                 <span className="ca-payoff-text ca-payoff-warning">Payment too low to cover interest</span>
                                                             )}
+                                                            <button className="ca-options-btn" onClick={() => setShowLedgerFor(card.id)}>History</button>
                                                             <button className="ca-options-btn" onClick={() => setShowPayoffFor(card.id)}>Details</button>
                                                         </div>
                                                     )}
                                                     {isPaidOff && (
                                                         <div className="ca-payoff-row">
                                                             <span className="ca-payoff-text ca-paid-off-text">Paid Off</span>
+                                                            <button className="ca-options-btn" onClick={() => setShowLedgerFor(card.id)}>History</button>
                                                         </div>
                                                     )}
                                                 </div>
@@ -848,7 +1415,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                             const balance = debt.balance ?? 0;
                                             const isPaidOff = balance <= 0;
                                             const payoff = (!isPaidOff && debt.monthlyPayment && debt.monthlyPayment > 0)
-                                                ? CalculationEngine.calculatePayoff(balance, debt.monthlyPayment, (debt.interestRate || 0) / 100)
+                                                ? RateSchedule.projectPayoff(debt)
                                                 : null;
                                             return (
                                                 <div key={debt.id} className={`ca-item-block ${isPaidOff ? 'paid-off' : 'active'}`}>
@@ -869,6 +1436,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                                             })() : (
                                                                 <span className="ca-payoff-text ca-payoff-warning">Payment too low to cover interest</span>
                                                             )}
+                                                            {debt.loan && (
+                                                                <button className="ca-options-btn" onClick={() => setShowScheduleFor(debt.id)}>Schedule</button>
+                                                            )}
+                                                            <button className="ca-options-btn" onClick={() => setShowLedgerFor(debt.id)}>History</button>
                                                             <button className="ca-options-btn" onClick={() => setShowPayoffFor(debt.id)}>Details</button>
                                                         </div>
                                                     )}
@@ -883,6 +1454,74 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                     </>
                                 )}
                             </div>
+                            {debtPlanResult && (
+                                <div className="debt-plan-summary">
+                                    {isFinite(debtPlanResult.monthsToPayoff) ? (() => {
+                                        const info = formatPayoffInfo(debtPlanResult.monthsToPayoff);
+                                        return (
+                                            <span>
+                                                Debt-free: <strong>{info.estDate}</strong> — {CalculationEngine.formatCurrency(debtPlanResult.totalInterestPaid)} interest
+                                            </span>
+                                        );
+                                    })() : (
+                                        <span className="ca-payoff-warning">Debt budget too low to cover interest</span>
+                                    )}
+                                    <button className="ca-options-btn" onClick={() => setShowRefinance(true)}>Offers</button>
+                                    <button className="ca-options-btn" onClick={() => setShowWindfall(true)}>Windfall</button>
+                                    <button className="ca-options-btn" onClick={() => setShowDebtPlanner(true)}>Plan Payoff</button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {debtTimeline && (
+                        <div className="pane debt-timeline-pane glass-pane">
+                            <div className="pane-header">
+                                <h2>Debt-Free Timeline</h2>
+                            </div>
+                            <DebtTimelineChart timeline={debtTimeline} />
+                        </div>
+                    )}
+
+                    {categoryPlans.length > 0 && (
+                        <div className="pane category-targets-pane glass-pane">
+                            <div className="pane-header">
+                                <h2>Monthly Targets</h2>
+                            </div>
+                            <div className="category-targets-list">
+                                {categoryPlans.map(plan => (
+                                    <div key={plan.category.id} className={`category-target ${plan.isOver ? 'over' : ''}`}>
+                                        <div className="category-target-row">
+                                            <span className="bill-category-dot" style={{ background: plan.category.color }} />
+                                            <span className="category-target-name">{plan.category.name}</span>
+                                            <span className="category-target-amounts">
+                                                {CalculationEngine.formatCurrency(plan.actual)} / {CalculationEngine.formatCurrency(plan.planned)}
+                                            </span>
+                                        </div>
+                                        <div className="category-target-track">
+                                            <div
+                                                className="category-target-fill"
+                                                style={{
+                                                    width: `${Math.min(100, plan.planned > 0 ? (plan.actual / plan.planned) * 100 : 100)}%`,
+                                                    background: plan.isOver ? undefined : plan.category.color,
+                                                }}
+                                            />
+                                        </div>
+                                        <div className="category-target-meta">
+                                            <span>
+                                                {plan.isOver
+                                                    ? `${CalculationEngine.formatCurrency(-plan.remaining)} over`
+                                                    : `${CalculationEngine.formatCurrency(plan.remaining)} left`}
+                                            </span>
+                                            {plan.carriedIn > 0 && (
+                                                <span className="category-target-carry">
+                                                    incl. {CalculationEngine.formatCurrency(plan.carriedIn)} rolled over
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
                         </div>
                     )}
 
@@ -905,6 +1544,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                         >
                             Payment History
                         </button>
+                        {!isPastMode && (
+                            <button
+                                className="history-btn"
+                                onClick={() => setShowImportModal(true)}
+                            >
+                                Import Transactions
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -927,6 +1574,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                     <AmountInputModal
                         isOpen={!!showAmountInputFor}
                         billName={bills.find(b => b.id === showAmountInputFor)?.name || ''}
+                        estimate={monthEstimates.get(showAmountInputFor)}
                         onSave={(amount) => {
                             if (showAmountInputFor) {
                                 updateBillAmount(showAmountInputFor, amount);
@@ -954,6 +1602,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
             <AnimatePresence>
                 {showAddBillModal && (
                     <AddBillModal
+                        categories={categories}
+                        paymentMethods={paymentMethods}
                         onClose={() => setShowAddBillModal(false)}
                         onAdd={handleBillAdded}
                     />
@@ -965,16 +1615,92 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                 {showPayoffFor && bills.find(b => b.id === showPayoffFor) && (
                     <PayoffModal
                         bill={bills.find(b => b.id === showPayoffFor)!}
+                        onUpdate={changes => updateDebtTerms(showPayoffFor, changes)}
                         onClose={() => setShowPayoffFor(null)}
                     />
                 )}
             </AnimatePresence>
 
+            {/* Installment Loan Schedule */}
+            <AnimatePresence>
+                {(() => {
+                    const loanBill = bills.find(b => b.id === showScheduleFor);
+                    return loanBill?.loan && (
+                        <AmortizationModal
+                            bill={{ ...loanBill, loan: loanBill.loan }}
+                            history={history}
+                            onUpdate={changes => updateDebtTerms(loanBill.id, changes)}
+                            onClose={() => setShowScheduleFor(null)}
+                        />
+                    );
+                })()}
+            </AnimatePresence>
+
+            {/* Balance History */}
+            <AnimatePresence>
+                {showLedgerFor && bills.find(b => b.id === showLedgerFor) && (
+                    <BalanceHistoryModal
+                        bill={bills.find(b => b.id === showLedgerFor)!}
+                        entries={BalanceLedger.forBill(balanceLedger, showLedgerFor)}
+                        onRecord={(kind, newBalance, note) => recordBalanceChange(showLedgerFor, kind, newBalance, note)}
+                        onClose={() => setShowLedgerFor(null)}
+                    />
+                )}
+            </AnimatePresence>
+
+            {/* Credit Utilization */}
+            <AnimatePresence>
+                {showUtilization && (
+                    <UtilizationModal
+                        cards={creditCards}
+                        thresholds={utilizationThresholds}
+                        history={utilizationHistory}
+                        onLimitChange={(id, creditLimit) => updateDebtTerms(id, { creditLimit })}
+                        onThresholdsChange={thresholds => onUtilizationThresholdsChange?.(thresholds)}
+                        onClose={() => setShowUtilization(false)}
+                    />
+                )}
+            </AnimatePresence>
+
+            {/* Windfall What-If */}
+            <AnimatePresence>
+                {showWindfall && (
+                    <WindfallModal
+                        debts={[...creditCards, ...recurringDebt]}
+                        onApply={applyWindfall}
+                        onClose={() => setShowWindfall(false)}
+                    />
+                )}
+            </AnimatePresence>
+
+            {/* Balance Transfer / Refinance Comparison */}
+            <AnimatePresence>
+                {showRefinance && (
+                    <RefinanceModal
+                        debts={[...creditCards, ...recurringDebt]}
+                        onClose={() => setShowRefinance(false)}
+                    />
+                )}
+            </AnimatePresence>
+
+            {/* Debt Payoff Planner */}
+            <AnimatePresence>
+                {showDebtPlanner && (
+                    <DebtPlannerModal
+                        debts={plannerDebts}
+                        plan={debtPlan}
+                        onPlanChange={plan => onDebtPlanChange?.(plan)}
+                        onClose={() => setShowDebtPlanner(false)}
+                    />
+                )}
+            </AnimatePresence>
+
             {/* Payment Method Modal */}
             <AnimatePresence>
                 {showPaymentModal && (
                     <PaymentModal
-                        bill={bills.find(b => b.id === showPaymentModal)!}
+                        bill={monthBills.find(b => b.id === showPaymentModal) ?? bills.find(b => b.id === showPaymentModal)!}
+                        amountIsEstimate={monthEstimates.has(showPaymentModal)}
                         paymentMethods={paymentMethods}
                         onAddMethod={addPaymentMethod}
                         onPayment={(method, amount) => markBillPaid(showPaymentModal, method, amount)}
@@ -983,6 +1709,40 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                 )}
             </AnimatePresence>
 
+            {/* Printable Month Statement */}
+            <AnimatePresence>
+                {showMonthReport && (
+                    <MonthReport
+                        month={viewingMonth}
+                        bills={allBills}
+                        pastItems={isPastMode ? pastMonthHistory : undefined}
+                        totalDue={isPastMode ? 0 : totalDue}
+                        totalPaid={isPastMode
+                            ? CalculationEngine.roundCurrency(pastMonthHistory.reduce((sum, h) => sum + (h.paidAmount || h.amount || 0), 0))
+                            : totalPaidSpending}
+                        payInfos={payInfos}
+                        debts={[...creditCards, ...recurringDebt]}
+                        onClose={() => setShowMonthReport(false)}
+                    />
+                )}
+            </AnimatePresence>
+
+            {/* Import Transactions Modal */}
+            <AnimatePresence>
+                {showImportModal && (
+                    <ImportTransactionsModal
+                        bills={allBills.filter(b => !b.isPaid)}
+                        creditAccounts={creditCards}
+                        monthLabel={DateUtils.getMonthDisplay(viewingMonth)}
+                        presets={importPresets || []}
+                        paymentMethods={paymentMethods}
+                        onPresetsChange={(presets) => onImportPresetsChange?.(presets)}
+                        onApply={applyImportedPayments}
+                        onClose={() => setShowImportModal(false)}
+                    />
+                )}
+            </AnimatePresence>
+
             {/* Reset App Confirmation Modal */}
             <AnimatePresence>
                 {showResetModal && (
@@ -1008,7 +1768,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                             hasBalance: b.hasBalance,
                             balance: b.balance,
                             isRecurring: b.isRecurring,
+                            frequency: Recurrence.frequency(b),
+                            categoryId: b.categoryId,
+                            tags: b.tags,
                         }))}
+                        categories={categories}
                         onClose={() => setShowHistory(false)}
                     />
                 )}
@@ -1019,17 +1783,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                 {showSettingsModal && (
                     <SettingsModal
                         isOpen={showSettingsModal}
+                        initialTab={settingsTab}
                         onClose={() => setShowSettingsModal(false)}
                         paymentMethods={paymentMethods}
                         onPaymentMethodsChange={handlePaymentMethodsChange}
                         payInfos={payInfos}
                         onPayInfosChange={handlePayInfosChange}
+                        categories={categories}
+                        onCategoriesChange={onCategoriesChange}
+                        holidayCalendar={holidayCalendar}
+                        onHolidayCalendarChange={onHolidayCalendarChange}
                         onResetApp={onReset}
                         backups={(() => {
                             const result: Array<{ slot: number; timestamp: string; month: string }> = [];
                             for (const s of [1, 2]) {
                                 try {
-                                    const raw = localStorage.getItem(`honeycutt_backup_slot_${s}`);
+                                    const raw = localStorage.getItem(BudgetProfiles.backupSlotKey(activeProfileId, s));
                                     if (raw) {
                                         const parsed = JSON.parse(raw);
                                         result.push({ slot: s, timestamp: parsed.timestamp, month: parsed.month });
@@ -1048,17 +1817,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                             setBills(updated);
                             onDataChange(updated, history);
                             const merged = [...new Set([...paymentMethods, ...methods])];
-                            setPaymentMethods(merged);
-                            localStorage.setItem('payment_methods', JSON.stringify(merged));
+                            handlePaymentMethodsChange(merged);
                             setDevModeActive(true);
                             setDevTestBillIds(newBills.map(b => b.id));
                         }}
+                        exportSource={{ bills, paidHistory: history, activeMonth, categories, holidayCalendar }}
                         onRemoveTestBills={(testIds) => {
                             const updated = bills.filter(b => !testIds.includes(b.id));
                             setBills(updated);
                             onDataChange(updated, history);
-                            setPaymentMethods(preDevPaymentMethods);
-                            localStorage.setItem('payment_methods', JSON.stringify(preDevPaymentMethods));
+                            handlePaymentMethodsChange(preDevPaymentMethods);
                             setDevModeActive(false);
                             setDevTestBillIds([]);
                         }}
@@ -1077,8 +1845,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ initialBills, initialHisto
                                 const updated = bills.filter(b => !devTestBillIds.includes(b.id));
                                 setBills(updated);
                                 onDataChange(updated, history);
-                                setPaymentMethods(preDevPaymentMethods);
-                                localStorage.setItem('payment_methods', JSON.stringify(preDevPaymentMethods));
+                                handlePaymentMethodsChange(preDevPaymentMethods);
                                 setDevModeActive(false);
                                 setDevTestBillIds([]);
                             }}
@@ -1234,33 +2001,50 @@ const NoteModal: React.FC<NoteModalProps> = ({ billName, currentNote, onSave, on
 // Payoff Calculator Modal
 interface PayoffModalProps {
     bill: Bill;
+    onUpdate: (changes: Partial<Bill>) => void;
     onClose: () => void;
 }
 
-const PayoffModal: React.FC<PayoffModalProps> = ({ bill, onClose }) => {
-    if (!bill.hasBalance || !bill.balance) return null;
-
+const PayoffModal: React.FC<PayoffModalProps> = ({ bill, onUpdate, onClose }) => {
+    const balance = bill.balance ?? 0;
     const monthlyPayment = bill.monthlyPayment || 0;
     const interestRate = (bill.interestRate || 0) / 100;
+    const payoffOptions = useMemo(() => RateSchedule.payoffOptions(bill), [bill]);
 
-    // Warn if payment is 0? Or just show infinity?
-    // CalculationEngine handles 0 payment safely (returns 0 months or max months)
+    const current = RateSchedule.projectPayoff(bill);
+    const minimumOnly = useMemo(() => bill.isCreditAccount ? CardTerms.projectMinimumOnly(bill) : null, [bill]);
 
-    const comparison = CalculationEngine.calculatePayoffComparison(
-        bill.balance,
-        monthlyPayment,
-        interestRate
+    // Slider runs from the smallest payment that pays the debt off under its rate schedule up to paying everything off next month
+    const sliderMin = useMemo(
+        () => Math.ceil(CalculationEngine.minimumPayoffPayment(balance, interestRate, payoffOptions)),
+        [balance, interestRate, payoffOptions]
+    );
+    const sliderMax = Math.max(
+        sliderMin + 1,
+        Math.ceil(Math.min(
+            balance * (1 + interestRate / 12),
+            Math.max(monthlyPayment, sliderMin, balance * 0.02) * 3
+        ))
     );
 
-    // If payment is 0, define reasonable defaults for suggestions
-    const basePaymentForSuggestions = monthlyPayment > 0 ? monthlyPayment : (bill.balance * 0.02); // Default to 2% if 0
+    // If payment is 0, start from 2% of the balance
+    const [scenarioPayment, setScenarioPayment] = useState(() =>
+        Math.round(monthlyPayment > 0 ? monthlyPayment * 1.2 : balance * 0.02)
+    );
+    const [goalMonth, setGoalMonth] = useState(() => DateUtils.addMonthsToMonth(DateUtils.getCurrentMonth(), 12));
 
-    const slightlyMoreAmount = monthlyPayment > 0 ? monthlyPayment * 1.2 : basePaymentForSuggestions;
-    const aggressiveAmount = monthlyPayment > 0 ? monthlyPayment * 1.5 : basePaymentForSuggestions * 2;
+    const scenario = useMemo(
+        () => CalculationEngine.calculateScenario(balance, monthlyPayment, scenarioPayment, interestRate, payoffOptions),
+        [balance, monthlyPayment, scenarioPayment, interestRate, payoffOptions]
+    );
 
+    const goalMonths = goalMonth ? DateUtils.monthsBetween(DateUtils.getCurrentMonth(), goalMonth) : 0;
+    const goalPayment = useMemo(
+        () => CalculationEngine.solvePaymentForMonths(balance, goalMonths, interestRate, payoffOptions),
+        [balance, goalMonths, interestRate, payoffOptions]
+    );
 
-    const extraSlightly = slightlyMoreAmount - monthlyPayment;
-    const extraAggressive = aggressiveAmount - monthlyPayment;
+    if (!bill.hasBalance || !bill.balance) return null;
 
     const getFutureDate = (months: number) => {
         if (months === 0) return "this month";
@@ -1271,6 +2055,31 @@ const PayoffModal: React.FC<PayoffModalProps> = ({ bill, onClose }) => {
         return d.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
     };
 
+    const renderScenarioNarrative = () => {
+        const { projection, monthsSaved, interestSaved } = scenario;
+        if (!isFinite(projection.monthsToPayoff)) {
+            return <p>That payment doesn't cover the monthly interest, so the balance would never go down.</p>;
+        }
+        const difference = scenario.payment - monthlyPayment;
+        return (
+            <p>
+                Paying <span className="highlight-val">{CalculationEngine.formatCurrency(scenario.payment)}</span> a month
+                {difference !== 0 && <> ({CalculationEngine.formatCurrency(Math.abs(difference))} {difference > 0 ? 'more' : 'less'} than now)</>}
+                {' '}pays this off in <span className="highlight-val">{CalculationEngine.formatPayoffTime(projection.monthsToPayoff)}</span>,
+                by <span className="highlight-val">{getFutureDate(projection.monthsToPayoff)}</span>.
+                {!isFinite(current.monthsToPayoff) ? (
+                    <> Your current payment never pays it off.</>
+                ) : monthsSaved > 0 ? (
+                    <> That is <span className="highlight-val">{monthsSaved} month{monthsSaved !== 1 ? 's' : ''}</span> sooner
+                        and saves <span className="highlight-val">{CalculationEngine.formatCurrency(interestSaved)}</span> in interest.</>
+                ) : monthsSaved < 0 ? (
+                    <> That is {-monthsSaved} month{monthsSaved !== -1 ? 's' : ''} later
+                        and costs {CalculationEngine.formatCurrency(-interestSaved)} more in interest.</>
+                ) : null}
+            </p>
+        );
+    };
+
     return (
         <motion.div
             className="modal-overlay"
@@ -1303,56 +2112,133 @@ const PayoffModal: React.FC<PayoffModalProps> = ({ bill, onClose }) => {
                         </div>
                         <div className="stat-row">
                             <span className="label">Interest Rate</span>
-                            <span className="value">{bill.interestRate}%</span>
+                            <span className="value">{RateSchedule.describe(bill)}</span>
                         </div>
                         <div className="stat-row payoff-date-card">
                             <span className="label">Est. Payoff Date</span>
-                            <span className="value highlight-date">{getFutureDate(comparison.current.monthsToPayoff)}</span>
+                            <span className="value highlight-date">{getFutureDate(current.monthsToPayoff)}</span>
                         </div>
                         <div className="stat-row sub-stat">
                             <span className="label">Total Interest</span>
-                            <span className="value">{CalculationEngine.formatCurrency(comparison.current.totalInterestPaid)}</span>
+                            <span className="value">{CalculationEngine.formatCurrency(current.totalInterestPaid)}</span>
                         </div>
+
+                        {/* What paying only the statement minimum would cost */}
+                        {minimumOnly && (
+                            <div className="minimum-only-card">
+                                <span className="label">Minimum Payments Only</span>
+                                <div className="stat-row sub-stat">
+                                    <span className="label">Minimum Due Now</span>
+                                    <span className="value">{CalculationEngine.formatCurrency(CardTerms.minimumDue(bill))}</span>
+                                </div>
+                                <div className="stat-row sub-stat">
+                                    <span className="label">Paid Off In</span>
+                                    <span className="value">{CalculationEngine.formatPayoffTime(minimumOnly.monthsToPayoff)}</span>
+                                </div>
+                                <div className="stat-row sub-stat">
+                                    <span className="label">Total Interest</span>
+                                    <span className="value">
+                                        {isFinite(minimumOnly.totalInterestPaid) ? CalculationEngine.formatCurrency(minimumOnly.totalInterestPaid) : '—'}
+                                    </span>
+                                </div>
+                                {isFinite(minimumOnly.totalInterestPaid) && isFinite(current.totalInterestPaid)
+                                    && minimumOnly.totalInterestPaid > current.totalInterestPaid && (
+                                    <p className="minimum-only-note">
+                                        Paying only the minimum costs {CalculationEngine.formatCurrency(minimumOnly.totalInterestPaid - current.totalInterestPaid)} more
+                                        in interest than your {CalculationEngine.formatCurrency(monthlyPayment)} payment.
+                                    </p>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     {/* Scenarios */}
                     <div className="payoff-scenarios-container">
-                        <h4>Payment Strategies</h4>
+                        <h4>Payment Scenarios</h4>
 
-                        {/* Slightly More Strategy (+20%) */}
+                        {/* Any payment amount */}
                         <div className="strategy-card">
                             <div className="strategy-header">
-                                <span className="strategy-name">Slightly More (+20%)</span>
-                                <span className="strategy-amount">{CalculationEngine.formatCurrency(slightlyMoreAmount)}/mo</span>
+                                <span className="strategy-name">Try a Payment</span>
+                                <span className="strategy-amount">{CalculationEngine.formatCurrency(scenario.payment)}/mo</span>
+                            </div>
+                            <div className="scenario-inputs">
+                                <input
+                                    type="range"
+                                    className="scenario-slider"
+                                    min={sliderMin}
+                                    max={sliderMax}
+                                    step={1}
+                                    value={Math.min(Math.max(scenarioPayment, sliderMin), sliderMax)}
+                                    onChange={e => setScenarioPayment(Number(e.target.value))}
+                                    aria-label="Monthly payment"
+                                />
+                                <input
+                                    type="number"
+                                    className="scenario-amount-input"
+                                    min={0}
+                                    step="0.01"
+                                    value={scenarioPayment}
+                                    onChange={e => setScenarioPayment(CalculationEngine.parseAmount(e.target.value))}
+                                    aria-label="Monthly payment amount"
+                                />
                             </div>
                             <div className="strategy-narrative">
-                                <p>
-                                    If you choose to pay <span className="highlight-val">{CalculationEngine.formatCurrency(extraSlightly)}</span> more a month
-                                    (bringing your total to {CalculationEngine.formatCurrency(slightlyMoreAmount)}),
-                                    you will pay this off <span className="highlight-val">{comparison.current.monthsToPayoff - comparison.slightlyMore.monthsToPayoff} months</span> quicker.
-                                    You will be paid off completely by <span className="highlight-val">{getFutureDate(comparison.slightlyMore.monthsToPayoff)}</span>.
-                                </p>
+                                {renderScenarioNarrative()}
                             </div>
                         </div>
 
-                        {/* Aggressive Strategy (+50%) */}
+                        {/* Goal date → required payment */}
                         <div className="strategy-card aggressive">
                             <div className="strategy-header">
-                                <span className="strategy-name">Aggressive (1.5x)</span>
-                                <span className="strategy-amount">{CalculationEngine.formatCurrency(aggressiveAmount)}/mo</span>
+                                <span className="strategy-name">Pay Off By</span>
+                                {goalPayment !== null && (
+                                    <span className="strategy-amount">{CalculationEngine.formatCurrency(goalPayment)}/mo</span>
+                                )}
+                            </div>
+                            <div className="scenario-inputs">
+                                <input
+                                    type="month"
+                                    className="scenario-goal-input"
+                                    min={DateUtils.addMonthsToMonth(DateUtils.getCurrentMonth(), 1)}
+                                    value={goalMonth}
+                                    onChange={e => setGoalMonth(e.target.value)}
+                                    aria-label="Payoff goal month"
+                                />
                             </div>
                             <div className="strategy-narrative">
-                                <p>
-                                    If you choose to pay <span className="highlight-val">{CalculationEngine.formatCurrency(extraAggressive)}</span> more a month
-                                    (bringing your total to {CalculationEngine.formatCurrency(aggressiveAmount)}),
-                                    you will pay this off <span className="highlight-val">{comparison.current.monthsToPayoff - comparison.aggressive.monthsToPayoff} months</span> quicker.
-                                    You will be paid off completely by <span className="highlight-val">{getFutureDate(comparison.aggressive.monthsToPayoff)}</span>.
-                                </p>
+                                {goalPayment === null ? (
+                                    <p>Pick a month after this one.</p>
+                                ) : (
+                                    <p>
+                                        To be paid off by <span className="highlight-val">{DateUtils.getMonthDisplay(goalMonth)}</span>,
+                                        pay <span className="highlight-val">{CalculationEngine.formatCurrency(goalPayment)}</span> a month
+                                        {monthlyPayment > 0 && goalPayment > monthlyPayment && (
+                                            <> — {CalculationEngine.formatCurrency(goalPayment - monthlyPayment)} more than now</>
+                                        )}
+                                        {monthlyPayment > 0 && goalPayment <= monthlyPayment && (
+                                            <> — your current payment already gets you there</>
+                                        )}.
+                                    </p>
+                                )}
+                                {goalPayment !== null && goalPayment !== scenario.payment && (
+                                    <button className="ca-options-btn" onClick={() => setScenarioPayment(goalPayment)}>
+                                        Try This Payment
+                                    </button>
+                                )}
                             </div>
                         </div>
                     </div>
                 </div>
 
+                <DebtTermsEditor bill={bill} onUpdate={onUpdate} />
+
+                <RateScheduleEditor
+                    schedule={bill.rateSchedule || []}
+                    standardRate={bill.interestRate || 0}
+                    onChange={schedule => onUpdate({ rateSchedule: schedule.length > 0 ? schedule : undefined })}
+                />
+
                 <div className="modal-actions">
                     <button className="btn-primary" onClick={onClose}>
                         Close
@@ -1363,20 +2249,163 @@ const PayoffModal: React.FC<PayoffModalProps> = ({ bill, onClose }) => {
     );
 };
 
+// Interest method and (for credit cards) the minimum-payment formula
+interface DebtTermsEditorProps {
+    bill: Bill;
+    onUpdate: (changes: Partial<Bill>) => void;
+}
+
+const DebtTermsEditor: React.FC<DebtTermsEditorProps> = ({ bill, onUpdate }) => {
+    const formula = CardTerms.formula(bill);
+    const [percent, setPercent] = useState(String(formula.percentOfBalance));
+    const [floor, setFloor] = useState(String(formula.floor));
+
+    const saveFormula = (changes: Partial<MinimumPaymentFormula>) => {
+        onUpdate({ minimumPayment: { ...formula, ...changes } });
+    };
+
+    return (
+        <div className="rate-schedule debt-terms">
+            <h4>Interest &amp; Minimums</h4>
+            <div className="rate-schedule-form">
+                <label className="debt-terms-field">
+                    Interest
+                    <select
+                        value={bill.interestMethod || 'monthly'}
+                        onChange={e => onUpdate({ interestMethod: e.target.value === 'daily' ? 'daily' : undefined })}
+                    >
+                        <option value="monthly">Monthly (APR ÷ 12)</option>
+                        <option value="daily">Daily, average daily balance</option>
+                    </select>
+                </label>
+
+                {bill.isCreditAccount && (
+                    <>
+                        <label className="debt-terms-field">
+                            Minimum %
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={percent}
+                                onChange={e => setPercent(e.target.value)}
+                                onBlur={() => saveFormula({ percentOfBalance: CalculationEngine.parseAmount(percent) })}
+                            />
+                        </label>
+                        <label className="debt-terms-field debt-terms-check">
+                            <input
+                                type="checkbox"
+                                checked={formula.includeInterest}
+                                onChange={e => saveFormula({ includeInterest: e.target.checked })}
+                            />
+                            Plus interest
+                        </label>
+                        <label className="debt-terms-field">
+                            At least $
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={floor}
+                                onChange={e => setFloor(e.target.value)}
+                                onBlur={() => saveFormula({ floor: CalculationEngine.parseAmount(floor) })}
+                            />
+                        </label>
+                    </>
+                )}
+            </div>
+            {bill.isCreditAccount && (
+                <p className="rate-schedule-hint">Statement minimum: {CardTerms.describe(formula)}</p>
+            )}
+        </div>
+    );
+};
+
+// Promo and variable rates of a debt, edited inside the payoff calculator
+interface RateScheduleEditorProps {
+    schedule: RatePeriod[];
+    standardRate: number;
+    onChange: (schedule: RatePeriod[]) => void;
+}
+
+const RateScheduleEditor: React.FC<RateScheduleEditorProps> = ({ schedule, standardRate, onChange }) => {
+    const [rate, setRate] = useState('');
+    const [effectiveDate, setEffectiveDate] = useState(() => DateUtils.toLocalDateString(new Date()));
+    const [endDate, setEndDate] = useState('');
+    const [label, setLabel] = useState('');
+
+    const sorted = [...schedule].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+    const canAdd = rate.trim() !== '' && CalculationEngine.parseAmount(rate) >= 0 && effectiveDate !== ''
+        && (!endDate || endDate >= effectiveDate);
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        onChange([...schedule, {
+            id: crypto.randomUUID(),
+            effectiveDate,
+            rate: CalculationEngine.parseAmount(rate),
+            endDate: endDate || undefined,
+            label: label.trim() || undefined,
+        }]);
+        setRate('');
+        setEndDate('');
+        setLabel('');
+    };
+
+    return (
+        <div className="rate-schedule">
+            <h4>Rate Schedule</h4>
+            <p className="rate-schedule-hint">
+                Add intro, balance-transfer or variable rates. Outside these periods the standard {standardRate}% APR applies.
+            </p>
+
+            {sorted.map(period => (
+                <div key={period.id} className="rate-schedule-row">
+                    <span className="rate-schedule-rate">{period.rate}%</span>
+                    <span className="rate-schedule-dates">
+                        {DateUtils.parseLocalDate(period.effectiveDate).toLocaleDateString('en-US')}
+                        {' – '}
+                        {period.endDate ? DateUtils.parseLocalDate(period.endDate).toLocaleDateString('en-US') : 'ongoing'}
+                    </span>
+                    <span className="rate-schedule-label">{period.label}</span>
+                    <button
+                        className="rate-schedule-remove"
+                        onClick={() => onChange(schedule.filter(p => p.id !== period.id))}
+                        aria-label="Remove rate"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+
+            <div className="rate-schedule-form">
+                <input type="number" min="0" step="0.01" placeholder="APR %" value={rate} onChange={e => setRate(e.target.value)} aria-label="APR %" />
+                <input type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} aria-label="Starts" />
+                <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} aria-label="Promo ends (optional)" title="Promo ends (optional)" />
+                <input type="text" placeholder="Label (optional)" value={label} onChange={e => setLabel(e.target.value)} maxLength={40} />
+                <button className="ca-options-btn" onClick={handleAdd} disabled={!canAdd}>Add Rate</button>
+            </div>
+        </div>
+    );
+};
+
 // Payment Modal Component
 interface PaymentModalProps {
     bill: Bill;
+    amountIsEstimate?: boolean; // The amount is a guess from earlier payments, so paying more or less is expected
     paymentMethods: string[];
     onAddMethod: (method: string) => void;
     onPayment: (method: string, amount: number) => void;
     onClose: () => void;
 }
 
-const PaymentModal: React.FC<PaymentModalProps> = ({ bill, paymentMethods, onAddMethod, onPayment, onClose }) => {
+const PaymentModal: React.FC<PaymentModalProps> = ({ bill, amountIsEstimate, paymentMethods, onAddMethod, onPayment, onClose }) => {
     const [newMethod, setNewMethod] = useState('');
     const [selectedMethod, setSelectedMethod] = useState('');
     const [showAddMethod, setShowAddMethod] = useState(false);
-    const [amountToPay, setAmountToPay] = useState(bill.amount);
+    // Bills paid in parts default to what is left
+    const remaining = PaymentUtils.remaining(bill);
+    const [amountToPay, setAmountToPay] = useState(remaining);
     const [isEditingAmount, setIsEditingAmount] = useState(false);
 
     const amountInputRef = useRef<HTMLInputElement>(null);
@@ -1413,15 +2442,18 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ bill, paymentMethods, onAdd
     const handlePayment = () => {
         if (selectedMethod) {
             // Partial Payment Warning
-            if (amountToPay < bill.amount) {
+            if (amountIsEstimate) {
+                // Whatever is paid becomes the bill's amount
+            } else if (amountToPay < remaining) {
+                const left = CalculationEngine.formatCurrency(remaining - amountToPay);
                 const confirmed = window.confirm(
-                    "This is a partial payment. Would you like to proceed?"
+                    `This is a partial payment; ${left} will still be due. Would you like to proceed?`
                 );
                 if (!confirmed) return;
             }
             // Overpayment Warning
-            else if (amountToPay > bill.amount) {
-                const diff = amountToPay - bill.amount;
+            else if (amountToPay > remaining) {
+                const diff = amountToPay - remaining;
                 const formattedDiff = CalculationEngine.formatCurrency(diff);
                 const confirmed = window.confirm(
                     `This is a payment that is larger than your intended payment by ${formattedDiff}. Are you sure you want to pay this?`
@@ -1450,6 +2482,11 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ bill, paymentMethods, onAdd
             >
                 <div className="payment-modal-header">
                     <h3>Payment Method for <span className="highlight-text">{bill.name}</span></h3>
+                    {PaymentUtils.isPartiallyPaid(bill) && (
+                        <p className="payment-paid-so-far">
+                            {CalculationEngine.formatCurrency(bill.paidAmount || 0)} of {CalculationEngine.formatCurrency(bill.amount)} paid so far
+                        </p>
+                    )}
                     <div className="payment-amount-container">
                         {isEditingAmount ? (
                             <input
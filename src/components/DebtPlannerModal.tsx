@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { DebtPlanner, DEBT_PLAN_STRATEGIES, PlannerDebt } from '../core/DebtPlanner';
+import type { DebtPlan, DebtPlanStrategy } from '../types';
+import './DebtPlannerModal.css';
+
+interface DebtPlannerModalProps {
+    debts: PlannerDebt[];
+    plan: DebtPlan;
+    onPlanChange: (plan: DebtPlan) => void;
+    onClose: () => void;
+}
+
+/** "YYYY-MM" of the month a plan month ends in, counting from the current month */
+const planMonth = (month: number) => DateUtils.addMonthsToMonth(DateUtils.getCurrentMonth(), month);
+
+const formatPlanMonth = (month: number) => {
+    const parts = planMonth(month).split('-').map(Number);
+    return new Date(parts[0] ?? 0, (parts[1] ?? 1) - 1, 1)
+        .toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+export const DebtPlannerModal: React.FC<DebtPlannerModalProps> = ({ debts, plan, onPlanChange, onClose }) => {
+    const minimumBudget = DebtPlanner.minimumBudget(debts);
+    const [budgetInput, setBudgetInput] = useState(String(plan.monthlyBudget ?? minimumBudget));
+
+    const monthlyBudget = CalculationEngine.parseAmount(budgetInput);
+    const belowMinimums = monthlyBudget < minimumBudget;
+
+    const results = useMemo(
+        () => DebtPlanner.compare(debts, monthlyBudget, plan.customOrder),
+        [debts, monthlyBudget, plan.customOrder]
+    );
+    const selected = results[plan.strategy];
+    const customOrder = useMemo(
+        () => DebtPlanner.orderDebts(debts, 'custom', plan.customOrder),
+        [debts, plan.customOrder]
+    );
+
+    const bestInterest = Math.min(...DEBT_PLAN_STRATEGIES.map(s => results[s.id].totalInterestPaid));
+
+    const handleBudgetBlur = () => {
+        const amount = CalculationEngine.roundCurrency(monthlyBudget);
+        setBudgetInput(String(amount));
+        onPlanChange({ ...plan, monthlyBudget: amount });
+    };
+
+    const handleStrategyChange = (strategy: DebtPlanStrategy) => {
+        onPlanChange({ ...plan, strategy });
+    };
+
+    const moveDebt = (index: number, offset: number) => {
+        const ids = customOrder.map(d => d.id);
+        const target = index + offset;
+        if (target < 0 || target >= ids.length) return;
+        [ids[index], ids[target]] = [ids[target]!, ids[index]!];
+        onPlanChange({ ...plan, strategy: 'custom', customOrder: ids });
+    };
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane debt-planner-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="payoff-header">
+                    <h3>Debt Payoff Planner</h3>
+                </div>
+
+                <div className="planner-budget-row">
+                    <label htmlFor="planner-budget">Monthly Debt Budget</label>
+                    <input
+                        id="planner-budget"
+                        type="number"
+                        min="0"
+                        step="10"
+                        value={budgetInput}
+                        onChange={e => setBudgetInput(e.target.value)}
+                        onBlur={handleBudgetBlur}
+                    />
+                    <span className="planner-budget-hint">
+                        Minimums total {CalculationEngine.formatCurrency(minimumBudget)}
+                    </span>
+                </div>
+                {belowMinimums && (
+                    <div className="planner-warning">
+                        This is less than the minimum payments, so the plan uses {CalculationEngine.formatCurrency(minimumBudget)}.
+                    </div>
+                )}
+
+                <div className="planner-strategies">
+                    {DEBT_PLAN_STRATEGIES.map(({ id, label, description }) => {
+                        const result = results[id];
+                        const payable = isFinite(result.monthsToPayoff);
+                        return (
+                            <button
+                                key={id}
+                                className={`planner-strategy-card ${plan.strategy === id ? 'selected' : ''}`}
+                                onClick={() => handleStrategyChange(id)}
+                            >
+                                <span className="strategy-name">{label}</span>
+                                <span className="planner-strategy-desc">{description}</span>
+                                <span className="planner-strategy-date">
+                                    {payable ? `Debt-free ${formatPlanMonth(result.monthsToPayoff)}` : 'Never paid off'}
+                                </span>
+                                <span className="planner-strategy-stat">
+                                    {CalculationEngine.formatPayoffTime(result.monthsToPayoff)}
+                                </span>
+                                <span className="planner-strategy-stat">
+                                    Interest: {payable ? CalculationEngine.formatCurrency(result.totalInterestPaid) : '—'}
+                                    {payable && result.totalInterestPaid === bestInterest && (
+                                        <span className="planner-best-badge">Lowest</span>
+                                    )}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {plan.strategy === 'custom' && (
+                    <div className="planner-custom-order">
+                        <div className="planner-section-label">Payoff Order</div>
+                        {customOrder.map((debt, index) => (
+                            <div key={debt.id} className="planner-order-row">
+                                <span className="planner-order-rank">{index + 1}</span>
+                                <span className="planner-order-name">{debt.name}</span>
+                                <span className="planner-order-detail">
+                                    {CalculationEngine.formatCurrency(debt.balance)} · {CalculationEngine.roundCurrency(debt.annualRate * 100)}%
+                                </span>
+                                <button onClick={() => moveDebt(index, -1)} disabled={index === 0} aria-label={`Move ${debt.name} up`}>▲</button>
+                                <button onClick={() => moveDebt(index, 1)} disabled={index === customOrder.length - 1} aria-label={`Move ${debt.name} down`}>▼</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="planner-schedule">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Month</th>
+                                {selected.order.map(id => (
+                                    <th key={id}>{debts.find(d => d.id === id)?.name}</th>
+                                ))}
+                                <th>Remaining</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {selected.schedule.map(row => (
+                                <tr key={row.month}>
+                                    <td>{formatPlanMonth(row.month)}</td>
+                                    {selected.order.map(id => {
+                                        const entry = row.payments.find(p => p.id === id);
+                                        const paidOff = selected.payoffMonth[id] === row.month;
+                                        return (
+                                            <td key={id} className={paidOff ? 'planner-paid-off' : ''}>
+                                                {entry ? CalculationEngine.formatCurrency(entry.payment) : ''}
+                                                {paidOff && <span className="planner-paid-off-tag">Paid off</span>}
+                                            </td>
+                                        );
+                                    })}
+                                    <td>{CalculationEngine.formatCurrency(row.totalRemaining)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="modal-actions">
+                    <button className="btn-primary" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default DebtPlannerModal;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CalculationEngine } from '../core/CalculationEngine';
+import type { DebtTimeline } from '../core/DebtPlanner';
+import './DebtTimelineChart.css';
+
+interface DebtTimelineChartProps {
+    timeline: DebtTimeline;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 110;
+
+/** "Mar 2027" for a month counted from now, matching the overview's payoff estimates */
+const formatMonth = (monthsFromNow: number) => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth() + monthsFromNow)
+        .toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+export const DebtTimelineChart: React.FC<DebtTimelineChartProps> = ({ timeline }) => {
+    const { totals, milestones, debtFreeMonth } = timeline;
+    const lastMonth = Math.max(1, totals.length - 1);
+    const max = Math.max(1, ...totals);
+
+    const x = (month: number) => (month / lastMonth) * CHART_WIDTH;
+    const y = (total: number) => CHART_HEIGHT - (total / max) * CHART_HEIGHT;
+
+    const line = totals.map((total, month) => `${x(month).toFixed(1)},${y(total).toFixed(1)}`).join(' ');
+    const area = `0,${CHART_HEIGHT} ${line} ${CHART_WIDTH},${CHART_HEIGHT}`;
+    const finishes = isFinite(debtFreeMonth);
+
+    return (
+        <div className="debt-timeline">
+            <div className="debt-timeline-headline">
+                {finishes ? (
+                    <>Debt-free <strong>{formatMonth(debtFreeMonth)}</strong></>
+                ) : (
+                    <span className="ca-payoff-warning">Payments don't cover the interest — no debt-free date</span>
+                )}
+                <span className="debt-timeline-total">{CalculationEngine.formatCurrency(totals[0] ?? 0)} today</span>
+            </div>
+
+            <svg
+                className="debt-timeline-chart"
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                role="img"
+                aria-label="Total debt over time"
+            >
+                <polygon className="debt-timeline-area" points={area} />
+                <polyline className="debt-timeline-line" points={line} />
+                {milestones.map(m => (
+                    <line key={m.id} className="debt-timeline-marker" x1={x(m.month)} x2={x(m.month)} y1={0} y2={CHART_HEIGHT}>
+                        <title>{`${m.name} paid off ${formatMonth(m.month)}`}</title>
+                    </line>
+                ))}
+            </svg>
+            <div className="debt-timeline-axis">
+                <span>Now</span>
+                <span>{finishes ? formatMonth(debtFreeMonth) : formatMonth(lastMonth)}</span>
+            </div>
+
+            {milestones.length > 0 && (
+                <ol className="debt-timeline-milestones">
+                    {milestones.map(m => (
+                        <li key={m.id}>
+                            <span className="debt-timeline-name" title={m.name}>{m.name}</span>
+                            <span className="debt-timeline-date">{formatMonth(m.month)}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default DebtTimelineChart;
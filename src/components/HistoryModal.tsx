@@ -2,27 +2,19 @@ import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { CalculationEngine } from '../core/CalculationEngine';
 import { DateUtils } from '../core/DateUtils';
+import { BudgetCategories } from '../core/BudgetCategories';
+import { FREQUENCY_LABELS } from '../core/Recurrence';
+import type { BudgetCategory, HistoryItem } from '../types';
 import './HistoryModal.css';
 
-interface HistoryItem {
-    id: string;
-    name: string;
-    paidAmount: number;
-    paidDate?: string;
-    paidMethod?: string;
-    archivedDate?: string;
-    hasBalance?: boolean;
-    balance?: number;
-    isRecurring?: boolean;
-}
-
 interface HistoryModalProps {
     history: HistoryItem[];
     currentPaidBills?: HistoryItem[];
+    categories: BudgetCategory[];
     onClose: () => void;
 }
 
-export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaidBills = [], onClose }) => {
+export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaidBills = [], categories, onClose }) => {
     // Merge current paid bills into history for display
     const allHistory = useMemo(() => [...currentPaidBills, ...history], [history, currentPaidBills]);
 
@@ -75,21 +67,18 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaid
         [currentMonthHistory]
     );
 
-    // Bar graph data — totals per month (last 6 months)
-    const barData = useMemo(() => {
-        const monthTotals = new Map<string, number>();
-        allHistory.forEach(item => {
-            const dateStr = item.archivedDate || item.paidDate;
-            if (!dateStr) return;
-            const date = DateUtils.parseLocalDate(dateStr);
-            const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-            monthTotals.set(key, (monthTotals.get(key) || 0) + item.paidAmount);
-        });
-        const sorted = Array.from(monthTotals.entries()).sort((a, b) => a[0].localeCompare(b[0]));
-        return sorted.slice(-6); // last 6 months
-    }, [allHistory]);
+    // Bar graph data — per-category totals per month (last 6 months)
+    const barData = useMemo(
+        () => BudgetCategories.monthlyBreakdown(allHistory, categories).slice(-6),
+        [allHistory, categories]
+    );
 
-    const maxBarValue = useMemo(() => Math.max(...barData.map(d => d[1]), 1), [barData]);
+    const maxBarValue = useMemo(() => Math.max(...barData.map(d => d.total), 1), [barData]);
+
+    const categoryBreakdown = useMemo(
+        () => BudgetCategories.breakdown(currentMonthHistory, categories),
+        [currentMonthHistory, categories]
+    );
 
     const handlePrevMonth = () => {
         const idx = availableMonths.indexOf(selectedMonthKey);
@@ -117,9 +106,16 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaid
     };
 
     const getStatusText = (item: HistoryItem) => {
-        if (item.hasBalance) return "(Balance)";
-        if (item.isRecurring) return "(Recurring)";
-        return "";
+        // Bills paid in parts show which payment each item was
+        const part = item.parts ? `Payment ${item.part} of ${item.parts}` : '';
+        if (item.hasBalance) return part ? `(Balance · ${part})` : "(Balance)";
+        if (item.isRecurring) {
+            // Monthly bills and items archived before frequencies existed keep the plain label
+            const label = item.frequency && item.frequency !== 'monthly' ? FREQUENCY_LABELS[item.frequency] : 'Recurring';
+            const schedule = item.occurrences ? `${label} × ${item.occurrences}` : label;
+            return part ? `(${schedule} · ${part})` : `(${schedule})`;
+        }
+        return part ? `(${part})` : "";
     };
 
     return (
@@ -170,7 +166,7 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaid
                     <div className="history-bar-graph">
                         <div className="bar-graph-label">Monthly Spending</div>
                         <div className="bar-graph-container">
-                            {barData.map(([monthKey, total]) => (
+                            {barData.map(({ month: monthKey, total, segments }) => (
                                 <div
                                     key={monthKey}
                                     className={`bar-graph-item ${monthKey === selectedMonthKey ? 'bar-active' : ''}`}
@@ -181,11 +177,20 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaid
                                     <div className="bar-value">{CalculationEngine.formatCurrency(total)}</div>
                                     <div className="bar-track">
                                         <motion.div
-                                            className="bar-fill"
+                                            className="bar-fill bar-stack"
                                             initial={{ height: 0 }}
                                             animate={{ height: `${(total / maxBarValue) * 100}%` }}
                                             transition={{ duration: 0.5, ease: 'easeOut' }}
-                                        />
+                                        >
+                                            {segments.map(segment => (
+                                                <div
+                                                    key={segment.category.id}
+                                                    className="bar-segment"
+                                                    style={{ flexGrow: segment.amount, background: segment.category.color }}
+                                                    title={`${segment.category.name}: ${CalculationEngine.formatCurrency(segment.amount)}`}
+                                                />
+                                            ))}
+                                        </motion.div>
                                     </div>
                                     <div className="bar-label">{formatShortMonth(monthKey)}</div>
                                 </div>
@@ -194,6 +199,27 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaid
                     </div>
                 )}
 
+                {/* Category Breakdown */}
+                {categoryBreakdown.length > 0 && (
+                    <div className="history-category-breakdown">
+                        <div className="bar-graph-label">By Category</div>
+                        {categoryBreakdown.map(({ category, amount, share }) => (
+                            <div key={category.id} className="category-breakdown-row">
+                                <span className="category-swatch" style={{ background: category.color }} />
+                                <span className="category-breakdown-name">{category.name}</span>
+                                <div className="category-share-track">
+                                    <div
+                                        className="category-share-fill"
+                                        style={{ width: `${share * 100}%`, background: category.color }}
+                                    />
+                                </div>
+                                <span className="category-breakdown-share">{Math.round(share * 100)}%</span>
+                                <span className="category-breakdown-amount">{CalculationEngine.formatCurrency(amount)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 <div className="history-list-header">
                     <div className="col-date">Date</div>
                     <div className="col-name">Bill</div>
@@ -219,6 +245,9 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ history, currentPaid
                                     {getStatusText(item) && (
                                         <span className="history-status-note">{getStatusText(item)}</span>
                                     )}
+                                    {item.tags?.map(tag => (
+                                        <span key={tag} className="history-tag">{tag}</span>
+                                    ))}
                                 </div>
                                 <div className="col-method">{item.paidMethod || '—'}</div>
                                 <div className="col-amount">
@@ -0,0 +1,504 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { OfxParser } from '../core/OfxParser';
+import { TransactionImport } from '../core/TransactionImport';
+import { TransactionMatcher } from '../core/TransactionMatcher';
+import type { Bill, CsvColumnMapping, CsvImportPreset, ImportedTransaction } from '../types';
+import './ImportTransactionsModal.css';
+
+export interface ImportedPayment {
+    billId: string;
+    transaction: ImportedTransaction;
+    method: string;
+    /** True when the user picked the bill by hand, so its description should be learned */
+    manual: boolean;
+}
+
+export interface ImportedBalance {
+    billId: string;
+    accountId: string; // OFX account the balance came from, remembered on the bill
+    balance: number;
+}
+
+interface ImportTransactionsModalProps {
+    bills: Bill[]; // Unpaid bills of the month being viewed
+    creditAccounts: Bill[]; // Bills flagged isCreditAccount, whose balance a statement can update
+    monthLabel: string;
+    presets: CsvImportPreset[];
+    paymentMethods: string[];
+    onPresetsChange: (presets: CsvImportPreset[]) => void;
+    onApply: (payments: ImportedPayment[], balances: ImportedBalance[]) => void;
+    onClose: () => void;
+}
+
+interface ReviewRow {
+    transaction: ImportedTransaction;
+    proposedBillId: string;
+    billId: string;
+    selected: boolean;
+}
+
+interface BalanceRow {
+    accountId: string;
+    balance: number;
+    balanceDate?: string;
+    billId: string;
+    selected: boolean;
+}
+
+type Step = 'file' | 'mapping' | 'review';
+
+const maskAccount = (accountId: string) => accountId ? `••${accountId.slice(-4)}` : 'Unknown account';
+
+export const ImportTransactionsModal: React.FC<ImportTransactionsModalProps> = ({
+    bills,
+    creditAccounts,
+    monthLabel,
+    presets,
+    paymentMethods,
+    onPresetsChange,
+    onApply,
+    onClose
+}) => {
+    const [step, setStep] = useState<Step>('file');
+    const [fileName, setFileName] = useState('');
+    const [source, setSource] = useState<'csv' | 'ofx'>('csv');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [ofxTransactions, setOfxTransactions] = useState<ImportedTransaction[]>([]);
+    const [balanceRows, setBalanceRows] = useState<BalanceRow[]>([]);
+    const [presetId, setPresetId] = useState<string>(presets[0]?.id ?? '');
+    const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+    const [presetName, setPresetName] = useState('');
+    const [method, setMethod] = useState<string>(presets[0]?.name ?? paymentMethods[0] ?? '');
+    const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+    const [error, setError] = useState('');
+
+    const handleFile = async (file: File) => {
+        setError('');
+        let text: string;
+        try {
+            text = await file.text();
+        } catch (e) {
+            console.error('Failed to read import file:', e);
+            setError('The file could not be read.');
+            return;
+        }
+
+        if (/\.(ofx|qfx)$/i.test(file.name) || OfxParser.looksLikeOfx(text)) {
+            handleOfx(file.name, text);
+            return;
+        }
+
+        try {
+            const parsed = TransactionImport.parseCsv(text);
+            if (parsed.length === 0) {
+                setError('That file has no rows.');
+                return;
+            }
+            const preset = presets.find(p => p.id === presetId);
+            setFileName(file.name);
+            setSource('csv');
+            setRows(parsed);
+            setMapping(preset ? preset.mapping : TransactionImport.detectMapping(parsed));
+            setStep('mapping');
+        } catch (e) {
+            console.error('Failed to read CSV:', e);
+            setError('The file could not be read as CSV.');
+        }
+    };
+
+    // OFX carries its own column semantics, so it skips the mapping step
+    const handleOfx = (name: string, text: string) => {
+        let statements;
+        try {
+            statements = OfxParser.parse(text);
+        } catch (e) {
+            console.error('Failed to read OFX:', e);
+            setError('The file could not be read as OFX/QFX.');
+            return;
+        }
+
+        const imported = statements.flatMap(s => s.transactions);
+        const balances: BalanceRow[] = statements
+            .filter(s => s.accountType === 'creditcard')
+            .flatMap(s => {
+                const balance = OfxParser.amountOwed(s);
+                if (balance === null) return [];
+                const billId = creditAccounts.find(b => b.statementAccountId === s.accountId)?.id ?? '';
+                return [{ accountId: s.accountId, balance, balanceDate: s.balanceDate, billId, selected: !!billId }];
+            });
+
+        if (imported.length === 0 && balances.length === 0) {
+            setError('No statements were found in that file.');
+            return;
+        }
+
+        setFileName(name);
+        setSource('ofx');
+        setOfxTransactions(imported);
+        setBalanceRows(balances);
+        setMapping(null);
+        runMatch(imported);
+    };
+
+    const handlePresetChange = (id: string) => {
+        setPresetId(id);
+        const preset = presets.find(p => p.id === id);
+        if (preset) {
+            setMapping(preset.mapping);
+            setMethod(preset.name);
+        }
+    };
+
+    const handleSavePreset = () => {
+        if (!mapping || !presetName.trim()) return;
+        const name = presetName.trim();
+        const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+        const preset: CsvImportPreset = { id: existing?.id ?? crypto.randomUUID(), name, mapping };
+        onPresetsChange(existing
+            ? presets.map(p => p.id === existing.id ? preset : p)
+            : [...presets, preset]);
+        setPresetId(preset.id);
+        setPresetName('');
+        if (!method) setMethod(name);
+    };
+
+    const transactions = useMemo(
+        () => source === 'ofx'
+            ? ofxTransactions
+            : mapping ? TransactionImport.readCsvTransactions(rows, mapping) : [],
+        [source, ofxTransactions, rows, mapping]
+    );
+
+    const columnOptions = useMemo(() => {
+        const width = Math.max(0, ...rows.slice(0, 5).map(r => r.length));
+        const header = mapping?.hasHeader ? rows[0] : undefined;
+        return Array.from({ length: width }, (_, i) => ({
+            value: i,
+            label: header?.[i]?.trim() || `Column ${i + 1}`,
+        }));
+    }, [rows, mapping?.hasHeader]);
+
+    const runMatch = (imported: ImportedTransaction[]) => {
+        const { matches, unmatched } = TransactionMatcher.match(imported, bills);
+        setReviewRows([
+            ...matches.map(m => ({ transaction: m.transaction, proposedBillId: m.billId, billId: m.billId, selected: true })),
+            ...unmatched.map(t => ({ transaction: t, proposedBillId: '', billId: '', selected: false })),
+        ]);
+        setStep('review');
+    };
+
+    const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+        setReviewRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+    };
+
+    const updateBalanceRow = (index: number, changes: Partial<BalanceRow>) => {
+        setBalanceRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+    };
+
+    const selectedRows = reviewRows.filter(r => r.selected && r.billId);
+    const selectedBalances = balanceRows.filter(r => r.selected && r.billId);
+
+    // Several transactions can pay one bill in parts, but an account takes one statement balance
+    const duplicateBalanceBillIds = useMemo(() => {
+        const seen = new Set<string>();
+        const dupes = new Set<string>();
+        for (const row of selectedBalances) {
+            if (seen.has(row.billId)) dupes.add(row.billId);
+            seen.add(row.billId);
+        }
+        return dupes;
+    }, [selectedBalances]);
+
+    const needsMethod = selectedRows.length > 0 && !method.trim();
+    const canApply = (selectedRows.length > 0 || selectedBalances.length > 0)
+        && !needsMethod
+        && duplicateBalanceBillIds.size === 0;
+
+    const handleApply = () => {
+        if (!canApply) return;
+        onApply(
+            selectedRows.map(r => ({
+                billId: r.billId,
+                transaction: r.transaction,
+                method: method.trim(),
+                manual: r.billId !== r.proposedBillId,
+            })),
+            selectedBalances.map(r => ({
+                billId: r.billId,
+                accountId: r.accountId,
+                balance: r.balance,
+            }))
+        );
+    };
+
+    const applyLabel = selectedRows.length === 0 && selectedBalances.length > 0
+        ? `Update ${selectedBalances.length} Balance${selectedBalances.length !== 1 ? 's' : ''}`
+        : `Record ${selectedRows.length} Payment${selectedRows.length !== 1 ? 's' : ''}`;
+
+    const setMappingField = <K extends keyof CsvColumnMapping>(key: K, value: CsvColumnMapping[K]) => {
+        setMapping(prev => prev ? { ...prev, [key]: value } : prev);
+    };
+
+    const formatDate = (date: string) => DateUtils.parseLocalDate(date).toLocaleDateString('en-US', {
+        month: '2-digit',
+        day: '2-digit',
+        year: 'numeric'
+    });
+
+    const matchedRows = reviewRows.map((row, index) => ({ row, index })).filter(({ row }) => row.proposedBillId);
+    const unmatchedRows = reviewRows.map((row, index) => ({ row, index })).filter(({ row }) => !row.proposedBillId);
+
+    const renderReviewRow = ({ row, index }: { row: ReviewRow; index: number }) => (
+        <div key={row.transaction.id} className={`import-review-row ${row.selected ? 'selected' : ''}`}>
+            <input
+                type="checkbox"
+                checked={row.selected}
+                disabled={!row.billId}
+                onChange={(e) => updateRow(index, { selected: e.target.checked })}
+                aria-label={`Apply ${row.transaction.description}`}
+            />
+            <div className="import-review-date">{formatDate(row.transaction.date)}</div>
+            <div className="import-review-desc" title={row.transaction.description}>{row.transaction.description || '—'}</div>
+            <div className="import-review-amount">{CalculationEngine.formatCurrency(row.transaction.amount)}</div>
+            <select
+                className="import-review-bill"
+                value={row.billId}
+                onChange={(e) => updateRow(index, { billId: e.target.value, selected: !!e.target.value })}
+            >
+                <option value="">— Not a bill —</option>
+                {bills.map(b => (
+                    <option key={b.id} value={b.id}>
+                        {b.name} ({CalculationEngine.formatCurrency(b.amount)})
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane import-modal-content"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="import-header">
+                    <h3>Import Transactions</h3>
+                    <p className="import-subtitle">
+                        Match a bank or credit card export against your {monthLabel} bills
+                    </p>
+                </div>
+
+                {step === 'file' && (
+                    <div className="import-body">
+                        {presets.length > 0 && (
+                            <div className="import-field">
+                                <label>Bank Preset</label>
+                                <select value={presetId} onChange={(e) => handlePresetChange(e.target.value)}>
+                                    <option value="">Detect columns automatically</option>
+                                    {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <label className="import-file-drop">
+                            <input
+                                type="file"
+                                accept=".csv,.ofx,.qfx,text/csv"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleFile(file);
+                                }}
+                            />
+                            <span>Choose a CSV, OFX or QFX file…</span>
+                        </label>
+                        {error && <p className="import-error">{error}</p>}
+                    </div>
+                )}
+
+                {step === 'mapping' && mapping && (
+                    <div className="import-body">
+                        <div className="import-file-name">{fileName} — {transactions.length} transactions read</div>
+
+                        <div className="import-mapping-grid">
+                            <div className="import-field">
+                                <label>Date Column</label>
+                                <select value={mapping.dateColumn} onChange={(e) => setMappingField('dateColumn', Number(e.target.value))}>
+                                    {columnOptions.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                </select>
+                            </div>
+                            <div className="import-field">
+                                <label>Description Column</label>
+                                <select value={mapping.descriptionColumn} onChange={(e) => setMappingField('descriptionColumn', Number(e.target.value))}>
+                                    {columnOptions.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                </select>
+                            </div>
+                            <div className="import-field">
+                                <label>Amount Column</label>
+                                <select value={mapping.amountColumn} onChange={(e) => setMappingField('amountColumn', Number(e.target.value))}>
+                                    {columnOptions.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                </select>
+                            </div>
+                            <div className="import-field">
+                                <label>Date Format</label>
+                                <select value={mapping.dateFormat} onChange={(e) => setMappingField('dateFormat', e.target.value as CsvColumnMapping['dateFormat'])}>
+                                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        <label className="import-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={mapping.hasHeader}
+                                onChange={(e) => setMappingField('hasHeader', e.target.checked)}
+                            />
+                            First row is a header
+                        </label>
+                        <label className="import-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={mapping.paymentsAreNegative}
+                                onChange={(e) => setMappingField('paymentsAreNegative', e.target.checked)}
+                            />
+                            Payments are shown as negative amounts
+                        </label>
+
+                        <div className="import-preview">
+                            {transactions.slice(0, 5).map(t => (
+                                <div key={t.id} className="import-preview-row">
+                                    <span>{formatDate(t.date)}</span>
+                                    <span className="import-review-desc">{t.description}</span>
+                                    <span className={t.amount > 0 ? 'import-outflow' : 'import-inflow'}>
+                                        {CalculationEngine.formatCurrency(t.amount)}
+                                    </span>
+                                </div>
+                            ))}
+                            {transactions.length === 0 && <div className="import-empty">No rows match this mapping</div>}
+                        </div>
+
+                        <div className="import-preset-save">
+                            <input
+                                type="text"
+                                value={presetName}
+                                onChange={(e) => setPresetName(e.target.value)}
+                                placeholder="Save mapping as preset (e.g. Chase Checking)"
+                                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                            />
+                            <button className="btn-secondary" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                                Save Preset
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'review' && (
+                    <div className="import-body">
+                        <div className="import-field">
+                            <label>Paid From</label>
+                            <input
+                                type="text"
+                                list="import-payment-methods"
+                                value={method}
+                                onChange={(e) => setMethod(e.target.value)}
+                                placeholder="Payment method (e.g. Chase Checking)"
+                            />
+                            <datalist id="import-payment-methods">
+                                {paymentMethods.map(m => <option key={m} value={m} />)}
+                                {presets.map(p => <option key={p.id} value={p.name} />)}
+                            </datalist>
+                        </div>
+
+                        <div className="import-section-label">Proposed Matches ({matchedRows.length})</div>
+                        <div className="import-review-list">
+                            {matchedRows.length > 0
+                                ? matchedRows.map(renderReviewRow)
+                                : <div className="import-empty">No transactions matched your unpaid bills</div>}
+                        </div>
+
+                        <div className="import-section-label">Unmatched Payments ({unmatchedRows.length})</div>
+                        <div className="import-review-list">
+                            {unmatchedRows.length > 0
+                                ? unmatchedRows.map(renderReviewRow)
+                                : <div className="import-empty">Every payment was matched</div>}
+                        </div>
+
+                        {balanceRows.length > 0 && (
+                            <>
+                                <div className="import-section-label">Statement Balances ({balanceRows.length})</div>
+                                <div className="import-review-list">
+                                    {balanceRows.map((row, index) => (
+                                        <div key={row.accountId || index} className={`import-review-row import-balance-row ${row.selected ? 'selected' : ''}`}>
+                                            <input
+                                                type="checkbox"
+                                                checked={row.selected}
+                                                disabled={!row.billId}
+                                                onChange={(e) => updateBalanceRow(index, { selected: e.target.checked })}
+                                                aria-label={`Update balance from ${maskAccount(row.accountId)}`}
+                                            />
+                                            <div className="import-review-date">{row.balanceDate ? formatDate(row.balanceDate) : '—'}</div>
+                                            <div className="import-review-desc">Card {maskAccount(row.accountId)}</div>
+                                            <div className="import-review-amount">{CalculationEngine.formatCurrency(row.balance)}</div>
+                                            <select
+                                                className={`import-review-bill ${duplicateBalanceBillIds.has(row.billId) && row.selected ? 'has-conflict' : ''}`}
+                                                value={row.billId}
+                                                onChange={(e) => updateBalanceRow(index, { billId: e.target.value, selected: !!e.target.value })}
+                                            >
+                                                <option value="">— Don't update —</option>
+                                                {creditAccounts.map(b => (
+                                                    <option key={b.id} value={b.id}>
+                                                        {b.name} (now {CalculationEngine.formatCurrency(b.balance || 0)})
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+
+                        {duplicateBalanceBillIds.size > 0 && (
+                            <p className="import-error">Each credit account can only take one statement balance.</p>
+                        )}
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    <button className="btn-secondary" onClick={onClose}>
+                        Cancel
+                    </button>
+                    {step === 'mapping' && (
+                        <>
+                            <button className="btn-secondary" onClick={() => setStep('file')}>Back</button>
+                            <button className="btn-primary" onClick={() => runMatch(transactions)} disabled={transactions.length === 0}>
+                                Match to Bills
+                            </button>
+                        </>
+                    )}
+                    {step === 'review' && (
+                        <>
+                            <button className="btn-secondary" onClick={() => setStep(source === 'ofx' ? 'file' : 'mapping')}>Back</button>
+                            <button className="btn-primary" onClick={handleApply} disabled={!canApply}>
+                                {applyLabel}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default ImportTransactionsModal;
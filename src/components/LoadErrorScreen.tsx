@@ -0,0 +1,75 @@
+import React from 'react';
+import { DateUtils } from '../core/DateUtils';
+import type { ValidationIssue } from '../core/BudgetSchema';
+import './LoadErrorScreen.css';
+
+interface LoadErrorScreenProps {
+    profileName: string;
+    message: string;
+    issues: ValidationIssue[];
+    backups: Array<{ slot: number; timestamp: string; month: string }>;
+    onRestoreBackup: (slot: number) => void;
+    onRetry: () => void;
+    onStartFresh: () => void;
+}
+
+/**
+ * Shown when a budget's saved document can't be loaded. Nothing is written over it
+ * until the user restores a backup or chooses to start fresh.
+ */
+export const LoadErrorScreen: React.FC<LoadErrorScreenProps> = ({
+    profileName,
+    message,
+    issues,
+    backups,
+    onRestoreBackup,
+    onRetry,
+    onStartFresh
+}) => {
+    return (
+        <div className="load-error-screen" role="alert">
+            <div className="load-error-card glass-pane">
+                <h2>"{profileName}" could not be loaded</h2>
+                <p className="load-error-message">{message}</p>
+                <p className="load-error-note">
+                    Your saved data has been left as it is. Restore a backup, fix the file and try again,
+                    or start fresh.
+                </p>
+
+                {issues.length > 0 && (
+                    <ul className="load-error-issues">
+                        {issues.map((issue, i) => (
+                            <li key={i}>
+                                <code>{issue.path || 'document'}</code> {issue.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {backups.length > 0 && (
+                    <div className="load-error-backups">
+                        <h4>Month-end backups</h4>
+                        {backups.map(backup => (
+                            <button
+                                key={backup.slot}
+                                className="btn-secondary"
+                                onClick={() => onRestoreBackup(backup.slot)}
+                            >
+                                Restore {DateUtils.getMonthDisplay(backup.month)} (saved {DateUtils.formatDate(backup.timestamp.slice(0, 10))})
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="load-error-actions">
+                    <button className="btn-secondary" onClick={onStartFresh}>
+                        Start Fresh
+                    </button>
+                    <button className="btn-primary" onClick={onRetry}>
+                        Try Again
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { PaymentUtils } from '../core/PaymentUtils';
+import { RateSchedule } from '../core/RateSchedule';
+import type { Bill, HistoryItem, PayInfo } from '../types';
+import './MonthReport.css';
+
+interface MonthReportProps {
+    month: string; // YYYY-MM
+    bills: Bill[]; // Bills of the month, with recurring bills projected into it
+    pastItems?: HistoryItem[]; // Archived payments, for months before the active one
+    totalDue: number;
+    totalPaid: number;
+    payInfos: PayInfo[];
+    debts: Bill[];
+    onClose: () => void;
+}
+
+interface ReportLine {
+    id: string;
+    name: string;
+    dueDate?: string;
+    amount: number;
+    isPaid: boolean;
+    paidAmount?: number;
+    paidMethod?: string;
+    paidDate?: string;
+}
+
+const FREQUENCY_LABELS: Record<PayInfo['frequency'], string> = {
+    weekly: 'Weekly',
+    biweekly: 'Every 2 Weeks',
+    semimonthly: '1st & 15th',
+    monthly: 'Monthly',
+};
+
+/** Bills paid in parts are archived once per payment; the report shows them as one line */
+const combineParts = (items: HistoryItem[]): HistoryItem[] => {
+    const combined: HistoryItem[] = [];
+    const byMonth = new Map<string, HistoryItem>();
+    for (const item of items) {
+        const key = `${item.id}|${item.originalDueDate}`;
+        const first = item.parts ? byMonth.get(key) : undefined;
+        if (!first) {
+            const copy = { ...item };
+            combined.push(copy);
+            if (item.parts) byMonth.set(key, copy);
+            continue;
+        }
+        first.paidAmount = CalculationEngine.roundCurrency(first.paidAmount + item.paidAmount);
+        if (item.paidMethod && !first.paidMethod?.split(' & ').includes(item.paidMethod)) {
+            first.paidMethod = first.paidMethod ? `${first.paidMethod} & ${item.paidMethod}` : item.paidMethod;
+        }
+        if ((item.paidDate ?? '') > (first.paidDate ?? '')) first.paidDate = item.paidDate;
+    }
+    return combined;
+};
+
+const formatShortDate = (date?: string) => date
+    ? DateUtils.parseLocalDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    : '—';
+
+export const MonthReport: React.FC<MonthReportProps> = ({
+    month,
+    bills,
+    pastItems,
+    totalDue,
+    totalPaid,
+    payInfos,
+    debts,
+    onClose
+}) => {
+    const [status, setStatus] = useState('');
+    const canSavePdf = !!window.electronAPI?.report;
+
+    const lines = useMemo<ReportLine[]>(() => pastItems
+        ? combineParts(pastItems).map(item => ({
+            id: item.id,
+            name: item.name,
+            dueDate: item.originalDueDate,
+            amount: item.amount ?? item.paidAmount,
+            isPaid: true,
+            paidAmount: item.paidAmount,
+            paidMethod: item.paidMethod,
+            paidDate: item.paidDate,
+        }))
+        : bills.map(bill => ({
+            id: bill.id,
+            name: bill.name,
+            dueDate: bill.dueDate,
+            amount: bill.amount,
+            isPaid: bill.isPaid,
+            paidAmount: PaymentUtils.amountPaid(bill) > 0 ? PaymentUtils.amountPaid(bill) : undefined,
+            paidMethod: bill.paidMethod,
+            paidDate: bill.paidDate,
+        })),
+        [bills, pastItems]
+    );
+
+    const totalBilled = CalculationEngine.roundCurrency(lines.reduce((sum, l) => sum + l.amount, 0));
+    const paidCount = lines.filter(l => l.isPaid).length;
+
+    const payDates = useMemo(() => payInfos.map(pi => ({
+        ...pi,
+        dates: DateUtils.getPayDatesInMonth(pi.lastPayDate, pi.frequency, month),
+    })), [payInfos, month]);
+
+    const debtRows = useMemo(() => debts.map(debt => {
+        const balance = debt.balance ?? 0;
+        const payoff = debt.monthlyPayment && balance > 0
+            ? RateSchedule.projectPayoff(debt)
+            : null;
+        let estimate = '—';
+        if (payoff && isFinite(payoff.monthsToPayoff)) {
+            const now = new Date();
+            estimate = new Date(now.getFullYear(), now.getMonth() + payoff.monthsToPayoff)
+                .toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+        }
+        return { debt, balance, payoff, estimate };
+    }), [debts]);
+
+    const totalDebt = CalculationEngine.roundCurrency(debtRows.reduce((sum, r) => sum + r.balance, 0));
+
+    const handleSavePdf = async () => {
+        if (!window.electronAPI?.report) return;
+        setStatus('');
+        try {
+            const saved = await window.electronAPI.report.savePdf(`honeycutt-statement-${month}.pdf`);
+            if (saved) setStatus('PDF saved');
+        } catch (error) {
+            console.error('Failed to save PDF:', error);
+            setStatus('The PDF could not be saved.');
+        }
+    };
+
+    // Portaled to <body> so the print stylesheet can hide the app behind it
+    return createPortal(
+        <motion.div
+            className="modal-overlay month-report-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="month-report-sheet"
+                initial={{ scale: 0.97 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.97 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="month-report-actions">
+                    {status && <span className="month-report-status">{status}</span>}
+                    <button className="btn-secondary" onClick={onClose}>Close</button>
+                    <button className="btn-secondary" onClick={() => window.print()}>Print</button>
+                    {canSavePdf && (
+                        <button className="btn-primary" onClick={handleSavePdf}>Save as PDF</button>
+                    )}
+                </div>
+
+                <article className="month-report-page">
+                    <header className="report-header">
+                        <div>
+                            <div className="report-kicker">Honeycutt Budget Planner</div>
+                            <h1>{DateUtils.getMonthDisplay(month)} Statement</h1>
+                        </div>
+                        <div className="report-generated">Generated {DateUtils.getCurrentDateDisplay()}</div>
+                    </header>
+
+                    <section className="report-summary">
+                        <div className="report-stat">
+                            <span className="report-stat-label">Total Bills</span>
+                            <span className="report-stat-value">{CalculationEngine.formatCurrency(totalBilled)}</span>
+                        </div>
+                        <div className="report-stat">
+                            <span className="report-stat-label">Paid</span>
+                            <span className="report-stat-value">{CalculationEngine.formatCurrency(totalPaid)}</span>
+                        </div>
+                        <div className="report-stat">
+                            <span className="report-stat-label">Still Due</span>
+                            <span className="report-stat-value">{CalculationEngine.formatCurrency(totalDue)}</span>
+                        </div>
+                        <div className="report-stat">
+                            <span className="report-stat-label">Bills Paid</span>
+                            <span className="report-stat-value">{paidCount} of {lines.length}</span>
+                        </div>
+                    </section>
+
+                    {payDates.length > 0 && (
+                        <section className="report-section">
+                            <h2>Pay Dates</h2>
+                            <table className="report-table">
+                                <thead>
+                                    <tr><th>Income</th><th>Schedule</th><th>Paydays This Month</th></tr>
+                                </thead>
+                                <tbody>
+                                    {payDates.map(pi => (
+                                        <tr key={pi.id}>
+                                            <td>{pi.name}</td>
+                                            <td>{FREQUENCY_LABELS[pi.frequency]}</td>
+                                            <td>{pi.dates.length > 0 ? pi.dates.map(formatShortDate).join(', ') : '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </section>
+                    )}
+
+                    <section className="report-section">
+                        <h2>Bills</h2>
+                        {lines.length === 0 ? (
+                            <p className="report-empty">No bills recorded for this month</p>
+                        ) : (
+                            <table className="report-table">
+                                <thead>
+                                    <tr>
+                                        <th>Due</th>
+                                        <th>Bill</th>
+                                        <th className="num">Amount</th>
+                                        <th>Status</th>
+                                        <th className="num">Paid</th>
+                                        <th>Method</th>
+                                        <th>Paid On</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {lines.map(line => (
+                                        <tr key={line.id} className={line.isPaid ? '' : 'unpaid'}>
+                                            <td>{formatShortDate(line.dueDate)}</td>
+                                            <td>{line.name}</td>
+                                            <td className="num">{CalculationEngine.formatCurrency(line.amount)}</td>
+                                            <td>{line.isPaid ? 'Paid' : line.paidAmount !== undefined ? 'Partial' : 'Unpaid'}</td>
+                                            <td className="num">{line.paidAmount !== undefined ? CalculationEngine.formatCurrency(line.paidAmount) : '—'}</td>
+                                            <td>{line.paidMethod || '—'}</td>
+                                            <td>{line.paidAmount !== undefined ? formatShortDate(line.paidDate) : '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot>
+                                    <tr>
+                                        <td colSpan={2}>Total</td>
+                                        <td className="num">{CalculationEngine.formatCurrency(totalBilled)}</td>
+                                        <td />
+                                        <td className="num">{CalculationEngine.formatCurrency(totalPaid)}</td>
+                                        <td colSpan={2} />
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        )}
+                    </section>
+
+                    {debtRows.length > 0 && (
+                        <section className="report-section">
+                            <h2>Debt Summary</h2>
+                            <table className="report-table">
+                                <thead>
+                                    <tr>
+                                        <th>Account</th>
+                                        <th className="num">Balance</th>
+                                        <th className="num">Payment</th>
+                                        <th className="num">APR</th>
+                                        <th>Time to Payoff</th>
+                                        <th>Est. Payoff</th>
+                                        <th className="num">Interest to Go</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {debtRows.map(({ debt, balance, payoff, estimate }) => (
+                                        <tr key={debt.id}>
+                                            <td>{debt.name}{debt.isCreditAccount ? ' (card)' : ''}</td>
+                                            <td className="num">{CalculationEngine.formatCurrency(balance)}</td>
+                                            <td className="num">{debt.monthlyPayment ? CalculationEngine.formatCurrency(debt.monthlyPayment) : '—'}</td>
+                                            <td className="num">{debt.interestRate ? `${debt.interestRate}%` : '—'}</td>
+                                            <td>{payoff ? CalculationEngine.formatPayoffTime(payoff.monthsToPayoff) : balance > 0 ? 'No payment set' : 'Paid off'}</td>
+                                            <td>{estimate}</td>
+                                            <td className="num">
+                                                {payoff && isFinite(payoff.monthsToPayoff) ? CalculationEngine.formatCurrency(payoff.totalInterestPaid) : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot>
+                                    <tr>
+                                        <td>Total</td>
+                                        <td className="num">{CalculationEngine.formatCurrency(totalDebt)}</td>
+                                        <td colSpan={5} />
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </section>
+                    )}
+                </article>
+            </motion.div>
+        </motion.div>,
+        document.body
+    );
+};
+
+export default MonthReport;
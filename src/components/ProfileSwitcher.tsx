@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ConfirmationModal } from './ConfirmationModal';
+import type { BudgetProfile } from '../types';
+import './ProfileSwitcher.css';
+
+interface ProfileSwitcherProps {
+    profiles: BudgetProfile[];
+    activeProfileId: string;
+    onSwitch: (profileId: string) => void;
+    onCreate: (name: string) => void;
+    onRename: (profileId: string, name: string) => void;
+    onDuplicate: (profileId: string) => void;
+    onDelete: (profileId: string) => void;
+}
+
+type NamePrompt = { mode: 'create' } | { mode: 'rename'; profile: BudgetProfile };
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+    profiles,
+    activeProfileId,
+    onSwitch,
+    onCreate,
+    onRename,
+    onDuplicate,
+    onDelete
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [namePrompt, setNamePrompt] = useState<NamePrompt | null>(null);
+    const [profileToDelete, setProfileToDelete] = useState<BudgetProfile | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+    // Close the menu on any click outside it
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const openPrompt = (prompt: NamePrompt) => {
+        setIsOpen(false);
+        setNamePrompt(prompt);
+    };
+
+    const handleNameSave = (name: string) => {
+        if (!namePrompt) return;
+        if (namePrompt.mode === 'create') {
+            onCreate(name);
+        } else {
+            onRename(namePrompt.profile.id, name);
+        }
+        setNamePrompt(null);
+    };
+
+    return (
+        <div className="profile-switcher" ref={containerRef}>
+            <button
+                className="header-action-btn profile-switcher-btn"
+                onClick={() => setIsOpen(!isOpen)}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                title="Switch budget"
+            >
+                <span className="profile-switcher-name">{activeProfile?.name ?? 'Budget'}</span>
+                <span className="profile-switcher-caret">▾</span>
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        className="profile-menu glass-pane"
+                        role="menu"
+                        initial={{ opacity: 0, y: -4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -4 }}
+                    >
+                        <div className="profile-menu-label">Budgets</div>
+                        {profiles.map(profile => (
+                            <button
+                                key={profile.id}
+                                role="menuitemradio"
+                                aria-checked={profile.id === activeProfileId}
+                                className={`profile-menu-item ${profile.id === activeProfileId ? 'active' : ''}`}
+                                onClick={() => {
+                                    setIsOpen(false);
+                                    if (profile.id !== activeProfileId) onSwitch(profile.id);
+                                }}
+                            >
+                                {profile.name}
+                            </button>
+                        ))}
+
+                        <div className="profile-menu-divider" />
+                        <button role="menuitem" className="profile-menu-item" onClick={() => openPrompt({ mode: 'create' })}>
+                            New Budget…
+                        </button>
+                        {activeProfile && (
+                            <>
+                                <button
+                                    role="menuitem"
+                                    className="profile-menu-item"
+                                    onClick={() => openPrompt({ mode: 'rename', profile: activeProfile })}
+                                >
+                                    Rename “{activeProfile.name}”…
+                                </button>
+                                <button
+                                    role="menuitem"
+                                    className="profile-menu-item"
+                                    onClick={() => {
+                                        setIsOpen(false);
+                                        onDuplicate(activeProfile.id);
+                                    }}
+                                >
+                                    Duplicate
+                                </button>
+                                <button
+                                    role="menuitem"
+                                    className="profile-menu-item danger"
+                                    disabled={profiles.length <= 1}
+                                    title={profiles.length <= 1 ? 'The only budget cannot be deleted' : undefined}
+                                    onClick={() => {
+                                        setIsOpen(false);
+                                        setProfileToDelete(activeProfile);
+                                    }}
+                                >
+                                    Delete…
+                                </button>
+                            </>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {namePrompt && (
+                    <ProfileNameModal
+                        title={namePrompt.mode === 'create' ? 'New Budget' : 'Rename Budget'}
+                        initialName={namePrompt.mode === 'rename' ? namePrompt.profile.name : ''}
+                        saveLabel={namePrompt.mode === 'create' ? 'Create' : 'Save'}
+                        takenNames={profiles
+                            .filter(p => namePrompt.mode === 'create' || p.id !== namePrompt.profile.id)
+                            .map(p => p.name)}
+                        onSave={handleNameSave}
+                        onClose={() => setNamePrompt(null)}
+                    />
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {profileToDelete && (
+                    <ConfirmationModal
+                        isOpen={!!profileToDelete}
+                        title="Delete Budget"
+                        message={`Delete "${profileToDelete.name}" with all of its bills, history, pay schedules and backups? This action cannot be undone.`}
+                        confirmLabel="Delete"
+                        isDestructive={true}
+                        onConfirm={() => {
+                            onDelete(profileToDelete.id);
+                            setProfileToDelete(null);
+                        }}
+                        onCancel={() => setProfileToDelete(null)}
+                    />
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+// Name prompt shared by New Budget and Rename
+interface ProfileNameModalProps {
+    title: string;
+    initialName: string;
+    saveLabel: string;
+    takenNames: string[];
+    onSave: (name: string) => void;
+    onClose: () => void;
+}
+
+const ProfileNameModal: React.FC<ProfileNameModalProps> = ({ title, initialName, saveLabel, takenNames, onSave, onClose }) => {
+    const [name, setName] = useState(initialName);
+
+    const trimmed = name.trim();
+    const isTaken = takenNames.some(n => n.toLowerCase() === trimmed.toLowerCase());
+    const canSave = trimmed.length > 0 && !isTaken;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (canSave) onSave(trimmed);
+    };
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.form
+                className="modal-content glass-pane profile-name-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={e => e.stopPropagation()}
+                onSubmit={handleSubmit}
+            >
+                <h3>{title}</h3>
+
+                <div className="profile-form-group">
+                    <label htmlFor="profile-name-input">Name</label>
+                    <input
+                        id="profile-name-input"
+                        type="text"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        placeholder="e.g., Household, Rental Property"
+                        maxLength={60}
+                        autoFocus
+                    />
+                    {isTaken && <span className="profile-form-error">A budget with this name already exists</span>}
+                </div>
+
+                <div className="modal-actions">
+                    <button type="button" className="btn-secondary" onClick={onClose}>Cancel</button>
+                    <button type="submit" className="btn-primary" disabled={!canSave}>
+                        {saveLabel}
+                    </button>
+                </div>
+            </motion.form>
+        </motion.div>
+    );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { RefinanceOffers, RefinanceOffer, RefinancePlan } from '../core/RefinanceOffers';
+import type { Bill } from '../types';
+import './RefinanceModal.css';
+
+interface RefinanceModalProps {
+    debts: Bill[];
+    onClose: () => void;
+}
+
+type OfferKind = RefinanceOffer['kind'];
+
+const formatPayoffDate = (months: number) => isFinite(months)
+    ? DateUtils.getMonthDisplay(DateUtils.addMonthsToMonth(DateUtils.getCurrentMonth(), months))
+    : 'Never';
+
+const formatCost = (amount: number) => isFinite(amount) ? CalculationEngine.formatCurrency(amount) : '—';
+
+export const RefinanceModal: React.FC<RefinanceModalProps> = ({ debts, onClose }) => {
+    const eligible = useMemo(() => RefinanceOffers.eligible(debts), [debts]);
+    // Offers usually target card balances; fall back to every debt when there are none
+    const [selectedIds, setSelectedIds] = useState<string[]>(() => {
+        const cards = eligible.filter(d => d.isCreditAccount);
+        return (cards.length > 0 ? cards : eligible).map(d => d.id);
+    });
+    const [kind, setKind] = useState<OfferKind>('transfer');
+    const [inputs, setInputs] = useState({
+        feePercent: '3',
+        promoRate: '0',
+        promoMonths: '18',
+        rateAfter: '',
+        monthlyPayment: '',
+        loanRate: '',
+        termMonths: '36',
+    });
+
+    const selected = eligible.filter(d => selectedIds.includes(d.id));
+    const currentPayment = CalculationEngine.roundCurrency(selected.reduce((sum, d) => sum + (d.monthlyPayment || 0), 0));
+    const value = (field: keyof typeof inputs) => CalculationEngine.parseAmount(inputs[field]);
+
+    const offer: RefinanceOffer = kind === 'transfer'
+        ? {
+            kind,
+            feePercent: value('feePercent'),
+            promoRate: value('promoRate'),
+            promoMonths: Math.round(value('promoMonths')),
+            rateAfter: value('rateAfter'),
+            // Defaults to what the debts are paid now, so only the terms differ
+            monthlyPayment: inputs.monthlyPayment !== '' ? value('monthlyPayment') : currentPayment,
+        }
+        : {
+            kind,
+            feePercent: value('feePercent'),
+            rate: value('loanRate'),
+            termMonths: Math.max(1, Math.round(value('termMonths'))),
+        };
+
+    const comparison = selected.length > 0 ? RefinanceOffers.compare(selected, offer) : null;
+
+    const setInput = (field: keyof typeof inputs) => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setInputs(prev => ({ ...prev, [field]: e.target.value }));
+
+    const toggleDebt = (id: string) => setSelectedIds(prev =>
+        prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]
+    );
+
+    const rows: Array<{ label: string; format: (plan: RefinancePlan) => string }> = [
+        { label: 'Monthly Payment', format: p => CalculationEngine.formatCurrency(p.monthlyPayment) },
+        { label: 'Debt-Free', format: p => formatPayoffDate(p.monthsToPayoff) },
+        { label: 'Time to Payoff', format: p => CalculationEngine.formatPayoffTime(p.monthsToPayoff) },
+        { label: 'Interest', format: p => formatCost(p.totalInterest) },
+        { label: 'Fees', format: p => CalculationEngine.formatCurrency(p.fees) },
+        { label: 'Total Cost', format: p => formatCost(p.totalCost) },
+    ];
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane refinance-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="payoff-header">
+                    <h3>Compare an Offer</h3>
+                </div>
+
+                <div className="refinance-section-label">Debts to Move</div>
+                <div className="refinance-debts">
+                    {eligible.map(debt => (
+                        <label key={debt.id} className="checkbox-wrapper refinance-debt">
+                            <input type="checkbox" checked={selectedIds.includes(debt.id)} onChange={() => toggleDebt(debt.id)} />
+                            <span>{debt.name}</span>
+                            <span className="refinance-debt-detail">
+                                {CalculationEngine.formatCurrency(debt.balance ?? 0)} · {debt.interestRate || 0}%
+                            </span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="refinance-kind">
+                    <button className={kind === 'transfer' ? 'selected' : ''} onClick={() => setKind('transfer')}>Balance Transfer</button>
+                    <button className={kind === 'loan' ? 'selected' : ''} onClick={() => setKind('loan')}>Consolidation Loan</button>
+                </div>
+
+                <div className="refinance-fields">
+                    <label>
+                        <span>{kind === 'transfer' ? 'Transfer Fee %' : 'Origination Fee %'}</span>
+                        <input type="number" min="0" step="0.1" value={inputs.feePercent} onChange={setInput('feePercent')} />
+                    </label>
+                    {kind === 'transfer' ? (
+                        <>
+                            <label>
+                                <span>Promo APR %</span>
+                                <input type="number" min="0" step="0.01" value={inputs.promoRate} onChange={setInput('promoRate')} />
+                            </label>
+                            <label>
+                                <span>Promo Months</span>
+                                <input type="number" min="0" step="1" value={inputs.promoMonths} onChange={setInput('promoMonths')} />
+                            </label>
+                            <label>
+                                <span>APR After Promo %</span>
+                                <input type="number" min="0" step="0.01" value={inputs.rateAfter} onChange={setInput('rateAfter')} placeholder="e.g. 24.99" />
+                            </label>
+                            <label>
+                                <span>Monthly Payment</span>
+                                <input type="number" min="0" step="10" value={inputs.monthlyPayment} onChange={setInput('monthlyPayment')} placeholder={String(currentPayment)} />
+                            </label>
+                        </>
+                    ) : (
+                        <>
+                            <label>
+                                <span>Loan APR %</span>
+                                <input type="number" min="0" step="0.01" value={inputs.loanRate} onChange={setInput('loanRate')} placeholder="e.g. 11.5" />
+                            </label>
+                            <label>
+                                <span>Term (Months)</span>
+                                <input type="number" min="1" step="1" value={inputs.termMonths} onChange={setInput('termMonths')} />
+                            </label>
+                        </>
+                    )}
+                </div>
+
+                {comparison ? (
+                    <>
+                        <table className="refinance-table">
+                            <thead>
+                                <tr>
+                                    <th></th>
+                                    <th>Current Plan</th>
+                                    <th>{kind === 'transfer' ? 'Balance Transfer' : 'Consolidation Loan'}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.label}>
+                                        <td>{row.label}</td>
+                                        <td>{row.format(comparison.current)}</td>
+                                        <td>{row.format(comparison.offer)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className={`refinance-verdict ${comparison.savings > 0 ? 'refinance-better' : 'refinance-worse'}`}>
+                            {isNaN(comparison.savings)
+                                ? (isFinite(comparison.offer.totalCost)
+                                    ? 'The current payments never clear these balances — the offer does.'
+                                    : 'The offer\'s payment never clears the balance.')
+                                : comparison.savings > 0
+                                    ? `The offer saves ${CalculationEngine.formatCurrency(comparison.savings)} on ${CalculationEngine.formatCurrency(comparison.balance)}.`
+                                    : `The offer costs ${CalculationEngine.formatCurrency(-comparison.savings)} more than the current plan.`}
+                        </div>
+                        {comparison.balanceAfterPromo !== undefined && comparison.balanceAfterPromo > 0 && (
+                            <div className="refinance-note">
+                                {CalculationEngine.formatCurrency(comparison.balanceAfterPromo)} will still be owed when the promo APR ends.
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <div className="refinance-note">Pick at least one debt to compare.</div>
+                )}
+
+                <div className="modal-actions">
+                    <button className="btn-primary" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default RefinanceModal;
@@ -2,8 +2,11 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ConfirmationModal } from './ConfirmationModal';
 import { PayInfo } from './PayInfoHeader';
-import { Bill } from '@/types';
-import { DateUtils } from '@/core/DateUtils';
+import { Bill, BudgetCategory, HolidayCalendar } from '@/types';
+import { DateUtils, DEFAULT_HOLIDAY_CALENDAR } from '@/core/DateUtils';
+import { BudgetCategories } from '@/core/BudgetCategories';
+import { CalculationEngine } from '@/core/CalculationEngine';
+import { BudgetExport, EXPORT_DATASET_LABELS, ExportDataset, ExportFile, ExportFormat, ExportSource } from '@/core/BudgetExport';
 import './SettingsModal.css';
 
 interface SettingsModalProps {
@@ -13,14 +16,36 @@ interface SettingsModalProps {
     onPaymentMethodsChange: (methods: string[]) => void;
     payInfos: PayInfo[];
     onPayInfosChange: (payInfos: PayInfo[]) => void;
+    categories?: BudgetCategory[];
+    onCategoriesChange?: (categories: BudgetCategory[]) => void;
+    holidayCalendar?: HolidayCalendar;
+    onHolidayCalendarChange?: (calendar: HolidayCalendar) => void;
     onResetApp: () => void;
     backups?: Array<{ slot: number; timestamp: string; month: string }>;
     onLoadBackup?: (slot: number) => void;
     onPopulateTestData?: (bills: Bill[], methods: string[]) => void;
     onRemoveTestBills?: (billIds: string[]) => void;
+    exportSource?: ExportSource;
+    initialTab?: SettingsTab;
 }
 
-type TabType = 'reset' | 'payment-methods' | 'pay-schedule' | 'backups' | 'development';
+export type SettingsTab = 'reset' | 'payment-methods' | 'pay-schedule' | 'categories' | 'holidays' | 'backups' | 'export' | 'development';
+
+type ExportPeriod = 'all' | 'month' | 'range';
+
+/** Hand the file to Electron's save dialog, or download it in the web build */
+async function saveExportFile(file: ExportFile): Promise<boolean> {
+    if (window.electronAPI?.budget?.exportReport) {
+        return window.electronAPI.budget.exportReport(file);
+    }
+    const url = URL.createObjectURL(new Blob([file.content as BlobPart], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return true;
+}
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
     isOpen,
@@ -29,17 +54,26 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     onPaymentMethodsChange,
     payInfos,
     onPayInfosChange,
+    categories = [],
+    onCategoriesChange,
+    holidayCalendar = DEFAULT_HOLIDAY_CALENDAR,
+    onHolidayCalendarChange,
     onResetApp,
     backups,
     onLoadBackup,
     onPopulateTestData,
-    onRemoveTestBills
+    onRemoveTestBills,
+    exportSource,
+    initialTab
 }) => {
-    const [activeTab, setActiveTab] = useState<TabType>('payment-methods');
+    const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab ?? 'payment-methods');
     const [showResetConfirm, setShowResetConfirm] = useState(false);
     const [methodToDelete, setMethodToDelete] = useState<string | null>(null);
     const [payInfoToDelete, setPayInfoToDelete] = useState<string | null>(null);
     const [editingPayInfo, setEditingPayInfo] = useState<PayInfo | null>(null);
+    const [newCategoryName, setNewCategoryName] = useState('');
+    const [newHoliday, setNewHoliday] = useState({ name: '', date: '', yearly: true });
+    const [categoryToDelete, setCategoryToDelete] = useState<BudgetCategory | null>(null);
 
     // Development tab state
     const [devPasscode, setDevPasscode] = useState('');
@@ -49,6 +83,15 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     const [showExitDevOptions, setShowExitDevOptions] = useState(false);
     const [backupToLoad, setBackupToLoad] = useState<number | null>(null);
 
+    // Export tab state
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+    const [exportDatasets, setExportDatasets] = useState<ExportDataset[]>(['history', 'bills', 'debts']);
+    const [exportPeriod, setExportPeriod] = useState<ExportPeriod>('all');
+    const [exportMonth, setExportMonth] = useState(exportSource?.activeMonth ?? DateUtils.getCurrentMonth());
+    const [exportFrom, setExportFrom] = useState('');
+    const [exportTo, setExportTo] = useState('');
+    const [exportStatus, setExportStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
     if (!isOpen) return null;
 
     const handleResetConfirm = () => {
@@ -91,6 +134,56 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         setEditingPayInfo(null);
     };
 
+    const isCategoryNameTaken = (name: string, exceptId?: string) =>
+        categories.some(c => c.id !== exceptId && c.name.toLowerCase() === name.trim().toLowerCase());
+
+    const handleAddCategory = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newCategoryName.trim();
+        if (!name || isCategoryNameTaken(name)) return;
+        onCategoriesChange?.([...categories, BudgetCategories.createCategory(name, categories)]);
+        setNewCategoryName('');
+    };
+
+    const handleUpdateCategory = (id: string, changes: Partial<Omit<BudgetCategory, 'id'>>) => {
+        if (changes.name !== undefined && (!changes.name.trim() || isCategoryNameTaken(changes.name, id))) return;
+        onCategoriesChange?.(categories.map(c => c.id === id
+            ? { ...c, ...changes, name: (changes.name ?? c.name).trim() }
+            : c));
+    };
+
+    const confirmDeleteCategory = () => {
+        if (categoryToDelete) {
+            onCategoriesChange?.(categories.filter(c => c.id !== categoryToDelete.id));
+            setCategoryToDelete(null);
+        }
+    };
+
+    const holidayYear = new Date().getFullYear();
+    const skippedFederal = holidayCalendar.skippedFederal ?? [];
+
+    const toggleFederalHoliday = (name: string, observed: boolean) => {
+        onHolidayCalendarChange?.({
+            ...holidayCalendar,
+            skippedFederal: observed ? skippedFederal.filter(n => n !== name) : [...skippedFederal, name],
+        });
+    };
+
+    const handleAddHoliday = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newHoliday.name.trim();
+        if (!name || !newHoliday.date) return;
+        onHolidayCalendarChange?.({
+            ...holidayCalendar,
+            custom: [...holidayCalendar.custom, { id: crypto.randomUUID(), name, date: newHoliday.date, yearly: newHoliday.yearly || undefined }],
+        });
+        setNewHoliday({ name: '', date: '', yearly: true });
+    };
+
+    const handleDeleteHoliday = (id: string) => {
+        onHolidayCalendarChange?.({ ...holidayCalendar, custom: holidayCalendar.custom.filter(h => h.id !== id) });
+    };
+
     const formatFrequency = (freq: PayInfo['frequency']): string => {
         switch (freq) {
             case 'weekly': return 'Weekly';
@@ -106,6 +199,38 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
     };
 
+    const handleExportFormatChange = (format: ExportFormat) => {
+        setExportFormat(format);
+        // A CSV file holds one table, so keep only the first selected dataset
+        if (format === 'csv') setExportDatasets(prev => [prev[0] ?? 'history']);
+        setExportStatus(null);
+    };
+
+    const toggleExportDataset = (dataset: ExportDataset) => {
+        setExportDatasets(prev => prev.includes(dataset)
+            ? prev.filter(d => d !== dataset)
+            : (Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).filter(d => d === dataset || prev.includes(d)));
+        setExportStatus(null);
+    };
+
+    const handleExport = async () => {
+        if (!exportSource) return;
+        const range = exportPeriod === 'month'
+            ? BudgetExport.monthRange(exportMonth)
+            : exportPeriod === 'range'
+                ? { fromDate: exportFrom || undefined, toDate: exportTo || undefined }
+                : {};
+        try {
+            const file = BudgetExport.buildFile(exportSource, { format: exportFormat, datasets: exportDatasets, ...range });
+            if (await saveExportFile(file)) {
+                setExportStatus({ type: 'success', message: `Exported ${file.fileName}` });
+            }
+        } catch (error) {
+            console.error('Export failed:', error);
+            setExportStatus({ type: 'error', message: error instanceof Error ? error.message : 'Export failed.' });
+        }
+    };
+
     return (
         <>
             <motion.div
@@ -152,12 +277,30 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                         >
                             Pay Schedule
                         </button>
+                        <button
+                            className={`settings-tab ${activeTab === 'categories' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('categories')}
+                        >
+                            Categories
+                        </button>
+                        <button
+                            className={`settings-tab ${activeTab === 'holidays' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('holidays')}
+                        >
+                            Holidays
+                        </button>
                         <button
                             className={`settings-tab ${activeTab === 'backups' ? 'active' : ''}`}
                             onClick={() => setActiveTab('backups')}
                         >
                             Backups
                         </button>
+                        <button
+                            className={`settings-tab ${activeTab === 'export' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('export')}
+                        >
+                            Export
+                        </button>
                         <button
                             className={`settings-tab ${activeTab === 'development' ? 'active' : ''}`}
                             onClick={() => setActiveTab('development')}
@@ -180,6 +323,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                     <li>Saved payment methods</li>
                                     <li>Income schedules</li>
                                     <li>Budget configuration</li>
+                                    <li>Every budget profile, not just the one open now</li>
                                 </ul>
                                 <p className="settings-warning">
                                     <strong>This action cannot be undone.</strong>
@@ -278,11 +422,198 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                             </div>
                         )}
 
+                        {activeTab === 'categories' && (
+                            <div className="settings-section">
+                                <div className="section-header">
+                                    <h3>Spending Categories</h3>
+                                    <span className="item-count">{categories.length} categor{categories.length !== 1 ? 'ies' : 'y'}</span>
+                                </div>
+                                <p className="settings-description">
+                                    Group bills for the spending breakdown in Payment History. Bills in a deleted category become uncategorized.
+                                    Set a monthly target to track planned vs. actual spending; with rollover on, whatever is left
+                                    of the target carries into the next month when you start it.
+                                </p>
+                                <div className="method-list">
+                                    {categories.map(category => (
+                                        <div key={category.id} className="method-item category-item">
+                                            <input
+                                                type="color"
+                                                className="category-color-input"
+                                                value={category.color}
+                                                onChange={e => handleUpdateCategory(category.id, { color: e.target.value })}
+                                                aria-label={`Color for ${category.name}`}
+                                            />
+                                            <input
+                                                type="text"
+                                                className="category-name-input"
+                                                defaultValue={category.name}
+                                                onBlur={e => {
+                                                    if (e.target.value.trim() === category.name) return;
+                                                    if (!e.target.value.trim() || isCategoryNameTaken(e.target.value, category.id)) {
+                                                        e.target.value = category.name;
+                                                        return;
+                                                    }
+                                                    handleUpdateCategory(category.id, { name: e.target.value });
+                                                }}
+                                                onKeyDown={e => {
+                                                    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                                                }}
+                                                aria-label={`Name of ${category.name}`}
+                                            />
+                                            <div className="category-target-input">
+                                                <span className="currency-prefix">$</span>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.01"
+                                                    placeholder="Target"
+                                                    defaultValue={category.target ?? ''}
+                                                    onBlur={e => {
+                                                        const target = e.target.value.trim() === ''
+                                                            ? undefined
+                                                            : CalculationEngine.parseAmount(e.target.value);
+                                                        if (target !== category.target) {
+                                                            handleUpdateCategory(category.id, { target: target && target > 0 ? target : undefined });
+                                                        }
+                                                    }}
+                                                    aria-label={`Monthly target for ${category.name}`}
+                                                />
+                                            </div>
+                                            <label className="category-rollover" title="Carry unspent target into next month">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!category.rollover}
+                                                    disabled={!category.target}
+                                                    onChange={e => handleUpdateCategory(category.id, { rollover: e.target.checked || undefined })}
+                                                />
+                                                Roll over
+                                            </label>
+                                            <button
+                                                className="delete-btn"
+                                                onClick={() => setCategoryToDelete(category)}
+                                                aria-label={`Delete ${category.name}`}
+                                                title="Delete category"
+                                            >
+                                                🗑️
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                <form className="category-add-form" onSubmit={handleAddCategory}>
+                                    <input
+                                        type="text"
+                                        value={newCategoryName}
+                                        onChange={e => setNewCategoryName(e.target.value)}
+                                        placeholder="New category, e.g. Childcare"
+                                        maxLength={40}
+                                    />
+                                    <button
+                                        type="submit"
+                                        className="btn-primary"
+                                        disabled={!newCategoryName.trim() || isCategoryNameTaken(newCategoryName)}
+                                    >
+                                        Add
+                                    </button>
+                                </form>
+                            </div>
+                        )}
+
+                        {activeTab === 'holidays' && (
+                            <div className="settings-section">
+                                <div className="section-header">
+                                    <h3>Bank Holidays</h3>
+                                    <span className="item-count">{DateUtils.holidaysInYear(holidayYear, holidayCalendar).size} in {holidayYear}</span>
+                                </div>
+                                <p className="settings-description">
+                                    Bills set to move to the previous or next business day, or to the last business day of the month,
+                                    skip weekends and these days. Federal holidays on a Sunday close banks the Monday after.
+                                </p>
+                                <label className="holiday-toggle">
+                                    <input
+                                        type="checkbox"
+                                        checked={holidayCalendar.federal}
+                                        onChange={e => onHolidayCalendarChange?.({ ...holidayCalendar, federal: e.target.checked })}
+                                    />
+                                    US federal holidays
+                                </label>
+                                {holidayCalendar.federal && (
+                                    <div className="method-list">
+                                        {DateUtils.federalHolidays(holidayYear).map(holiday => (
+                                            <label key={holiday.name} className="method-item holiday-item">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!skippedFederal.includes(holiday.name)}
+                                                    onChange={e => toggleFederalHoliday(holiday.name, e.target.checked)}
+                                                />
+                                                <span className="method-name">{holiday.name}</span>
+                                                <span className="holiday-date">{DateUtils.formatDate(holiday.date)}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <h4 className="holiday-subheading">Your Holidays</h4>
+                                {holidayCalendar.custom.length > 0 && (
+                                    <div className="method-list">
+                                        {holidayCalendar.custom.map(holiday => (
+                                            <div key={holiday.id} className="method-item holiday-item">
+                                                <span className="method-name">{holiday.name}</span>
+                                                <span className="holiday-date">
+                                                    {holiday.yearly
+                                                        ? `${DateUtils.formatDate(holiday.date)} every year`
+                                                        : DateUtils.parseLocalDate(holiday.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                                                </span>
+                                                <button
+                                                    className="delete-btn"
+                                                    onClick={() => handleDeleteHoliday(holiday.id)}
+                                                    aria-label={`Delete ${holiday.name}`}
+                                                    title="Delete holiday"
+                                                >
+                                                    🗑️
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <form className="category-add-form" onSubmit={handleAddHoliday}>
+                                    <input
+                                        type="text"
+                                        value={newHoliday.name}
+                                        onChange={e => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+                                        placeholder="e.g. Day after Thanksgiving"
+                                        maxLength={40}
+                                    />
+                                    <input
+                                        type="date"
+                                        className="holiday-date-input"
+                                        value={newHoliday.date}
+                                        onChange={e => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+                                        aria-label="Holiday date"
+                                    />
+                                    <label className="category-rollover">
+                                        <input
+                                            type="checkbox"
+                                            checked={newHoliday.yearly}
+                                            onChange={e => setNewHoliday(prev => ({ ...prev, yearly: e.target.checked }))}
+                                        />
+                                        Every year
+                                    </label>
+                                    <button
+                                        type="submit"
+                                        className="btn-primary"
+                                        disabled={!newHoliday.name.trim() || !newHoliday.date}
+                                    >
+                                        Add
+                                    </button>
+                                </form>
+                            </div>
+                        )}
+
                         {activeTab === 'backups' && (
                             <div className="settings-section">
                                 <h3>Automatic Backups</h3>
                                 <p className="settings-description">
-                                    Backups are created automatically when you transition to a new month. Up to 2 backups are kept.
+                                    Backups are created automatically when you transition to a new month. Up to 2 backups are kept for each budget.
                                 </p>
                                 {(!backups || backups.length === 0) ? (
                                     <div className="empty-state">
@@ -317,6 +648,91 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                             </div>
                         )}
 
+                        {activeTab === 'export' && (
+                            <div className="settings-section">
+                                <h3>Export for Spreadsheet</h3>
+                                <p className="settings-description">
+                                    Save your payment history, this month's bills and your debt accounts as flat files for Excel or your accountant.
+                                </p>
+
+                                <div className="export-field">
+                                    <label>Format</label>
+                                    <div className="export-toggle">
+                                        <button
+                                            className={exportFormat === 'xlsx' ? 'active' : ''}
+                                            onClick={() => handleExportFormatChange('xlsx')}
+                                        >
+                                            Excel (.xlsx)
+                                        </button>
+                                        <button
+                                            className={exportFormat === 'csv' ? 'active' : ''}
+                                            onClick={() => handleExportFormatChange('csv')}
+                                        >
+                                            CSV
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div className="export-field">
+                                    <label>{exportFormat === 'xlsx' ? 'Sheets' : 'Table'}</label>
+                                    {exportFormat === 'xlsx' ? (
+                                        <div className="export-datasets">
+                                            {(Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).map(dataset => (
+                                                <label key={dataset} className="export-checkbox">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={exportDatasets.includes(dataset)}
+                                                        onChange={() => toggleExportDataset(dataset)}
+                                                    />
+                                                    {EXPORT_DATASET_LABELS[dataset]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <select
+                                            value={exportDatasets[0] ?? 'history'}
+                                            onChange={e => { setExportDatasets([e.target.value as ExportDataset]); setExportStatus(null); }}
+                                        >
+                                            {(Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).map(dataset => (
+                                                <option key={dataset} value={dataset}>{EXPORT_DATASET_LABELS[dataset]}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+
+                                <div className="export-field">
+                                    <label>Period</label>
+                                    <select value={exportPeriod} onChange={e => setExportPeriod(e.target.value as ExportPeriod)}>
+                                        <option value="all">All time</option>
+                                        <option value="month">Single month</option>
+                                        <option value="range">Date range</option>
+                                    </select>
+                                    {exportPeriod === 'month' && (
+                                        <input type="month" value={exportMonth} onChange={e => setExportMonth(e.target.value)} />
+                                    )}
+                                    {exportPeriod === 'range' && (
+                                        <div className="export-range">
+                                            <input type="date" value={exportFrom} onChange={e => setExportFrom(e.target.value)} aria-label="From date" />
+                                            <span>to</span>
+                                            <input type="date" value={exportTo} onChange={e => setExportTo(e.target.value)} aria-label="To date" />
+                                        </div>
+                                    )}
+                                </div>
+
+                                {exportStatus && (
+                                    <p className={`export-status ${exportStatus.type}`}>{exportStatus.message}</p>
+                                )}
+
+                                <button
+                                    className="btn-dev-populate export-btn"
+                                    onClick={handleExport}
+                                    disabled={!exportSource || exportDatasets.length === 0 || (exportPeriod === 'month' && !exportMonth)}
+                                >
+                                    Export
+                                </button>
+                            </div>
+                        )}
+
                         {activeTab === 'development' && (
                             <div className="settings-section">
                                 {!devUnlocked ? (
@@ -490,6 +906,23 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 )}
             </AnimatePresence>
 
+            {/* Delete Category Confirmation */}
+            <AnimatePresence>
+                {categoryToDelete && (
+                    <div className="settings-sub-modal">
+                        <ConfirmationModal
+                            isOpen={!!categoryToDelete}
+                            title="Delete Category"
+                            message={`Are you sure you want to remove "${categoryToDelete.name}"? Bills and history in this category will show as Uncategorized.`}
+                            confirmLabel="Delete"
+                            isDestructive={true}
+                            onConfirm={confirmDeleteCategory}
+                            onCancel={() => setCategoryToDelete(null)}
+                        />
+                    </div>
+                )}
+            </AnimatePresence>
+
             {/* Delete PayInfo Confirmation */}
             <AnimatePresence>
                 {payInfoToDelete && (
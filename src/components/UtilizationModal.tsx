@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { DateUtils } from '../core/DateUtils';
+import { CreditUtilization } from '../core/CreditUtilization';
+import type { Bill, UtilizationSnapshot, UtilizationThresholds } from '../types';
+import './UtilizationModal.css';
+
+interface UtilizationModalProps {
+    cards: Bill[]; // Every credit account, with or without a limit
+    thresholds: UtilizationThresholds;
+    history: UtilizationSnapshot[]; // Oldest first
+    onLimitChange: (billId: string, limit: number | undefined) => void;
+    onThresholdsChange: (thresholds: UtilizationThresholds) => void;
+    onClose: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+const formatMonth = (month: string) => DateUtils.parseLocalDate(`${month}-01`)
+    .toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+export const UtilizationModal: React.FC<UtilizationModalProps> = ({ cards, thresholds, history, onLimitChange, onThresholdsChange, onClose }) => {
+    const [limitInputs, setLimitInputs] = useState<Record<string, string>>(
+        () => Object.fromEntries(cards.map(c => [c.id, c.creditLimit ? String(c.creditLimit) : '']))
+    );
+    const [warningInput, setWarningInput] = useState(String(thresholds.warning));
+    const [highInput, setHighInput] = useState(String(thresholds.high));
+
+    const summary = useMemo(() => CreditUtilization.summarize(cards, thresholds), [cards, thresholds]);
+    const trend = useMemo(
+        () => history.map(s => ({ month: s.month, percent: CreditUtilization.snapshotPercent(s) })),
+        [history]
+    );
+
+    // Chart scale tops out at 100% unless a month went over the limit
+    const chartMax = Math.max(100, ...trend.map(t => t.percent));
+    const y = (percent: number) => CHART_HEIGHT - (percent / chartMax) * CHART_HEIGHT;
+    const x = (index: number) => trend.length === 1 ? CHART_WIDTH / 2 : (index / (trend.length - 1)) * CHART_WIDTH;
+
+    const commitLimit = (card: Bill) => {
+        const limit = CalculationEngine.roundCurrency(CalculationEngine.parseAmount(limitInputs[card.id] ?? ''));
+        const next = limit > 0 ? limit : undefined;
+        if (next !== card.creditLimit) onLimitChange(card.id, next);
+    };
+
+    const commitThresholds = () => {
+        const warning = Math.min(100, Math.max(0, CalculationEngine.parseAmount(warningInput)));
+        const high = Math.min(100, Math.max(warning, CalculationEngine.parseAmount(highInput)));
+        setWarningInput(String(warning));
+        setHighInput(String(high));
+        if (warning !== thresholds.warning || high !== thresholds.high) {
+            onThresholdsChange({ warning, high });
+        }
+    };
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane utilization-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="payoff-header">
+                    <h3>Credit Utilization</h3>
+                </div>
+
+                <div className="utilization-overall-stat">
+                    {summary.percent !== null ? (
+                        <>
+                            <span className={`utilization-percent utilization-${summary.level}`}>{summary.percent}%</span>
+                            <span className="utilization-detail">
+                                {CalculationEngine.formatCurrency(summary.balance)} of {CalculationEngine.formatCurrency(summary.limit)} across {summary.cards.length} {summary.cards.length === 1 ? 'card' : 'cards'}
+                            </span>
+                        </>
+                    ) : (
+                        <span className="utilization-detail">Enter a credit limit for a card to see its utilization.</span>
+                    )}
+                </div>
+
+                <div className="utilization-cards">
+                    {cards.map(card => {
+                        const util = summary.cards.find(c => c.billId === card.id);
+                        return (
+                            <div key={card.id} className="utilization-card-row">
+                                <span className="utilization-card-name">{card.name}</span>
+                                <span className="utilization-card-balance">{CalculationEngine.formatCurrency(card.balance ?? 0)}</span>
+                                <label className="utilization-limit-input">
+                                    <span>Limit</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="100"
+                                        value={limitInputs[card.id] ?? ''}
+                                        onChange={e => setLimitInputs(prev => ({ ...prev, [card.id]: e.target.value }))}
+                                        onBlur={() => commitLimit(card)}
+                                        placeholder="—"
+                                    />
+                                </label>
+                                <div className="utilization-bar" title={util ? `${util.percent}%` : 'No limit'}>
+                                    {util && (
+                                        <span
+                                            className={`utilization-bar-fill utilization-${util.level}`}
+                                            style={{ width: `${Math.min(100, util.percent)}%` }}
+                                        />
+                                    )}
+                                </div>
+                                <span className={`utilization-card-percent ${util ? `utilization-${util.level}` : ''}`}>
+                                    {util ? `${util.percent}%` : '—'}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="utilization-thresholds">
+                    <label>
+                        <span>Warn at</span>
+                        <input type="number" min="0" max="100" value={warningInput} onChange={e => setWarningInput(e.target.value)} onBlur={commitThresholds} />
+                        <span>%</span>
+                    </label>
+                    <label>
+                        <span>High at</span>
+                        <input type="number" min="0" max="100" value={highInput} onChange={e => setHighInput(e.target.value)} onBlur={commitThresholds} />
+                        <span>%</span>
+                    </label>
+                </div>
+
+                <div className="utilization-section-label">Month-End Trend</div>
+                {trend.length > 0 ? (
+                    <div className="utilization-trend">
+                        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" role="img" aria-label="Overall utilization by month">
+                            <line className="utilization-threshold-line utilization-warning" x1={0} x2={CHART_WIDTH} y1={y(thresholds.warning)} y2={y(thresholds.warning)} />
+                            <line className="utilization-threshold-line utilization-high" x1={0} x2={CHART_WIDTH} y1={y(thresholds.high)} y2={y(thresholds.high)} />
+                            <polyline points={trend.map((t, i) => `${x(i).toFixed(1)},${y(t.percent).toFixed(1)}`).join(' ')} />
+                        </svg>
+                        <div className="utilization-trend-months">
+                            {trend.map(t => (
+                                <span key={t.month} className={`utilization-${CreditUtilization.level(t.percent, thresholds)}`}>
+                                    {formatMonth(t.month)} · {t.percent}%
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <div className="utilization-empty">Utilization is recorded each time a month is closed.</div>
+                )}
+
+                <div className="modal-actions">
+                    <button className="btn-primary" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default UtilizationModal;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalculationEngine } from '../core/CalculationEngine';
+import { Windfall, WindfallOption } from '../core/Windfall';
+import type { Bill } from '../types';
+import './WindfallModal.css';
+
+interface WindfallModalProps {
+    debts: Bill[];
+    onApply: (allocation: Array<{ billId: string; amount: number }>) => void;
+    onClose: () => void;
+}
+
+const formatMonthsSaved = (months: number | null) => {
+    if (months === null) return '—';
+    if (months <= 0) return 'Same date';
+    return `${CalculationEngine.formatPayoffTime(months)} sooner`;
+};
+
+export const WindfallModal: React.FC<WindfallModalProps> = ({ debts, onApply, onClose }) => {
+    const [amountInput, setAmountInput] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const amount = CalculationEngine.parseAmount(amountInput);
+    const options = useMemo(() => Windfall.options(debts, amount), [debts, amount]);
+    const skippedLoans = debts.filter(d => d.loan && (d.balance ?? 0) > 0);
+
+    const best = options.reduce<WindfallOption | undefined>((b, o) => !b || o.interestSaved > b.interestSaved ? o : b, undefined);
+    const selected = options.find(o => o.id === selectedId) ?? best;
+
+    const handleApply = () => {
+        if (!selected) return;
+        const summary = selected.allocation
+            .map(a => `${a.name}: ${CalculationEngine.formatCurrency(a.amount)}`)
+            .join('\n');
+        if (!window.confirm(`Apply this payment to your balances?\n\n${summary}`)) return;
+        onApply(selected.allocation.map(a => ({ billId: a.billId, amount: a.amount })));
+    };
+
+    return (
+        <motion.div
+            className="modal-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="modal-content glass-pane windfall-modal"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="payoff-header">
+                    <h3>Windfall What-If</h3>
+                </div>
+
+                <div className="windfall-amount-row">
+                    <label htmlFor="windfall-amount">One-Time Amount</label>
+                    <input
+                        id="windfall-amount"
+                        type="number"
+                        min="0"
+                        step="100"
+                        value={amountInput}
+                        onChange={e => setAmountInput(e.target.value)}
+                        placeholder="e.g. 3000"
+                        autoFocus
+                    />
+                    <span className="windfall-hint">Tax refund, bonus, gift — each debt keeps its current monthly payment</span>
+                </div>
+                {skippedLoans.length > 0 && (
+                    <div className="windfall-hint windfall-note">
+                        Installment loans aren't included — add extra principal from their schedule instead.
+                    </div>
+                )}
+
+                {options.length > 0 ? (
+                    <>
+                        <div className="windfall-options">
+                            {options.map(option => (
+                                <button
+                                    key={option.id}
+                                    className={`windfall-option ${selected?.id === option.id ? 'selected' : ''}`}
+                                    onClick={() => setSelectedId(option.id)}
+                                >
+                                    <span className="windfall-option-label">
+                                        {option.label}
+                                        {option === best && option.interestSaved > 0 && <span className="windfall-best-badge">Best</span>}
+                                    </span>
+                                    <span className="windfall-option-desc">{option.description}</span>
+                                    <span className="windfall-option-saved">
+                                        Saves {CalculationEngine.formatCurrency(option.interestSaved)}
+                                    </span>
+                                    <span className="windfall-option-desc">Debt-free: {formatMonthsSaved(option.debtFreeMonthsSaved)}</span>
+                                </button>
+                            ))}
+                        </div>
+
+                        {selected && (
+                            <div className="windfall-breakdown">
+                                <table>
+                                    <thead>
+                                        <tr>
+                                            <th>Debt</th>
+                                            <th>Applied</th>
+                                            <th>Interest Saved</th>
+                                            <th>Paid Off</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {selected.allocation.map(a => (
+                                            <tr key={a.billId}>
+                                                <td>{a.name}</td>
+                                                <td>{CalculationEngine.formatCurrency(a.amount)}</td>
+                                                <td>{a.interestSaved === null ? '—' : CalculationEngine.formatCurrency(a.interestSaved)}</td>
+                                                <td>{formatMonthsSaved(a.monthsSaved)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                {selected.applied < amount && (
+                                    <div className="windfall-hint">
+                                        Only {CalculationEngine.formatCurrency(selected.applied)} is needed — the rest is left over.
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <div className="windfall-hint">
+                        {amount > 0 ? 'No balances to apply it to.' : 'Enter an amount to compare where it does the most good.'}
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    <button className="btn-secondary" onClick={onClose}>
+                        Cancel
+                    </button>
+                    <button className="btn-primary" onClick={handleApply} disabled={!selected}>
+                        Apply to Balances
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default WindfallModal;
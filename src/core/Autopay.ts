@@ -0,0 +1,80 @@
+/**
+ * Autopay: bills that pay themselves once their due date has passed
+ * Payments are recorded through PaymentUtils like manual ones, flagged so they can be told apart and undone.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { CardTerms } from './CardTerms';
+import { Recurrence } from './Recurrence';
+import type { AutopayAmount, AutopayRule, Bill } from '../types';
+
+export interface AutopayPayment {
+    billId: string;
+    method: string;
+    amount: number;
+    date: string; // YYYY-MM-DD the bill (or, for weekly bills, the latest occurrence) fell due
+}
+
+export const AUTOPAY_AMOUNT_LABELS: Record<AutopayAmount, string> = {
+    statement: 'Statement Amount',
+    fixed: 'Fixed Amount',
+    minimum: 'Minimum Payment',
+};
+
+export class Autopay {
+    /** Amount rules that fit a bill — only card and other balances have a statement minimum */
+    static amountChoices(bill: Pick<Bill, 'hasBalance' | 'loan'>): AutopayAmount[] {
+        return bill.hasBalance && !bill.loan ? ['statement', 'fixed', 'minimum'] : ['statement', 'fixed'];
+    }
+
+    /**
+     * What autopay charges on a bill row for a "YYYY-MM" month, less anything already paid toward it.
+     * `share` is the part of the month's amount due so far — weekly bills are paid one occurrence at a time.
+     */
+    static amountFor(row: Bill, month: string, share = 1): number {
+        const rule = row.autopay;
+        if (!rule) return 0;
+        let target = row.amount;
+        if (rule.amount === 'fixed') target = rule.fixedAmount ?? 0;
+        else if (rule.amount === 'minimum' && row.hasBalance && !row.loan) target = CardTerms.minimumDue(row, month);
+        return Math.max(0, CalculationEngine.roundCurrency(target * share - (row.paidAmount || 0)));
+    }
+
+    /**
+     * Payments autopay owes on a month's bill rows by `today` (YYYY-MM-DD).
+     * Rows listed in `estimated` only carry a guessed amount, so they wait unless the rule pays a fixed amount.
+     * Rows that fall due several times a month are paid for each occurrence as it passes.
+     */
+    static duePayments(rows: Bill[], month: string, today: string, estimated: ReadonlySet<string> = new Set()): AutopayPayment[] {
+        return rows.flatMap(row => {
+            const rule = row.autopay;
+            if (!rule || row.isPaid || rule.skipMonth === month || row.dueDate > today) return [];
+            if (rule.amount !== 'fixed' && estimated.has(row.id)) return [];
+
+            const occurrences = Recurrence.occurrencesInMonth(row, month);
+            const passed = occurrences.filter(date => date <= today);
+            const share = occurrences.length > 1 ? Math.max(1, passed.length) / occurrences.length : 1;
+            const amount = this.amountFor(row, month, share);
+            const date = occurrences.length > 1 ? passed[passed.length - 1] ?? row.dueDate : row.dueDate;
+            return amount > 0 ? [{ billId: row.id, method: rule.method, amount, date }] : [];
+        });
+    }
+
+    /** Whether the latest payment on a bill row was made by autopay */
+    static isAutoPaid(row: Pick<Bill, 'payments'>): boolean {
+        return !!row.payments?.[row.payments.length - 1]?.auto;
+    }
+
+    /** Undoing an automatic payment keeps autopay from paying that month again */
+    static skipMonth(bill: Bill, month: string): Bill {
+        return bill.autopay ? { ...bill, autopay: { ...bill.autopay, skipMonth: month } } : bill;
+    }
+
+    /** "Autopay · Minimum Payment · Visa" */
+    static describe(rule: AutopayRule): string {
+        const amount = rule.amount === 'fixed'
+            ? CalculationEngine.formatCurrency(rule.fixedAmount ?? 0)
+            : AUTOPAY_AMOUNT_LABELS[rule.amount];
+        return `Autopay · ${amount} · ${rule.method}`;
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Balance ledger: every change to a debt's balance, so its history can be charted and audited
+ * Entries are only ever appended — a correction is a new 'edit' entry, never a rewrite of an old one.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import type { LedgerEntry, LedgerEntryKind } from '../types';
+
+export interface BalancePoint {
+    date: string; // YYYY-MM-DD
+    balance: number;
+}
+
+export interface LedgerTotals {
+    interest: number; // Interest charged to date
+    payments: number; // Paid toward the balance to date (positive)
+    charges: number;
+    adjustments: number; // Net of adjustments and edits
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryKind, string> = {
+    payment: 'Payment',
+    interest: 'Interest',
+    charge: 'New Charge',
+    adjustment: 'Adjustment',
+    edit: 'Balance Edit',
+};
+
+export class BalanceLedger {
+    /**
+     * Entry moving a balance from `before` to `after`, or null when nothing changed.
+     * Amounts are settled in cents so the running balance always matches the bill.
+     */
+    static change(
+        billId: string,
+        kind: LedgerEntryKind,
+        before: number,
+        after: number,
+        date: string = DateUtils.toLocalDateString(new Date()),
+        note?: string
+    ): LedgerEntry | null {
+        const amountCents = Math.round(after * 100) - Math.round(before * 100);
+        if (amountCents === 0) return null;
+        return {
+            id: crypto.randomUUID(),
+            billId,
+            date,
+            kind,
+            amount: amountCents / 100,
+            balanceAfter: CalculationEngine.roundCurrency(after),
+            note: note?.trim() || undefined,
+            recordedAt: new Date().toISOString(),
+        };
+    }
+
+    /** Last day of a YYYY-MM month — the date month-close interest and payments are booked on */
+    static monthEnd(month: string): string {
+        return `${month}-${String(DateUtils.daysInMonth(month)).padStart(2, '0')}`;
+    }
+
+    /** A bill's entries, oldest first */
+    static forBill(ledger: LedgerEntry[], billId: string): LedgerEntry[] {
+        return ledger
+            .filter(e => e.billId === billId)
+            .sort((a, b) => a.date.localeCompare(b.date) || a.recordedAt.localeCompare(b.recordedAt));
+    }
+
+    static totals(entries: LedgerEntry[]): LedgerTotals {
+        const sumCents = (kinds: LedgerEntryKind[]) => entries
+            .filter(e => kinds.includes(e.kind))
+            .reduce((sum, e) => sum + Math.round(e.amount * 100), 0);
+        return {
+            interest: sumCents(['interest']) / 100,
+            payments: -sumCents(['payment']) / 100,
+            charges: sumCents(['charge']) / 100,
+            adjustments: sumCents(['adjustment', 'edit']) / 100,
+        };
+    }
+
+    /**
+     * Balance over time for a chart: the opening balance before the first entry,
+     * then the balance after the last entry of each day, ending at today's balance.
+     */
+    static balanceSeries(entries: LedgerEntry[], currentBalance: number, today: string = DateUtils.toLocalDateString(new Date())): BalancePoint[] {
+        const first = entries[0];
+        if (!first) return [{ date: today, balance: currentBalance }];
+
+        const points: BalancePoint[] = [{ date: first.date, balance: CalculationEngine.roundCurrency(first.balanceAfter - first.amount) }];
+        for (const entry of entries) {
+            const last = points[points.length - 1]!;
+            // Same-day entries collapse into the day's closing balance; the opening point stays
+            if (points.length > 1 && last.date === entry.date) {
+                last.balance = entry.balanceAfter;
+            } else {
+                points.push({ date: entry.date, balance: entry.balanceAfter });
+            }
+        }
+
+        const last = points[points.length - 1]!;
+        if (today > last.date) points.push({ date: today, balance: currentBalance });
+        return points;
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * Estimates for bills whose amount varies, worked out from what was paid for them in earlier months
+ * A bill needs one while its amount is 0 — until this month's amount is entered or the bill is paid.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import type { AmountEstimate, Bill, HistoryItem } from '../types';
+
+export interface BillEstimate {
+    amount: number;
+    method: AmountEstimate['method']; // The one used: 'last-year' falls back to 'average' when that month wasn't paid
+    payments: number; // How many payments it was worked out from
+}
+
+export const ESTIMATE_METHOD_LABELS: Record<AmountEstimate['method'], string> = {
+    average: 'Average of recent payments',
+    'last-year': 'Same month last year',
+    max: 'Highest recent payment',
+};
+
+export const DEFAULT_AMOUNT_ESTIMATE: AmountEstimate = { method: 'average', payments: 3 };
+
+export class BillEstimates {
+    /** Recurring bills without a balance whose amount hasn't been entered yet */
+    static needsEstimate(bill: Bill): boolean {
+        return bill.amount === 0 && !bill.hasBalance && bill.isRecurring;
+    }
+
+    /** What was paid for the bill in each "YYYY-MM" month: archived history, this month's payment and advance payments */
+    static paymentsByMonth(bill: Bill, history: HistoryItem[]): Map<string, number> {
+        const byMonth = new Map<string, number>();
+        for (const item of history) {
+            if (item.id !== bill.id || !(item.paidAmount > 0)) continue;
+            const date = item.originalDueDate || item.paidDate || item.archivedDate;
+            if (!date) continue;
+            // Bills paid in parts have one item per payment
+            const month = DateUtils.getMonthFromDate(date);
+            byMonth.set(month, CalculationEngine.roundCurrency((byMonth.get(month) ?? 0) + item.paidAmount));
+        }
+        if (bill.isPaid && bill.paidAmount) {
+            byMonth.set(DateUtils.getMonthFromDate(bill.dueDate), bill.paidAmount);
+        }
+        for (const [month, payment] of Object.entries(bill.paidMonths ?? {})) {
+            if (payment.paidAmount > 0) byMonth.set(month, payment.paidAmount);
+        }
+        return byMonth;
+    }
+
+    /** Estimate for a "YYYY-MM" month from the payments made before it, or null when there are none */
+    static estimate(bill: Bill, history: HistoryItem[], month: string): BillEstimate | null {
+        const rule = bill.estimate ?? DEFAULT_AMOUNT_ESTIMATE;
+        const earlier = [...this.paymentsByMonth(bill, history)]
+            .filter(([m]) => DateUtils.compareMonths(m, month) < 0)
+            .sort(([a], [b]) => a.localeCompare(b));
+        if (earlier.length === 0) return null;
+
+        if (rule.method === 'last-year') {
+            const lastYear = DateUtils.addMonthsToMonth(month, -12);
+            const paid = earlier.find(([m]) => m === lastYear);
+            if (paid) return { amount: paid[1], method: 'last-year', payments: 1 };
+        }
+
+        const recent = earlier
+            .slice(-Math.max(1, Math.round(rule.payments ?? DEFAULT_AMOUNT_ESTIMATE.payments ?? 3)))
+            .map(([, amount]) => amount);
+        if (rule.method === 'max') {
+            return { amount: Math.max(...recent), method: 'max', payments: recent.length };
+        }
+        return {
+            amount: CalculationEngine.roundCurrency(recent.reduce((sum, amount) => sum + amount, 0) / recent.length),
+            method: 'average',
+            payments: recent.length,
+        };
+    }
+
+    /** Estimates for every bill that needs one in a month, by bill id */
+    static forMonth(bills: Bill[], history: HistoryItem[], month: string): Map<string, BillEstimate> {
+        const estimates = new Map<string, BillEstimate>();
+        for (const bill of bills) {
+            if (!this.needsEstimate(bill)) continue;
+            const estimate = this.estimate(bill, history, month);
+            if (estimate) estimates.set(bill.id, estimate);
+        }
+        return estimates;
+    }
+
+    /** "Average of the last 3 payments", "Same month last year" */
+    static describe(estimate: BillEstimate): string {
+        if (estimate.method === 'last-year') return 'Same month last year';
+        if (estimate.payments === 1) return 'Last payment';
+        return estimate.method === 'max'
+            ? `Highest of the last ${estimate.payments} payments`
+            : `Average of the last ${estimate.payments} payments`;
+    }
+}
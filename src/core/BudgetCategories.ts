@@ -0,0 +1,188 @@
+/**
+ * Spending categories and tags: defaults, lookups, per-category totals and monthly targets
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import type { BudgetCategory, HistoryItem } from '../types';
+
+/** Chart colors offered for new categories, in order */
+export const CATEGORY_COLORS = [
+    '#d4af37', '#4fc3f7', '#ef5350', '#ab47bc', '#66bb6a',
+    '#ffa726', '#26a69a', '#ec407a', '#8d6e63', '#5c6bc0',
+];
+
+/** Categories a budget starts with until the user edits the list */
+export const DEFAULT_CATEGORIES: BudgetCategory[] = [
+    { id: 'housing', name: 'Housing', color: '#d4af37' },
+    { id: 'utilities', name: 'Utilities', color: '#4fc3f7' },
+    { id: 'debt', name: 'Debt', color: '#ef5350' },
+    { id: 'subscriptions', name: 'Subscriptions', color: '#ab47bc' },
+    { id: 'insurance', name: 'Insurance', color: '#66bb6a' },
+    { id: 'transportation', name: 'Transportation', color: '#ffa726' },
+];
+
+/** Stand-in for bills without a category, or whose category has been deleted */
+export const UNCATEGORIZED: BudgetCategory = { id: 'uncategorized', name: 'Uncategorized', color: '#78909c' };
+
+export interface CategoryTotal {
+    category: BudgetCategory;
+    amount: number;
+    share: number; // 0–1 of the total
+}
+
+export interface MonthCategoryTotals {
+    month: string; // YYYY-MM
+    total: number;
+    segments: CategoryTotal[];
+}
+
+/** Planned vs. actual spending of one category in one month */
+export interface CategoryPlan {
+    category: BudgetCategory;
+    target: number;
+    carriedIn: number; // Unspent amount rolled over from the previous month
+    planned: number; // target + carriedIn
+    actual: number;
+    remaining: number; // Negative when over target
+    isOver: boolean;
+}
+
+/** Either a category id or a tag; undefined shows everything */
+export type CategoryFilter = { kind: 'category'; id: string } | { kind: 'tag'; tag: string };
+
+export class BudgetCategories {
+    static createCategory(name: string, categories: BudgetCategory[]): BudgetCategory {
+        const used = new Set(categories.map(c => c.color));
+        const color = CATEGORY_COLORS.find(c => !used.has(c))
+            ?? CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length]!;
+        return { id: crypto.randomUUID(), name: name.trim(), color };
+    }
+
+    static resolve(categories: BudgetCategory[], categoryId?: string): BudgetCategory {
+        return (categoryId && categories.find(c => c.id === categoryId)) || UNCATEGORIZED;
+    }
+
+    /** "Shared, tax-deductible, shared" → ["Shared", "tax-deductible"] */
+    static parseTags(input: string): string[] {
+        const seen = new Set<string>();
+        return input
+            .split(',')
+            .map(tag => tag.trim())
+            .filter(tag => {
+                const key = tag.toLowerCase();
+                if (!tag || seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+    }
+
+    static formatTags(tags?: string[]): string {
+        return (tags || []).join(', ');
+    }
+
+    /** Every tag in use, sorted, with case-insensitive duplicates folded together */
+    static collectTags(items: Array<{ tags?: string[] }>): string[] {
+        const tags = new Map<string, string>();
+        for (const item of items) {
+            for (const tag of item.tags || []) {
+                if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+            }
+        }
+        return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+    }
+
+    static matches(item: { categoryId?: string; tags?: string[] }, filter: CategoryFilter | undefined, categories: BudgetCategory[]): boolean {
+        if (!filter) return true;
+        if (filter.kind === 'category') {
+            return this.resolve(categories, item.categoryId).id === filter.id;
+        }
+        const tag = filter.tag.toLowerCase();
+        return (item.tags || []).some(t => t.toLowerCase() === tag);
+    }
+
+    /** Totals per category, largest first */
+    static breakdown(items: HistoryItem[], categories: BudgetCategory[]): CategoryTotal[] {
+        const totals = new Map<string, CategoryTotal>();
+        let grandTotal = 0;
+
+        for (const item of items) {
+            const category = this.resolve(categories, item.categoryId);
+            const entry = totals.get(category.id) ?? { category, amount: 0, share: 0 };
+            entry.amount += item.paidAmount;
+            totals.set(category.id, entry);
+            grandTotal += item.paidAmount;
+        }
+
+        return Array.from(totals.values())
+            .map(entry => ({
+                ...entry,
+                amount: CalculationEngine.roundCurrency(entry.amount),
+                share: grandTotal > 0 ? entry.amount / grandTotal : 0,
+            }))
+            .filter(entry => entry.amount > 0)
+            .sort((a, b) => b.amount - a.amount);
+    }
+
+    /**
+     * Per-category totals for each month that has payments, oldest first.
+     * Items are grouped by the month they were archived (or paid) in, as in the history list.
+     */
+    static monthlyBreakdown(items: HistoryItem[], categories: BudgetCategory[]): MonthCategoryTotals[] {
+        const byMonth = new Map<string, HistoryItem[]>();
+        for (const item of items) {
+            const dateStr = item.archivedDate || item.paidDate;
+            if (!dateStr) continue;
+            const month = DateUtils.getMonthFromDate(dateStr);
+            byMonth.set(month, [...(byMonth.get(month) || []), item]);
+        }
+
+        return Array.from(byMonth.entries())
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([month, monthItems]) => {
+                const segments = this.breakdown(monthItems, categories);
+                const total = CalculationEngine.roundCurrency(segments.reduce((sum, s) => sum + s.amount, 0));
+                return { month, total, segments };
+            });
+    }
+
+    // ── Targets ──
+
+    /** Paid amount per category id; payments in unknown categories count as Uncategorized */
+    static actualByCategory(payments: Array<{ categoryId?: string; amount: number }>, categories: BudgetCategory[]): Map<string, number> {
+        const totals = new Map<string, number>();
+        for (const payment of payments) {
+            const id = this.resolve(categories, payment.categoryId).id;
+            totals.set(id, (totals.get(id) || 0) + payment.amount);
+        }
+        return totals;
+    }
+
+    /**
+     * Planned vs. actual for every category that has a target
+     * @param carriedIn Amounts rolled into this month, by category id
+     */
+    static planVsActual(categories: BudgetCategory[], actuals: Map<string, number>, carriedIn: Record<string, number> = {}): CategoryPlan[] {
+        return categories
+            .filter(category => category.target !== undefined && category.target > 0)
+            .map(category => {
+                const target = category.target ?? 0;
+                const carry = carriedIn[category.id] ?? 0;
+                const planned = CalculationEngine.roundCurrency(target + carry);
+                const actual = CalculationEngine.roundCurrency(actuals.get(category.id) ?? 0);
+                const remaining = CalculationEngine.roundCurrency(planned - actual);
+                return { category, target, carriedIn: carry, planned, actual, remaining, isOver: remaining < 0 };
+            });
+    }
+
+    /** Unspent amounts to carry into the next month, for categories with rollover turned on */
+    static rollover(plans: CategoryPlan[]): Record<string, number> {
+        const carried: Record<string, number> = {};
+        for (const plan of plans) {
+            if (plan.category.rollover && plan.remaining > 0) {
+                carried[plan.category.id] = plan.remaining;
+            }
+        }
+        return carried;
+    }
+}
@@ -0,0 +1,248 @@
+/**
+ * Flat-file export of payment history, bills and debt accounts (CSV and .xlsx)
+ * Files are built in the renderer; the Electron main process only writes the finished ExportFile to disk
+ */
+
+import { BudgetCategories } from './BudgetCategories';
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils, DEFAULT_HOLIDAY_CALENDAR } from './DateUtils';
+import { PaymentUtils } from './PaymentUtils';
+import { RateSchedule } from './RateSchedule';
+import { XlsxWriter, CellValue, Worksheet } from './XlsxWriter';
+import type { Bill, BudgetCategory, BudgetData, HistoryItem } from '../types';
+
+export type ExportDataset = 'history' | 'bills' | 'debts';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    datasets: ExportDataset[];
+    /** Inclusive YYYY-MM-DD bounds applied to payment history and to the bills due; without them bills are the active month's */
+    fromDate?: string;
+    toDate?: string;
+}
+
+export interface ExportFile {
+    fileName: string;
+    mimeType: string;
+    content: Uint8Array;
+}
+
+export type ExportSource = Pick<BudgetData, 'bills' | 'paidHistory' | 'activeMonth' | 'categories' | 'holidayCalendar'>;
+
+// Bills are listed month by month, so the span they can cover is capped
+const MAX_BILL_MONTHS = 120;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+    history: 'Payment History',
+    bills: 'Current Bills',
+    debts: 'Debt Accounts',
+};
+
+export class BudgetExport {
+    /**
+     * Build the export file for the chosen datasets.
+     * CSV holds a single table, so it takes exactly one dataset.
+     */
+    static buildFile(source: ExportSource, options: ExportOptions): ExportFile {
+        if (options.datasets.length === 0) {
+            throw new Error('Choose at least one dataset to export.');
+        }
+        if (options.format === 'csv' && options.datasets.length !== 1) {
+            throw new Error('A CSV file holds one table — choose a single dataset or export to .xlsx.');
+        }
+        if ([options.fromDate, options.toDate].some(date => date && !DAY_PATTERN.test(date))) {
+            throw new Error('Enter dates as YYYY-MM-DD.');
+        }
+        if (options.fromDate && options.toDate && options.toDate < options.fromDate) {
+            throw new Error('The end date is before the start date.');
+        }
+
+        const sheets = options.datasets.map(dataset => this.buildSheet(source, dataset, options));
+        const baseName = this.fileBaseName(source, options);
+
+        if (options.format === 'csv') {
+            return {
+                fileName: `${baseName}.csv`,
+                mimeType: 'text/csv',
+                content: new TextEncoder().encode(this.toCsv(sheets[0]!)),
+            };
+        }
+
+        return {
+            fileName: `${baseName}.xlsx`,
+            mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            content: XlsxWriter.build(sheets),
+        };
+    }
+
+    static buildSheet(source: ExportSource, dataset: ExportDataset, options: Pick<ExportOptions, 'fromDate' | 'toDate'>): Worksheet {
+        switch (dataset) {
+            case 'history':
+                return this.historySheet(source.paidHistory, source.categories ?? [], options);
+            case 'bills':
+                return this.billsSheet(source, options);
+            case 'debts':
+                return this.debtsSheet(source);
+        }
+    }
+
+    /**
+     * First and last day of a YYYY-MM month, for the month filter
+     */
+    static monthRange(month: string): { fromDate: string; toDate: string } {
+        const [year, mon] = month.split('-').map(Number) as [number, number];
+        const lastDay = new Date(year, mon, 0).getDate();
+        return { fromDate: `${month}-01`, toDate: `${month}-${String(lastDay).padStart(2, '0')}` };
+    }
+
+    // ── Sheets ──
+
+    private static historySheet(history: HistoryItem[], categories: BudgetCategory[], range: Pick<ExportOptions, 'fromDate' | 'toDate'>): Worksheet {
+        const rows = history
+            .map(item => ({ item, date: this.historyDate(item) }))
+            .filter(({ date }) => this.inRange(date, range))
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(({ item, date }): CellValue[] => [
+                date,
+                item.name,
+                item.paidAmount,
+                item.amount,
+                item.paidMethod,
+                item.originalDueDate,
+                item.hasBalance ? item.balance ?? 0 : null,
+                item.isRecurring ? 'Yes' : 'No',
+                BudgetCategories.resolve(categories, item.categoryId).name,
+                BudgetCategories.formatTags(item.tags),
+            ]);
+
+        return {
+            name: EXPORT_DATASET_LABELS.history,
+            columns: ['Paid Date', 'Bill', 'Amount Paid', 'Amount Due', 'Payment Method', 'Due Date', 'Balance After', 'Recurring', 'Category', 'Tags'],
+            rows,
+            currencyColumns: [2, 3, 6],
+        };
+    }
+
+    private static billsSheet(source: ExportSource, range: Pick<ExportOptions, 'fromDate' | 'toDate'>): Worksheet {
+        const rows = this.billsDue(source, range)
+            .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+            .map((bill): CellValue[] => [
+                bill.dueDate,
+                bill.name,
+                bill.amount,
+                bill.isPaid ? 'Paid' : PaymentUtils.isPartiallyPaid(bill) ? 'Partially Paid' : 'Unpaid',
+                PaymentUtils.amountPaid(bill) > 0 ? PaymentUtils.amountPaid(bill) : null,
+                PaymentUtils.amountPaid(bill) > 0 && bill.paidDate ? this.localDay(bill.paidDate) : null,
+                PaymentUtils.amountPaid(bill) > 0 ? bill.paidMethod : null,
+                bill.isRecurring ? 'Yes' : 'No',
+                bill.note,
+                BudgetCategories.resolve(source.categories ?? [], bill.categoryId).name,
+                BudgetCategories.formatTags(bill.tags),
+            ]);
+
+        return {
+            name: EXPORT_DATASET_LABELS.bills,
+            columns: ['Due Date', 'Bill', 'Amount', 'Status', 'Amount Paid', 'Paid Date', 'Payment Method', 'Recurring', 'Note', 'Category', 'Tags'],
+            rows,
+            currencyColumns: [2, 4],
+        };
+    }
+
+    private static debtsSheet(source: ExportSource): Worksheet {
+        const rows = source.bills
+            .filter(bill => bill.hasBalance || bill.isCreditAccount)
+            .map((bill): CellValue[] => {
+                const balance = bill.balance ?? 0;
+                const payoff = bill.monthlyPayment && balance > 0
+                    ? RateSchedule.projectPayoff(bill)
+                    : null;
+                const neverPaidOff = payoff !== null && !isFinite(payoff.monthsToPayoff);
+                return [
+                    bill.name,
+                    bill.isCreditAccount ? 'Credit Card' : 'Loan',
+                    balance,
+                    bill.monthlyPayment,
+                    bill.interestRate,
+                    payoff ? (neverPaidOff ? 'Never' : payoff.monthsToPayoff) : null,
+                    payoff && !neverPaidOff ? payoff.totalInterestPaid : null,
+                ];
+            });
+
+        return {
+            name: EXPORT_DATASET_LABELS.debts,
+            columns: ['Account', 'Type', 'Balance', 'Monthly Payment', 'APR %', 'Months to Payoff', 'Projected Interest'],
+            rows,
+            currencyColumns: [2, 3, 6],
+        };
+    }
+
+    // ── Helpers ──
+
+    static toCsv(sheet: Worksheet): string {
+        const escape = (value: CellValue) => {
+            if (value === null || value === undefined) return '';
+            const text = String(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        const lines = [sheet.columns, ...sheet.rows].map(row => row.map(escape).join(','));
+        // Byte order mark so Excel opens the file as UTF-8
+        return '\uFEFF' + lines.join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Bill rows due in the range, one per bill and month as the dashboard lists them.
+     * An open end of the range stops at the active month.
+     */
+    private static billsDue(source: ExportSource, range: Pick<ExportOptions, 'fromDate' | 'toDate'>): Bill[] {
+        const activeMonth = source.activeMonth ?? DateUtils.getCurrentMonth();
+        const firstMonth = range.fromDate ? DateUtils.getMonthFromDate(range.fromDate) : activeMonth;
+        const lastMonth = range.toDate ? DateUtils.getMonthFromDate(range.toDate) : activeMonth;
+        if (DateUtils.monthsBetween(firstMonth, lastMonth) >= MAX_BILL_MONTHS) {
+            throw new Error(`Bills can be exported for up to ${MAX_BILL_MONTHS / 12} years at a time — narrow the period.`);
+        }
+        const rows: Bill[] = [];
+        for (
+            let month = firstMonth;
+            DateUtils.compareMonths(month, lastMonth) <= 0;
+            month = DateUtils.addMonthsToMonth(month, 1)
+        ) {
+            for (const bill of source.bills) {
+                const row = PaymentUtils.forMonth(bill, month);
+                if (!row) continue;
+                const dueDate = row.dueDateRule
+                    ? DateUtils.applyDueDateRule(row.dueDate, row.dueDateRule, source.holidayCalendar ?? DEFAULT_HOLIDAY_CALENDAR)
+                    : row.dueDate;
+                if (this.inRange(dueDate, range)) rows.push({ ...row, dueDate });
+            }
+        }
+        return rows;
+    }
+
+    /** The day a history entry belongs to: when it was paid, else when it was due or archived */
+    private static historyDate(item: HistoryItem): string {
+        const date = item.paidDate || item.originalDueDate || item.archivedDate;
+        return date ? this.localDay(date) : '';
+    }
+
+    /** Payment timestamps are stored in UTC; the export shows the day they were made where the user is */
+    private static localDay(date: string): string {
+        return date.length > 10 ? DateUtils.toLocalDateString(new Date(date)) : date;
+    }
+
+    private static inRange(date: string, range: Pick<ExportOptions, 'fromDate' | 'toDate'>): boolean {
+        if (range.fromDate && (!date || date < range.fromDate)) return false;
+        if (range.toDate && (!date || date > range.toDate)) return false;
+        return true;
+    }
+
+    private static fileBaseName(source: ExportSource, options: ExportOptions): string {
+        const what = options.datasets.length === 1 ? options.datasets[0]! : 'budget';
+        const period = options.fromDate || options.toDate
+            ? `${options.fromDate ?? 'start'}_to_${options.toDate ?? 'today'}`
+            : source.activeMonth ?? DateUtils.getCurrentMonth();
+        return `honeycutt-${what}-${period}`;
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Versioned migration pipeline for stored BudgetData
+ * Shared by the renderer and the Electron BudgetDataService — keep this file free of DOM and Node APIs
+ */
+
+import type { BudgetData } from '../types';
+
+type StoredDocument = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is StoredDocument =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface BudgetMigration {
+    /** Version the data is at after this migration runs; it upgrades from version - 1 */
+    version: number;
+    description: string;
+    /** Receives the document as stored; anything it doesn't recognise is passed through for validation to report */
+    migrate: (data: StoredDocument) => StoredDocument;
+}
+
+/**
+ * Ordered registry of migrations. Append new entries with the next version number;
+ * never edit or reorder one that has shipped.
+ */
+export const BUDGET_MIGRATIONS: readonly BudgetMigration[] = [
+    {
+        version: 1,
+        description: 'Fill in bill flags missing from unversioned data',
+        migrate: (data) => ({
+            ...data,
+            bills: Array.isArray(data.bills)
+                ? data.bills.map((b: unknown) => isPlainObject(b) ? {
+                    ...b,
+                    isRecurring: b.isRecurring ?? (b.frequency !== 'one-time'),
+                    frequency: b.frequency ?? 'monthly',
+                    isPaid: b.isPaid ?? false,
+                    hasBalance: b.hasBalance ?? false,
+                } : b)
+                : data.bills,
+        }),
+    },
+    {
+        version: 2,
+        description: 'Default missing top-level collections and settings',
+        migrate: (data) => ({
+            ...data,
+            bills: data.bills ?? [],
+            paidHistory: data.paidHistory ?? [],
+            payInfos: data.payInfos ?? [],
+            // Month-transition backups were written with an empty lastReset
+            lastReset: data.lastReset || new Date().toISOString(),
+            isFirstTime: data.isFirstTime ?? false,
+            theme: data.theme ?? 'dark',
+        }),
+    },
+];
+
+BUDGET_MIGRATIONS.forEach((m, i) => {
+    if (m.version !== i + 1) {
+        throw new Error(`Budget migration "${m.description}" is out of order (expected version ${i + 1}, got ${m.version})`);
+    }
+});
+
+export const CURRENT_BUDGET_VERSION = BUDGET_MIGRATIONS.length;
+
+/**
+ * Bring a stored document up to CURRENT_BUDGET_VERSION, running each pending migration in order
+ */
+export function migrateBudgetData(raw: unknown): BudgetData {
+    if (!isPlainObject(raw)) {
+        throw new Error('Budget data is not an object');
+    }
+
+    let data = raw;
+    const fromVersion = typeof data.version === 'number' ? data.version : 0;
+
+    if (fromVersion > CURRENT_BUDGET_VERSION) {
+        throw new Error(`Budget data was saved by a newer version of the app (data version ${fromVersion}, supported ${CURRENT_BUDGET_VERSION})`);
+    }
+
+    for (const migration of BUDGET_MIGRATIONS) {
+        if (migration.version <= fromVersion) continue;
+        data = { ...migration.migrate(data), version: migration.version };
+    }
+
+    // Only the shape the migrations produce is known here; validateBudgetData checks the fields
+    return data as unknown as BudgetData;
+}
@@ -0,0 +1,67 @@
+/**
+ * Named budget profiles: the profile index and per-profile storage naming
+ * Shared by the renderer and the Electron BudgetDataService — keep this file free of DOM and Node APIs
+ */
+
+import { validateProfileIndex } from './BudgetSchema';
+import type { BudgetProfile, ProfileIndex } from '../types';
+
+/** The profile that owns data written before profiles existed (budget-data.json) */
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_PROFILE_NAME = 'My Budget';
+
+// Profile ids end up in file names, so they are restricted to a safe alphabet
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export class BudgetProfiles {
+    /** Index for a fresh install, or for data saved before profiles existed */
+    static createIndex(): ProfileIndex {
+        return {
+            activeProfileId: DEFAULT_PROFILE_ID,
+            profiles: [{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: new Date().toISOString() }],
+        };
+    }
+
+    /**
+     * Validate a stored index and repair what can be repaired: unsafe or duplicate ids are dropped,
+     * an empty list falls back to the default profile, and a dangling active id points at the first profile.
+     */
+    static normalizeIndex(raw: unknown): ProfileIndex {
+        const index = validateProfileIndex(raw);
+        const seen = new Set<string>();
+        const profiles = index.profiles.filter(p => {
+            if (!this.isValidId(p.id) || seen.has(p.id)) return false;
+            seen.add(p.id);
+            return true;
+        });
+
+        if (profiles.length === 0) return this.createIndex();
+        const activeProfileId = seen.has(index.activeProfileId) ? index.activeProfileId : profiles[0]!.id;
+        return { activeProfileId, profiles };
+    }
+
+    static createProfile(name: string): BudgetProfile {
+        return { id: crypto.randomUUID(), name: name.trim(), createdAt: new Date().toISOString() };
+    }
+
+    static isValidId(id: string): boolean {
+        return PROFILE_ID_PATTERN.test(id);
+    }
+
+    /** "Household" → "Household (copy)", then "Household (copy 2)", … */
+    static copyName(index: ProfileIndex, name: string): string {
+        const taken = new Set(index.profiles.map(p => p.name.toLowerCase()));
+        let candidate = `${name} (copy)`;
+        for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+            candidate = `${name} (copy ${n})`;
+        }
+        return candidate;
+    }
+
+    /** localStorage key of a month-rollover backup slot; the default profile keeps the original keys */
+    static backupSlotKey(profileId: string, slot: number): string {
+        return profileId === DEFAULT_PROFILE_ID
+            ? `honeycutt_backup_slot_${slot}`
+            : `honeycutt_backup_${profileId}_slot_${slot}`;
+    }
+}
@@ -0,0 +1,413 @@
+/**
+ * Runtime schema for BudgetData and its nested records
+ * Shared by the renderer and the Electron BudgetDataService — keep this file free of DOM and Node APIs
+ */
+
+import type { AmountEstimate, AutopayRule, Bill, BillFrequency, BillPayment, BudgetCategory, BudgetData, BudgetProfile, CsvColumnMapping, CsvImportPreset, CustomHoliday, DebtPlan, DueDateRule, HistoryItem, HolidayCalendar, InstallmentLoan, LedgerEntry, MinimumPaymentFormula, PaidMonth, PayInfo, ProfileIndex, RatePeriod, RecurrenceRule, UtilizationSnapshot, UtilizationThresholds } from '../types';
+
+/**
+ * `fallback` repairs a required field that is missing or invalid instead of dropping its record —
+ * only for values where a default is safe, like an amount JSON turned from NaN into null.
+ */
+export type FieldSpec = { optional?: boolean; fallback?: number | boolean } & (
+    | { type: 'string' | 'number' | 'boolean' }
+    | { type: 'date' }      // YYYY-MM-DD, optionally followed by an ISO time component
+    | { type: 'month' }     // YYYY-MM
+    | { type: 'enum'; values: readonly string[] }
+    | { type: 'array'; items: FieldSpec }
+    | { type: 'record'; values: FieldSpec }
+    | { type: 'object'; fields: Record<string, FieldSpec> }
+);
+
+/** One spec per property — adding a field to an interface without describing it here is a type error */
+export type ObjectSchema<T> = { [K in keyof Required<T>]: FieldSpec };
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export class BudgetValidationError extends Error {
+    constructor(public issues: ValidationIssue[]) {
+        super(`Budget data failed validation:\n${formatValidationIssues(issues)}`);
+        this.name = 'BudgetValidationError';
+    }
+}
+
+const BILL_PAYMENT_SCHEMA: ObjectSchema<BillPayment> = {
+    id: { type: 'string' },
+    amount: { type: 'number', fallback: 0 },
+    method: { type: 'string' },
+    date: { type: 'date' },
+    auto: { type: 'boolean', optional: true },
+};
+
+const AUTOPAY_RULE_SCHEMA: ObjectSchema<AutopayRule> = {
+    method: { type: 'string' },
+    amount: { type: 'enum', values: ['statement', 'fixed', 'minimum'] },
+    fixedAmount: { type: 'number', optional: true },
+    skipMonth: { type: 'month', optional: true },
+};
+
+const PAID_MONTH_SCHEMA: ObjectSchema<PaidMonth> = {
+    paidAmount: { type: 'number', fallback: 0 },
+    paidMethod: { type: 'string' },
+    paidDate: { type: 'date' },
+    payments: { type: 'array', items: { type: 'object', fields: BILL_PAYMENT_SCHEMA }, optional: true },
+    partial: { type: 'boolean', optional: true },
+};
+
+const RATE_PERIOD_SCHEMA: ObjectSchema<RatePeriod> = {
+    id: { type: 'string' },
+    effectiveDate: { type: 'date' },
+    rate: { type: 'number' },
+    endDate: { type: 'date', optional: true },
+    label: { type: 'string', optional: true },
+};
+
+const MINIMUM_PAYMENT_SCHEMA: ObjectSchema<MinimumPaymentFormula> = {
+    percentOfBalance: { type: 'number' },
+    includeInterest: { type: 'boolean' },
+    floor: { type: 'number' },
+};
+
+const INSTALLMENT_LOAN_SCHEMA: ObjectSchema<InstallmentLoan> = {
+    principal: { type: 'number' },
+    termMonths: { type: 'number' },
+    startDate: { type: 'date' },
+    rate: { type: 'number' },
+    escrow: { type: 'number', optional: true },
+    fees: { type: 'number', optional: true },
+    extraPrincipal: { type: 'number', optional: true },
+    paymentsBefore: { type: 'number', optional: true },
+};
+
+const BILL_FREQUENCIES: readonly BillFrequency[] = [
+    'one-time', 'weekly', 'biweekly', 'monthly', 'every-n-months', 'quarterly', 'semiannual', 'annual', 'specific-months',
+];
+
+const RECURRENCE_RULE_SCHEMA: ObjectSchema<RecurrenceRule> = {
+    startDate: { type: 'date' },
+    interval: { type: 'number', optional: true },
+    months: { type: 'array', items: { type: 'number' }, optional: true },
+    endDate: { type: 'date', optional: true },
+    count: { type: 'number', optional: true },
+};
+
+const DUE_DATE_RULE_SCHEMA: ObjectSchema<DueDateRule> = {
+    kind: { type: 'enum', values: ['previous-business-day', 'next-business-day', 'last-business-day', 'nth-weekday'] },
+    week: { type: 'number', optional: true },
+    weekday: { type: 'number', optional: true },
+};
+
+const AMOUNT_ESTIMATE_SCHEMA: ObjectSchema<AmountEstimate> = {
+    method: { type: 'enum', values: ['average', 'last-year', 'max'] },
+    payments: { type: 'number', optional: true },
+};
+
+export const BILL_SCHEMA: ObjectSchema<Bill> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    amount: { type: 'number', fallback: 0 },
+    dueDate: { type: 'date' },
+    isPaid: { type: 'boolean', fallback: false },
+    hasBalance: { type: 'boolean', fallback: false },
+    balance: { type: 'number', optional: true },
+    monthlyPayment: { type: 'number', optional: true },
+    interestRate: { type: 'number', optional: true },
+    rateSchedule: { type: 'array', items: { type: 'object', fields: RATE_PERIOD_SCHEMA }, optional: true },
+    interestMethod: { type: 'enum', values: ['monthly', 'daily'], optional: true },
+    minimumPayment: { type: 'object', fields: MINIMUM_PAYMENT_SCHEMA, optional: true },
+    loan: { type: 'object', fields: INSTALLMENT_LOAN_SCHEMA, optional: true },
+    originalDueDay: { type: 'number', optional: true },
+    isCreditAccount: { type: 'boolean', optional: true },
+    creditLimit: { type: 'number', optional: true },
+    note: { type: 'string', optional: true },
+    isRecurring: { type: 'boolean' },
+    frequency: { type: 'enum', values: BILL_FREQUENCIES, optional: true },
+    recurrence: { type: 'object', fields: RECURRENCE_RULE_SCHEMA, optional: true },
+    dueDateRule: { type: 'object', fields: DUE_DATE_RULE_SCHEMA, optional: true },
+    estimate: { type: 'object', fields: AMOUNT_ESTIMATE_SCHEMA, optional: true },
+    autopay: { type: 'object', fields: AUTOPAY_RULE_SCHEMA, optional: true },
+    paidAmount: { type: 'number', optional: true },
+    paidMethod: { type: 'string', optional: true },
+    paidDate: { type: 'date', optional: true },
+    payments: { type: 'array', items: { type: 'object', fields: BILL_PAYMENT_SCHEMA }, optional: true },
+    paidMonths: { type: 'record', values: { type: 'object', fields: PAID_MONTH_SCHEMA }, optional: true },
+    matchKeywords: { type: 'array', items: { type: 'string' }, optional: true },
+    statementAccountId: { type: 'string', optional: true },
+    categoryId: { type: 'string', optional: true },
+    tags: { type: 'array', items: { type: 'string' }, optional: true },
+};
+
+export const HISTORY_ITEM_SCHEMA: ObjectSchema<HistoryItem> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    paidAmount: { type: 'number', fallback: 0 },
+    paidDate: { type: 'date', optional: true },
+    paidMethod: { type: 'string', optional: true },
+    archivedDate: { type: 'date', optional: true },
+    hasBalance: { type: 'boolean', optional: true },
+    balance: { type: 'number', optional: true },
+    isRecurring: { type: 'boolean', optional: true },
+    frequency: { type: 'enum', values: BILL_FREQUENCIES, optional: true },
+    occurrences: { type: 'number', optional: true },
+    part: { type: 'number', optional: true },
+    parts: { type: 'number', optional: true },
+    originalDueDate: { type: 'date', optional: true },
+    amount: { type: 'number', optional: true },
+    categoryId: { type: 'string', optional: true },
+    tags: { type: 'array', items: { type: 'string' }, optional: true },
+};
+
+export const PAY_INFO_SCHEMA: ObjectSchema<PayInfo> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    lastPayDate: { type: 'date' },
+    frequency: { type: 'enum', values: ['weekly', 'biweekly', 'semimonthly', 'monthly'] },
+};
+
+export const BUDGET_CATEGORY_SCHEMA: ObjectSchema<BudgetCategory> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    color: { type: 'string' },
+    target: { type: 'number', optional: true },
+    rollover: { type: 'boolean', optional: true },
+};
+
+const DEBT_PLAN_SCHEMA: ObjectSchema<DebtPlan> = {
+    monthlyBudget: { type: 'number', optional: true },
+    strategy: { type: 'enum', values: ['snowball', 'avalanche', 'custom'] },
+    customOrder: { type: 'array', items: { type: 'string' } },
+};
+
+const LEDGER_ENTRY_SCHEMA: ObjectSchema<LedgerEntry> = {
+    id: { type: 'string' },
+    billId: { type: 'string' },
+    date: { type: 'date' },
+    kind: { type: 'enum', values: ['payment', 'interest', 'charge', 'adjustment', 'edit'] },
+    amount: { type: 'number' },
+    balanceAfter: { type: 'number' },
+    note: { type: 'string', optional: true },
+    recordedAt: { type: 'date' },
+};
+
+const UTILIZATION_THRESHOLDS_SCHEMA: ObjectSchema<UtilizationThresholds> = {
+    warning: { type: 'number' },
+    high: { type: 'number' },
+};
+
+const UTILIZATION_CARD_SCHEMA: ObjectSchema<UtilizationSnapshot['cards'][number]> = {
+    billId: { type: 'string' },
+    balance: { type: 'number' },
+    limit: { type: 'number' },
+};
+
+const UTILIZATION_SNAPSHOT_SCHEMA: ObjectSchema<UtilizationSnapshot> = {
+    month: { type: 'month' },
+    cards: { type: 'array', items: { type: 'object', fields: UTILIZATION_CARD_SCHEMA } },
+};
+
+const CUSTOM_HOLIDAY_SCHEMA: ObjectSchema<CustomHoliday> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    date: { type: 'date' },
+    yearly: { type: 'boolean', optional: true },
+};
+
+const HOLIDAY_CALENDAR_SCHEMA: ObjectSchema<HolidayCalendar> = {
+    federal: { type: 'boolean' },
+    skippedFederal: { type: 'array', items: { type: 'string' }, optional: true },
+    custom: { type: 'array', items: { type: 'object', fields: CUSTOM_HOLIDAY_SCHEMA } },
+};
+
+const CSV_COLUMN_MAPPING_SCHEMA: ObjectSchema<CsvColumnMapping> = {
+    hasHeader: { type: 'boolean' },
+    dateColumn: { type: 'number' },
+    descriptionColumn: { type: 'number' },
+    amountColumn: { type: 'number' },
+    dateFormat: { type: 'enum', values: ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'] },
+    paymentsAreNegative: { type: 'boolean' },
+};
+
+export const CSV_IMPORT_PRESET_SCHEMA: ObjectSchema<CsvImportPreset> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    mapping: { type: 'object', fields: CSV_COLUMN_MAPPING_SCHEMA },
+};
+
+export const BUDGET_DATA_SCHEMA: ObjectSchema<BudgetData> = {
+    version: { type: 'number', optional: true },
+    bills: { type: 'array', items: { type: 'object', fields: BILL_SCHEMA } },
+    paidHistory: { type: 'array', items: { type: 'object', fields: HISTORY_ITEM_SCHEMA } },
+    lastReset: { type: 'string' },
+    isFirstTime: { type: 'boolean' },
+    theme: { type: 'enum', values: ['dark', 'light'] },
+    payInfos: { type: 'array', items: { type: 'object', fields: PAY_INFO_SCHEMA }, optional: true },
+    activeMonth: { type: 'month', optional: true },
+    importPresets: { type: 'array', items: { type: 'object', fields: CSV_IMPORT_PRESET_SCHEMA }, optional: true },
+    paymentMethods: { type: 'array', items: { type: 'string' }, optional: true },
+    categories: { type: 'array', items: { type: 'object', fields: BUDGET_CATEGORY_SCHEMA }, optional: true },
+    categoryRollovers: { type: 'record', values: { type: 'record', values: { type: 'number' } }, optional: true },
+    debtPlan: { type: 'object', fields: DEBT_PLAN_SCHEMA, optional: true },
+    balanceLedger: { type: 'array', items: { type: 'object', fields: LEDGER_ENTRY_SCHEMA }, optional: true },
+    utilizationThresholds: { type: 'object', fields: UTILIZATION_THRESHOLDS_SCHEMA, optional: true },
+    utilizationHistory: { type: 'array', items: { type: 'object', fields: UTILIZATION_SNAPSHOT_SCHEMA }, optional: true },
+    holidayCalendar: { type: 'object', fields: HOLIDAY_CALENDAR_SCHEMA, optional: true },
+};
+
+export const BUDGET_PROFILE_SCHEMA: ObjectSchema<BudgetProfile> = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    createdAt: { type: 'date' },
+};
+
+export const PROFILE_INDEX_SCHEMA: ObjectSchema<ProfileIndex> = {
+    activeProfileId: { type: 'string' },
+    profiles: { type: 'array', items: { type: 'object', fields: BUDGET_PROFILE_SCHEMA } },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T.*)?$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a value against a spec. Returns the cleaned value, or undefined when it is invalid.
+ * Invalid optional fields are dropped and invalid array/record entries are skipped,
+ * so one bad record doesn't take the rest of the budget down with it.
+ */
+function validateValue(spec: FieldSpec, value: unknown, path: string, issues: ValidationIssue[]): unknown {
+    const fail = (message: string) => {
+        issues.push({ path, message });
+        return undefined;
+    };
+
+    switch (spec.type) {
+        case 'string':
+            return typeof value === 'string' ? value : fail('expected text');
+        case 'number':
+            return typeof value === 'number' && isFinite(value) ? value : fail('expected a number');
+        case 'boolean':
+            return typeof value === 'boolean' ? value : fail('expected true or false');
+        case 'date':
+            return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value.slice(0, 10)))
+                ? value
+                : fail('expected a date (YYYY-MM-DD)');
+        case 'month':
+            return typeof value === 'string' && MONTH_PATTERN.test(value) ? value : fail('expected a month (YYYY-MM)');
+        case 'enum':
+            return typeof value === 'string' && spec.values.includes(value)
+                ? value
+                : fail(`expected one of: ${spec.values.join(', ')}`);
+        case 'array': {
+            if (!Array.isArray(value)) return fail('expected a list');
+            const result: unknown[] = [];
+            value.forEach((item, i) => {
+                const cleaned = validateValue(spec.items, item, `${path}[${i}]${describeItem(item)}`, issues);
+                if (cleaned !== undefined) result.push(cleaned);
+            });
+            return result;
+        }
+        case 'record': {
+            if (!isPlainObject(value)) return fail('expected an object');
+            const result: Record<string, unknown> = {};
+            for (const [key, entry] of Object.entries(value)) {
+                const cleaned = validateValue(spec.values, entry, `${path}.${key}`, issues);
+                if (cleaned !== undefined) result[key] = cleaned;
+            }
+            return result;
+        }
+        case 'object':
+            return validateObject(spec.fields, value, path, issues);
+    }
+}
+
+function validateObject(schema: Record<string, FieldSpec>, value: unknown, path: string, issues: ValidationIssue[]): unknown {
+    if (!isPlainObject(value)) {
+        issues.push({ path, message: 'expected an object' });
+        return undefined;
+    }
+
+    // Unknown keys are kept so data written by a newer build survives a round trip
+    const result: Record<string, unknown> = { ...value };
+    let valid = true;
+
+    for (const [key, spec] of Object.entries(schema)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const raw = value[key];
+
+        // JSON turns NaN and undefined into null; treat both as "not set"
+        if ((raw === undefined || raw === null) && spec.fallback !== undefined) {
+            issues.push({ path: fieldPath, message: `was missing, set to ${spec.fallback}` });
+            result[key] = spec.fallback;
+            continue;
+        }
+        if (raw === undefined || raw === null) {
+            delete result[key];
+            if (!spec.optional) {
+                issues.push({ path: fieldPath, message: 'is required' });
+                valid = false;
+            }
+            continue;
+        }
+
+        const fieldIssues: ValidationIssue[] = [];
+        const cleaned = validateValue(spec, raw, fieldPath, fieldIssues);
+        if (cleaned === undefined && spec.fallback !== undefined) {
+            issues.push({ path: fieldPath, message: `${fieldIssues[0]?.message ?? 'was invalid'}, set to ${spec.fallback}` });
+            result[key] = spec.fallback;
+            continue;
+        }
+        issues.push(...fieldIssues);
+        if (cleaned === undefined) {
+            delete result[key];
+            if (!spec.optional) valid = false;
+        } else {
+            result[key] = cleaned;
+        }
+    }
+
+    return valid ? result : undefined;
+}
+
+/** Label array entries with their name so issues read "bills[3] (Electric).amount" */
+function describeItem(item: unknown): string {
+    return isPlainObject(item) && typeof item.name === 'string' && item.name ? ` (${item.name})` : '';
+}
+
+/**
+ * Validate a (migrated) budget document.
+ * Throws BudgetValidationError when the document itself is unusable; otherwise returns
+ * the cleaned data along with every field that had to be dropped.
+ */
+export function validateBudgetData(raw: unknown): { data: BudgetData; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = [];
+    const data = validateObject(BUDGET_DATA_SCHEMA, raw, '', issues);
+    if (data === undefined) {
+        throw new BudgetValidationError(issues);
+    }
+    return { data: data as BudgetData, issues };
+}
+
+/**
+ * Validate a stored profile index. Throws BudgetValidationError when it is unusable;
+ * invalid profile entries are dropped.
+ */
+export function validateProfileIndex(raw: unknown): ProfileIndex {
+    const issues: ValidationIssue[] = [];
+    const index = validateObject(PROFILE_INDEX_SCHEMA, raw, '', issues);
+    if (index === undefined) {
+        throw new BudgetValidationError(issues);
+    }
+    return index as ProfileIndex;
+}
+
+export function formatValidationIssues(issues: ValidationIssue[], limit = 10): string {
+    const lines = issues.slice(0, limit).map(issue => `• ${issue.path}: ${issue.message}`);
+    if (issues.length > limit) {
+        lines.push(`• …and ${issues.length - limit} more`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,141 @@
+/**
+ * Storage adapters for persisting BudgetData
+ * Electron builds persist one JSON file per profile through IPC; the web build uses localStorage
+ */
+
+import { BudgetProfiles, DEFAULT_PROFILE_ID } from './BudgetProfiles';
+import type { BudgetData, ProfileIndex } from '../types';
+
+export const STORAGE_KEY = 'honeycutt_budget_data';
+export const PROFILES_KEY = 'honeycutt_profiles';
+
+// Where the pre-migration localStorage copy is parked once it has been moved into the file
+const MIGRATED_KEY = STORAGE_KEY + '_migrated';
+
+export interface BudgetStorageAdapter {
+    /** Human-readable name of the backing store, used in log messages */
+    readonly kind: 'file' | 'localStorage';
+    /** Returns the raw stored profile index, or null when profiles have never been saved */
+    loadProfiles(): Promise<unknown | null>;
+    saveProfiles(index: ProfileIndex): Promise<void>;
+    /** Returns the raw stored document, or null when nothing has been saved yet */
+    load(profileId: string): Promise<BudgetData | null>;
+    save(profileId: string, data: BudgetData): Promise<void>;
+    /** Remove the profile's document and its backups, for deleting a profile or resetting the app */
+    remove(profileId: string): Promise<void>;
+}
+
+/** The default profile keeps the key used before profiles existed */
+const budgetKey = (profileId: string) =>
+    profileId === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}.${profileId}`;
+
+class LocalStorageAdapter implements BudgetStorageAdapter {
+    readonly kind = 'localStorage' as const;
+
+    async loadProfiles(): Promise<unknown | null> {
+        const saved = localStorage.getItem(PROFILES_KEY);
+        return saved ? JSON.parse(saved) : null;
+    }
+
+    async saveProfiles(index: ProfileIndex): Promise<void> {
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(index));
+    }
+
+    async load(profileId: string): Promise<BudgetData | null> {
+        const saved = localStorage.getItem(budgetKey(profileId));
+        return saved ? JSON.parse(saved) : null;
+    }
+
+    async save(profileId: string, data: BudgetData): Promise<void> {
+        const key = budgetKey(profileId);
+        // Keep a copy of the previous document before overwriting
+        const current = localStorage.getItem(key);
+        if (current) {
+            localStorage.setItem(key + '_backup', current);
+        }
+        localStorage.setItem(key, JSON.stringify(data));
+    }
+
+    async remove(profileId: string): Promise<void> {
+        const key = budgetKey(profileId);
+        localStorage.removeItem(key);
+        localStorage.removeItem(key + '_backup');
+    }
+}
+
+type ElectronBudgetAPI = NonNullable<NonNullable<Window['electronAPI']>['budget']>;
+
+class ElectronFileAdapter implements BudgetStorageAdapter {
+    readonly kind = 'file' as const;
+
+    // Saves are chained so two quick edits can never reach the file out of order
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private api: ElectronBudgetAPI) {}
+
+    loadProfiles(): Promise<unknown | null> {
+        return this.api.loadProfiles();
+    }
+
+    saveProfiles(index: ProfileIndex): Promise<void> {
+        return this.enqueue(() => this.api.saveProfiles(index));
+    }
+
+    async load(profileId: string): Promise<BudgetData | null> {
+        const data = await this.api.load(profileId);
+        if (data) return data;
+        return profileId === DEFAULT_PROFILE_ID ? this.migrateFromLocalStorage() : null;
+    }
+
+    save(profileId: string, data: BudgetData): Promise<void> {
+        return this.enqueue(() => this.api.save(profileId, data));
+    }
+
+    async remove(profileId: string): Promise<void> {
+        await this.pending;
+        await this.api.remove(profileId);
+    }
+
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        const next = this.pending.then(write);
+        this.pending = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * First launch after switching to file storage: copy any data the app
+     * previously kept in localStorage into budget-data.json
+     */
+    private async migrateFromLocalStorage(): Promise<BudgetData | null> {
+        const legacy = localStorage.getItem(STORAGE_KEY);
+        if (!legacy) return null;
+
+        const parsed = JSON.parse(legacy);
+        await this.save(DEFAULT_PROFILE_ID, parsed);
+
+        localStorage.setItem(MIGRATED_KEY, legacy);
+        localStorage.removeItem(STORAGE_KEY);
+        console.info('Migrated budget data from localStorage to budget-data.json');
+        return parsed;
+    }
+}
+
+/**
+ * Pick the storage backend for the current runtime
+ */
+export function createBudgetStorage(): BudgetStorageAdapter {
+    const api = window.electronAPI?.budget;
+    return api ? new ElectronFileAdapter(api) : new LocalStorageAdapter();
+}
+
+/**
+ * Read the profile index, creating one for the data that existed before profiles did
+ */
+export async function loadProfileIndex(storage: BudgetStorageAdapter): Promise<ProfileIndex> {
+    const raw = await storage.loadProfiles();
+    if (raw) return BudgetProfiles.normalizeIndex(raw);
+
+    const index = BudgetProfiles.createIndex();
+    await storage.saveProfiles(index);
+    return index;
+}
@@ -4,6 +4,7 @@
  */
 
 import { DateUtils } from './DateUtils';
+import type { InterestMethod, MinimumPaymentFormula } from '../types';
 
 export interface PayoffProjection {
     monthsToPayoff: number;
@@ -18,10 +19,29 @@ export interface PayoffProjection {
     }>;
 }
 
-export interface PayoffComparison {
-    current: PayoffProjection;
-    slightlyMore: PayoffProjection; // +20%
-    aggressive: PayoffProjection;   // +50% (1.5x)
+export interface PayoffOptions {
+    rateForMonth?: (month: number) => number; // Rate schedule: annual rate for each month (1 = first), overriding the flat rate
+    interestMethod?: InterestMethod;
+}
+
+const DAYS_PER_YEAR = 365;
+
+// Projections stop here; a debt still owing after 50 years counts as never paid off
+const MAX_PAYOFF_MONTHS = 600;
+
+const NEVER_PAID_OFF: PayoffProjection = {
+    monthsToPayoff: Infinity,
+    totalInterestPaid: Infinity,
+    totalAmountPaid: Infinity,
+    monthlyBreakdown: [],
+};
+
+/** A what-if payment measured against the payment the user makes today */
+export interface PayoffScenario {
+    payment: number;
+    projection: PayoffProjection;
+    monthsSaved: number; // Infinity when the current payment never pays the debt off
+    interestSaved: number;
 }
 
 export class CalculationEngine {
@@ -55,12 +75,14 @@ export class CalculationEngine {
      * @param balance - Current outstanding balance
      * @param monthlyPayment - Monthly payment amount
      * @param annualInterestRate - Annual interest rate (e.g., 0.18 for 18%)
+     * @param options - Rate schedule and interest method, for cards with promos or daily interest
      * @returns Complete payoff projection with breakdown
      */
     static calculatePayoff(
         balance: number,
         monthlyPayment: number,
-        annualInterestRate: number = 0
+        annualInterestRate: number = 0,
+        options: PayoffOptions = {}
     ): PayoffProjection {
         // Safely parse all inputs
         balance = this.parseAmount(balance);
@@ -78,13 +100,8 @@ export class CalculationEngine {
 
         if (monthlyPayment <= 0) {
             // With no payment but positive interest, debt never pays off
-            if (annualInterestRate > 0) {
-                return {
-                    monthsToPayoff: Infinity,
-                    totalInterestPaid: Infinity,
-                    totalAmountPaid: Infinity,
-                    monthlyBreakdown: [],
-                };
+            if (annualInterestRate > 0 || options.rateForMonth) {
+                return NEVER_PAID_OFF;
             }
             return {
                 monthsToPayoff: 0,
@@ -95,37 +112,120 @@ export class CalculationEngine {
         }
 
         // Work in cents to avoid floating-point precision errors
-        const monthlyRate = annualInterestRate / 12;
+        const paymentCents = this.toCents(monthlyPayment);
+
+        // Detect negative amortization: if payment can't cover monthly interest, debt grows forever.
+        // A schedule can start at a promo rate, so it is only caught by the month limit below.
+        if (annualInterestRate > 0 && !options.rateForMonth) {
+            const firstMonthInterestCents = this.calculateMonthlyInterestCents(
+                this.toCents(balance), annualInterestRate, options.interestMethod
+            );
+            if (paymentCents <= firstMonthInterestCents) {
+                return NEVER_PAID_OFF;
+            }
+        }
+
+        const { projection, remainingCents } = this.amortize(balance, annualInterestRate, options, () => paymentCents);
+        return options.rateForMonth && remainingCents > 0 ? NEVER_PAID_OFF : projection;
+    }
+
+    /**
+     * Project paying only the card's minimum each month. The minimum shrinks with the balance,
+     * which is what makes this path so slow and expensive.
+     */
+    static calculateMinimumPayoff(
+        balance: number,
+        formula: MinimumPaymentFormula,
+        annualInterestRate: number = 0,
+        options: PayoffOptions = {}
+    ): PayoffProjection {
+        balance = this.parseAmount(balance);
+        annualInterestRate = this.parseAmount(annualInterestRate);
+
+        if (balance <= 0) {
+            return {
+                monthsToPayoff: 0,
+                totalInterestPaid: 0,
+                totalAmountPaid: 0,
+                monthlyBreakdown: [],
+            };
+        }
+
+        const { projection, remainingCents } = this.amortize(
+            balance,
+            annualInterestRate,
+            options,
+            (balanceCents, interestCents) => this.minimumPaymentCents(balanceCents, interestCents, formula)
+        );
+        return remainingCents > 0 ? NEVER_PAID_OFF : projection;
+    }
+
+    /**
+     * The minimum due on a statement: a percentage of the balance (plus the month's interest,
+     * if the formula says so), never below the floor and never more than the balance owed
+     */
+    static calculateMinimumPayment(balance: number, formula: MinimumPaymentFormula, annualInterestRate: number = 0, interestMethod?: InterestMethod): number {
+        const balanceCents = this.toCents(this.parseAmount(balance));
+        const interestCents = this.calculateMonthlyInterestCents(balanceCents, this.parseAmount(annualInterestRate), interestMethod);
+        return this.toDollars(this.minimumPaymentCents(balanceCents, interestCents, formula));
+    }
+
+    /**
+     * One month of interest in cents.
+     * 'monthly' charges APR / 12 on the balance. 'daily' compounds APR / 365 every day of the cycle —
+     * what an average-daily-balance card charges when the balance is carried through the month.
+     * @param days - Days in the billing cycle; defaults to an average month
+     */
+    static calculateMonthlyInterestCents(
+        balanceCents: number,
+        annualInterestRate: number,
+        method: InterestMethod = 'monthly',
+        days: number = DAYS_PER_YEAR / 12
+    ): number {
+        if (balanceCents <= 0 || annualInterestRate <= 0) return 0;
+        if (method === 'daily') {
+            return Math.round(balanceCents * (Math.pow(1 + annualInterestRate / DAYS_PER_YEAR, days) - 1));
+        }
+        return Math.round(balanceCents * (annualInterestRate / 12));
+    }
+
+    private static minimumPaymentCents(balanceCents: number, interestCents: number, formula: MinimumPaymentFormula): number {
+        const statementCents = balanceCents + interestCents;
+        // The percentage is of the balance alone; the interest is only added when the formula includes it
+        const percentCents = Math.round(balanceCents * (this.parseAmount(formula.percentOfBalance) / 100));
+        const minimumCents = Math.max(
+            this.toCents(this.parseAmount(formula.floor)),
+            percentCents + (formula.includeInterest ? interestCents : 0)
+        );
+        return Math.min(minimumCents, statementCents);
+    }
+
+    /**
+     * Shared month-by-month loop: interest accrues, then the month's payment is applied
+     * @param paymentFor - Payment in cents, given the balance and interest of the month
+     */
+    private static amortize(
+        balance: number,
+        annualInterestRate: number,
+        options: PayoffOptions,
+        paymentFor: (balanceCents: number, interestCents: number) => number
+    ): { projection: PayoffProjection; remainingCents: number } {
         let remainingCents = this.toCents(balance);
         let totalInterestCents = 0;
         let month = 0;
         const breakdown: PayoffProjection['monthlyBreakdown'] = [];
 
-        // Detect negative amortization: if payment can't cover monthly interest, debt grows forever
-        if (monthlyRate > 0) {
-            const firstMonthInterestCents = Math.round(remainingCents * monthlyRate);
-            if (this.toCents(monthlyPayment) <= firstMonthInterestCents) {
-                return {
-                    monthsToPayoff: Infinity,
-                    totalInterestPaid: Infinity,
-                    totalAmountPaid: Infinity,
-                    monthlyBreakdown: [],
-                };
-            }
-        }
-
         // Safety limit to prevent infinite loops
-        const maxMonths = 600; // 50 years max
-
-        while (remainingCents > 0 && month < maxMonths) {
+        while (remainingCents > 0 && month < MAX_PAYOFF_MONTHS) {
             month++;
 
             // Calculate interest in cents
-            const interestCents = Math.round(remainingCents * monthlyRate);
+            const rate = options.rateForMonth ? this.parseAmount(options.rateForMonth(month)) : annualInterestRate;
+            const interestCents = this.calculateMonthlyInterestCents(remainingCents, rate, options.interestMethod);
 
             // Determine actual payment (might be less than monthly if final payment)
             const totalPaymentNeededCents = remainingCents + interestCents;
-            const actualPaymentCents = Math.min(this.toCents(monthlyPayment), totalPaymentNeededCents);
+            const actualPaymentCents = Math.min(paymentFor(remainingCents, interestCents), totalPaymentNeededCents);
 
             // Calculate principal portion in cents
             const principalCents = actualPaymentCents - interestCents;
@@ -152,34 +252,96 @@ export class CalculationEngine {
         const initialBalanceCents = this.toCents(balance);
 
         return {
-            monthsToPayoff: month,
-            totalInterestPaid: this.toDollars(totalInterestCents),
-            totalAmountPaid: this.toDollars(initialBalanceCents + totalInterestCents),
-            monthlyBreakdown: breakdown,
+            projection: {
+                monthsToPayoff: month,
+                totalInterestPaid: this.toDollars(totalInterestCents),
+                totalAmountPaid: this.toDollars(initialBalanceCents + totalInterestCents),
+                monthlyBreakdown: breakdown,
+            },
+            remainingCents,
         };
     }
 
-    static calculatePayoffComparison(
+    /**
+     * Project any payment amount and compare it with the current payment
+     */
+    static calculateScenario(
         balance: number,
         currentPayment: number,
-        interestRate: number = 0
-    ): PayoffComparison {
-        const slightlyMorePayment = currentPayment * 1.2; // +20%
-        const aggressivePayment = currentPayment * 1.5;   // +50%
+        scenarioPayment: number,
+        interestRate: number = 0,
+        options: PayoffOptions = {}
+    ): PayoffScenario {
+        const current = this.calculatePayoff(balance, currentPayment, interestRate, options);
+        const projection = this.calculatePayoff(balance, scenarioPayment, interestRate, options);
 
         return {
-            current: this.calculatePayoff(balance, currentPayment, interestRate),
-            slightlyMore: this.calculatePayoff(balance, slightlyMorePayment, interestRate),
-            aggressive: this.calculatePayoff(balance, aggressivePayment, interestRate),
+            payment: this.roundCurrency(this.parseAmount(scenarioPayment)),
+            projection,
+            monthsSaved: current.monthsToPayoff - projection.monthsToPayoff,
+            interestSaved: isFinite(current.totalInterestPaid)
+                ? this.roundCurrency(current.totalInterestPaid - projection.totalInterestPaid)
+                : Infinity,
         };
     }
 
     /**
-     * Calculate total amount due for bills
+     * Smallest payment that pays the balance down at all (covers the first month's interest plus a cent)
+     */
+    static minimumViablePayment(balance: number, annualInterestRate: number = 0, interestMethod?: InterestMethod): number {
+        const balanceCents = this.toCents(this.parseAmount(balance));
+        if (balanceCents <= 0) return 0;
+        const interestCents = this.calculateMonthlyInterestCents(balanceCents, this.parseAmount(annualInterestRate), interestMethod);
+        return this.toDollars(interestCents + 1);
+    }
+
+    /**
+     * Smallest payment that ever pays the balance off, following the rate schedule and interest method in `options`
+     * — unlike minimumViablePayment, which only looks at the first month's interest
+     */
+    static minimumPayoffPayment(balance: number, annualInterestRate: number = 0, options: PayoffOptions = {}): number {
+        return this.solvePaymentForMonths(balance, MAX_PAYOFF_MONTHS, annualInterestRate, options) ?? 0;
+    }
+
+    /**
+     * Goal solver: the smallest monthly payment that pays the balance off within the given months.
+     * Binary-searches whole cents against calculatePayoff, so the answer matches its projections exactly.
+     * Returns null when the goal is less than one month away.
+     */
+    static solvePaymentForMonths(
+        balance: number,
+        months: number,
+        annualInterestRate: number = 0,
+        options: PayoffOptions = {}
+    ): number | null {
+        balance = this.parseAmount(balance);
+        if (balance <= 0) return 0;
+        if (!(months >= 1)) return null;
+
+        // One payment of balance + interest always finishes in the first month
+        const firstMonthRate = options.rateForMonth ? options.rateForMonth(1) : annualInterestRate;
+        let low = options.rateForMonth ? 1 : this.toCents(this.minimumViablePayment(balance, annualInterestRate, options.interestMethod));
+        let high = this.toCents(balance)
+            + this.calculateMonthlyInterestCents(this.toCents(balance), this.parseAmount(firstMonthRate), options.interestMethod);
+
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            if (this.calculatePayoff(balance, this.toDollars(mid), annualInterestRate, options).monthsToPayoff <= months) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        return this.toDollars(low);
+    }
+
+    /**
+     * Calculate total amount due for bills, less what partially paid bills have had paid already
      */
-    static calculateTotalDue(bills: Array<{ amount: number; isPaid: boolean }>): number {
+    static calculateTotalDue(bills: Array<{ amount: number; isPaid: boolean; paidAmount?: number }>): number {
         return this.roundCurrency(
-            bills.filter(b => !b.isPaid).reduce((sum, bill) => sum + (isNaN(bill.amount) ? 0 : bill.amount), 0)
+            bills.filter(b => !b.isPaid).reduce((sum, bill) => sum + (isNaN(bill.amount) ? 0 : this.amountLeft(bill)), 0)
         );
     }
 
@@ -187,17 +349,21 @@ export class CalculationEngine {
      * Calculate bills due within specified days
      */
     static calculateDueWithinDays(
-        bills: Array<{ amount: number; dueDate: string; isPaid: boolean }>,
+        bills: Array<{ amount: number; dueDate: string; isPaid: boolean; paidAmount?: number }>,
         days: number
     ): number {
         return this.roundCurrency(
             bills
                 .filter(b => !b.isPaid)
                 .filter(b => DateUtils.isWithinDays(b.dueDate, days))
-                .reduce((sum, bill) => sum + bill.amount, 0)
+                .reduce((sum, bill) => sum + this.amountLeft(bill), 0)
         );
     }
 
+    private static amountLeft(bill: { amount: number; paidAmount?: number }): number {
+        return Math.max(0, bill.amount - (bill.paidAmount || 0));
+    }
+
     /**
      * Format currency for display
      */
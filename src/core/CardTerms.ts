@@ -0,0 +1,46 @@
+/**
+ * Credit card terms: statement minimums and the "minimum payments only" projection
+ */
+
+import { CalculationEngine, PayoffProjection } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import { RateSchedule } from './RateSchedule';
+import type { Bill, MinimumPaymentFormula } from '../types';
+
+/** A common issuer formula: 1% of the balance plus interest, at least $25 */
+export const DEFAULT_MINIMUM_PAYMENT: MinimumPaymentFormula = {
+    percentOfBalance: 1,
+    includeInterest: true,
+    floor: 25,
+};
+
+export class CardTerms {
+    static formula(bill: Bill): MinimumPaymentFormula {
+        return bill.minimumPayment ?? DEFAULT_MINIMUM_PAYMENT;
+    }
+
+    /** Minimum due on the next statement at the rate in effect this month */
+    static minimumDue(bill: Bill, month: string = DateUtils.getCurrentMonth()): number {
+        return CalculationEngine.calculateMinimumPayment(
+            bill.balance ?? 0,
+            this.formula(bill),
+            RateSchedule.rateForMonth(bill, month) / 100,
+            bill.interestMethod
+        );
+    }
+
+    /** Payoff if only the statement minimum is ever paid */
+    static projectMinimumOnly(bill: Bill, startMonth?: string): PayoffProjection {
+        return CalculationEngine.calculateMinimumPayoff(
+            bill.balance ?? 0,
+            this.formula(bill),
+            (bill.interestRate || 0) / 100,
+            RateSchedule.payoffOptions(bill, startMonth)
+        );
+    }
+
+    static describe(formula: MinimumPaymentFormula): string {
+        const base = `${formula.percentOfBalance}% of balance${formula.includeInterest ? ' + interest' : ''}`;
+        return formula.floor > 0 ? `${base}, at least ${CalculationEngine.formatCurrency(formula.floor)}` : base;
+    }
+}
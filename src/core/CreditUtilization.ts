@@ -0,0 +1,85 @@
+/**
+ * Credit utilization: card balances against their limits, per card and overall
+ * Cards without a credit limit are left out of every figure.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import type { Bill, UtilizationSnapshot, UtilizationThresholds } from '../types';
+
+export type UtilizationLevel = 'ok' | 'warning' | 'high';
+
+export interface CardUtilization {
+    billId: string;
+    name: string;
+    balance: number;
+    limit: number;
+    percent: number;
+    level: UtilizationLevel;
+}
+
+export interface UtilizationSummary {
+    cards: CardUtilization[];
+    balance: number;
+    limit: number;
+    percent: number | null; // Null when no card has a limit
+    level: UtilizationLevel;
+}
+
+/** The common guidance: under 30% is good, over 50% hurts */
+export const DEFAULT_UTILIZATION_THRESHOLDS: UtilizationThresholds = {
+    warning: 30,
+    high: 50,
+};
+
+export class CreditUtilization {
+    /** Balance as a percentage of the limit, one decimal place */
+    static percent(balance: number, limit: number): number {
+        if (limit <= 0) return 0;
+        return Math.round(Math.max(0, balance) / limit * 1000) / 10;
+    }
+
+    static level(percent: number, thresholds: UtilizationThresholds): UtilizationLevel {
+        if (percent >= thresholds.high) return 'high';
+        if (percent >= thresholds.warning) return 'warning';
+        return 'ok';
+    }
+
+    /** Credit accounts with a limit, each and combined */
+    static summarize(bills: Bill[], thresholds: UtilizationThresholds = DEFAULT_UTILIZATION_THRESHOLDS): UtilizationSummary {
+        const cards = bills
+            .filter(b => b.isCreditAccount && (b.creditLimit ?? 0) > 0)
+            .map(b => {
+                const balance = b.balance ?? 0;
+                const limit = b.creditLimit!;
+                const percent = this.percent(balance, limit);
+                return { billId: b.id, name: b.name, balance, limit, percent, level: this.level(percent, thresholds) };
+            });
+
+        const balance = CalculationEngine.roundCurrency(cards.reduce((sum, c) => sum + Math.max(0, c.balance), 0));
+        const limit = CalculationEngine.roundCurrency(cards.reduce((sum, c) => sum + c.limit, 0));
+        const percent = limit > 0 ? this.percent(balance, limit) : null;
+
+        return { cards, balance, limit, percent, level: percent === null ? 'ok' : this.level(percent, thresholds) };
+    }
+
+    /** Balances and limits of every card with a limit, for the month being closed */
+    static snapshot(bills: Bill[], month: string): UtilizationSnapshot | null {
+        const cards = bills
+            .filter(b => b.isCreditAccount && (b.creditLimit ?? 0) > 0)
+            .map(b => ({ billId: b.id, balance: b.balance ?? 0, limit: b.creditLimit! }));
+        return cards.length > 0 ? { month, cards } : null;
+    }
+
+    /** History with a snapshot added, replacing any earlier one for the same month, oldest first */
+    static record(history: UtilizationSnapshot[], snapshot: UtilizationSnapshot): UtilizationSnapshot[] {
+        return [...history.filter(s => s.month !== snapshot.month), snapshot]
+            .sort((a, b) => a.month.localeCompare(b.month));
+    }
+
+    /** Overall utilization of a snapshot */
+    static snapshotPercent(snapshot: UtilizationSnapshot): number {
+        const balance = snapshot.cards.reduce((sum, c) => sum + Math.max(0, c.balance), 0);
+        const limit = snapshot.cards.reduce((sum, c) => sum + c.limit, 0);
+        return this.percent(balance, limit);
+    }
+}
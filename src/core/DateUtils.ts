@@ -2,6 +2,17 @@
  * Date utility functions for monthly reset logic
  */
 
+import type { DueDateRule, HolidayCalendar, PayInfo } from '../types';
+
+/** US federal holidays on, every profile starts with no custom ones */
+export const DEFAULT_HOLIDAY_CALENDAR: HolidayCalendar = {
+    federal: true,
+    custom: [],
+};
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', 'last'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 export class DateUtils {
     /**
      * Parse YYYY-MM-DD string as local date (no timezone shift)
@@ -152,6 +163,19 @@ export class DateUtils {
         return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
     }
 
+    /** Number of days in a "YYYY-MM" month */
+    static daysInMonth(monthStr: string): number {
+        const [year = 0, month = 1] = monthStr.split('-').map(Number);
+        return new Date(year, month, 0).getDate();
+    }
+
+    /** Whole months from one "YYYY-MM" to another (negative when `to` is earlier) */
+    static monthsBetween(from: string, to: string): number {
+        const [fromYear = 0, fromMonth = 1] = from.split('-').map(Number);
+        const [toYear = 0, toMonth = 1] = to.split('-').map(Number);
+        return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+    }
+
     /** Compare two "YYYY-MM" strings: -1 if a<b, 0 if equal, 1 if a>b */
     static compareMonths(a: string, b: string): number {
         if (a < b) return -1;
@@ -177,6 +201,41 @@ export class DateUtils {
         });
     }
 
+    /**
+     * Pay dates falling in a "YYYY-MM" month, stepped from the last known pay date in either direction.
+     * Semimonthly pay lands on the 1st and 15th; monthly pay keeps the last pay date's day (clamped to month end).
+     */
+    static getPayDatesInMonth(lastPayDate: string, frequency: PayInfo['frequency'], monthStr: string): string[] {
+        const parts = monthStr.split('-').map(Number);
+        const year = parts[0] ?? 0, month = parts[1] ?? 1;
+        const daysInMonth = new Date(year, month, 0).getDate();
+
+        switch (frequency) {
+            case 'semimonthly':
+                return [`${monthStr}-01`, `${monthStr}-15`];
+            case 'monthly': {
+                const day = Math.min(this.parseLocalDate(lastPayDate).getDate(), daysInMonth);
+                return [`${monthStr}-${String(day).padStart(2, '0')}`];
+            }
+            case 'weekly':
+            case 'biweekly': {
+                const step = frequency === 'weekly' ? 7 : 14;
+                const monthStart = new Date(year, month - 1, 1);
+                const current = this.parseLocalDate(lastPayDate);
+                // Whole steps from the last pay date to the first pay date on or after the 1st
+                // (rounded, since a DST change makes the day count fractional)
+                const days = Math.round((monthStart.getTime() - current.getTime()) / (1000 * 60 * 60 * 24));
+                current.setDate(current.getDate() + Math.ceil(days / step) * step);
+                const dates: string[] = [];
+                while (current.getMonth() === month - 1 && current.getFullYear() === year) {
+                    dates.push(this.toLocalDateString(current));
+                    current.setDate(current.getDate() + step);
+                }
+                return dates;
+            }
+        }
+    }
+
     /**
      * Get days until date (ignoring time)
      */
@@ -191,4 +250,131 @@ export class DateUtils {
         const diffTime = targetDate.getTime() - now.getTime();
         return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     }
+
+    // ── Business Days & Holidays ──
+
+    /** The nth weekday of a "YYYY-MM" month as YYYY-MM-DD; week 5 is the last one, e.g. the last Monday */
+    static nthWeekdayOfMonth(monthStr: string, week: number, weekday: number): string {
+        const [year = 0, month = 1] = monthStr.split('-').map(Number);
+        let day: number;
+        if (week >= 5) {
+            const lastDay = this.daysInMonth(monthStr);
+            day = lastDay - ((new Date(year, month - 1, lastDay).getDay() - weekday + 7) % 7);
+        } else {
+            day = 1 + ((weekday - new Date(year, month - 1, 1).getDay() + 7) % 7) + (Math.max(1, week) - 1) * 7;
+        }
+        return `${monthStr}-${String(day).padStart(2, '0')}`;
+    }
+
+    /**
+     * US federal holidays in a year, on the day banks close for them.
+     * Follows the Federal Reserve: a holiday on Sunday closes the Monday after; one on Saturday closes nothing.
+     */
+    static federalHolidays(year: number): Array<{ date: string; name: string }> {
+        const fixed = (month: number, day: number) => {
+            const date = new Date(year, month - 1, day);
+            if (date.getDay() === 0) date.setDate(day + 1);
+            return this.toLocalDateString(date);
+        };
+        const nth = (month: number, week: number, weekday: number) =>
+            this.nthWeekdayOfMonth(`${year}-${String(month).padStart(2, '0')}`, week, weekday);
+
+        return [
+            { date: fixed(1, 1), name: "New Year's Day" },
+            { date: nth(1, 3, 1), name: 'Martin Luther King Jr. Day' },
+            { date: nth(2, 3, 1), name: "Washington's Birthday" },
+            { date: nth(5, 5, 1), name: 'Memorial Day' },
+            { date: fixed(6, 19), name: 'Juneteenth' },
+            { date: fixed(7, 4), name: 'Independence Day' },
+            { date: nth(9, 1, 1), name: 'Labor Day' },
+            { date: nth(10, 2, 1), name: 'Columbus Day' },
+            { date: fixed(11, 11), name: 'Veterans Day' },
+            { date: nth(11, 4, 4), name: 'Thanksgiving Day' },
+            { date: fixed(12, 25), name: 'Christmas Day' },
+        ];
+    }
+
+    /** Every holiday in a year under the calendar — federal ones not skipped, plus the custom ones */
+    static holidaysInYear(year: number, calendar: HolidayCalendar): Set<string> {
+        const dates = new Set<string>();
+        if (calendar.federal) {
+            const skipped = calendar.skippedFederal ?? [];
+            this.federalHolidays(year).filter(h => !skipped.includes(h.name)).forEach(h => dates.add(h.date));
+        }
+        for (const holiday of calendar.custom) {
+            if (holiday.yearly) {
+                dates.add(`${year}${holiday.date.slice(4, 10)}`);
+            } else if (holiday.date.startsWith(`${year}-`)) {
+                dates.add(holiday.date.slice(0, 10));
+            }
+        }
+        return dates;
+    }
+
+    /** Weekdays that aren't holidays */
+    static isBusinessDay(dateStr: string, calendar: HolidayCalendar): boolean {
+        const date = this.parseLocalDate(dateStr);
+        const weekday = date.getDay();
+        if (weekday === 0 || weekday === 6) return false;
+        return !this.holidaysInYear(date.getFullYear(), calendar).has(this.toLocalDateString(date));
+    }
+
+    /** The date itself when it is a business day, otherwise the nearest one before (-1) or after (1) it */
+    static toBusinessDay(dateStr: string, direction: 1 | -1, calendar: HolidayCalendar): string {
+        const date = this.parseLocalDate(dateStr);
+        // A long weekend plus a run of custom holidays still ends within a couple of weeks
+        for (let i = 0; i < 14 && !this.isBusinessDay(this.toLocalDateString(date), calendar); i++) {
+            date.setDate(date.getDate() + direction);
+        }
+        return this.toLocalDateString(date);
+    }
+
+    static lastBusinessDayOfMonth(monthStr: string, calendar: HolidayCalendar): string {
+        return this.toBusinessDay(`${monthStr}-${String(this.daysInMonth(monthStr)).padStart(2, '0')}`, -1, calendar);
+    }
+
+    /** Where a scheduled due date actually falls under a bill's rule; month-based rules keep the scheduled month */
+    static applyDueDateRule(dateStr: string, rule: DueDateRule | undefined, calendar: HolidayCalendar): string {
+        if (!rule) return dateStr;
+        switch (rule.kind) {
+            case 'previous-business-day':
+                return this.toBusinessDay(dateStr, -1, calendar);
+            case 'next-business-day':
+                return this.toBusinessDay(dateStr, 1, calendar);
+            case 'last-business-day':
+                return this.lastBusinessDayOfMonth(this.getMonthFromDate(dateStr), calendar);
+            case 'nth-weekday':
+                return this.nthWeekdayOfMonth(this.getMonthFromDate(dateStr), rule.week ?? 1, rule.weekday ?? 1);
+        }
+    }
+
+    /** The nth-weekday rule a date follows, e.g. the 2nd Tuesday; days after the 28th count as the last one */
+    static nthWeekdayRuleFor(dateStr: string): DueDateRule {
+        const date = this.parseLocalDate(dateStr);
+        return { kind: 'nth-weekday', week: Math.min(5, Math.ceil(date.getDate() / 7)), weekday: date.getDay() };
+    }
+
+    /** Rules a bill due on this date can pick from; the nth-weekday one matches the date's own weekday */
+    static dueDateRuleChoices(dateStr: string): DueDateRule[] {
+        return [
+            { kind: 'previous-business-day' },
+            { kind: 'next-business-day' },
+            { kind: 'last-business-day' },
+            this.nthWeekdayRuleFor(dateStr),
+        ];
+    }
+
+    /** "Next business day", "2nd Tuesday of the month" */
+    static describeDueDateRule(rule: DueDateRule): string {
+        switch (rule.kind) {
+            case 'previous-business-day':
+                return 'Previous business day';
+            case 'next-business-day':
+                return 'Next business day';
+            case 'last-business-day':
+                return 'Last business day of the month';
+            case 'nth-weekday':
+                return `${ORDINALS[Math.min(5, rule.week ?? 1) - 1]} ${WEEKDAY_NAMES[rule.weekday ?? 1]} of the month`;
+        }
+    }
 }
@@ -0,0 +1,205 @@
+/**
+ * Multi-debt payoff planner: snowball, avalanche and custom-order strategies
+ * Shares one monthly debt budget across every balance, rolling freed-up payments into the next debt
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import { RateSchedule } from './RateSchedule';
+import type { Bill, DebtPlanStrategy, InterestMethod } from '../types';
+
+export interface PlannerDebt {
+    id: string;
+    name: string;
+    balance: number;
+    annualRate: number; // Rate this month, e.g. 0.18 for 18% — avalanche ranks by it
+    minimumPayment: number;
+    rateForMonth?: (month: number) => number; // Rate schedule, overriding annualRate
+    interestMethod?: InterestMethod;
+}
+
+export interface DebtPlanMonth {
+    month: number; // 1 = the first month of the plan
+    payments: Array<{ id: string; payment: number; interest: number; remainingBalance: number }>;
+    totalPaid: number;
+    totalRemaining: number;
+}
+
+export interface DebtPlanResult {
+    strategy: DebtPlanStrategy;
+    order: string[]; // Debt ids in the order extra payments go to
+    monthlyBudget: number; // Budget actually used — never below the sum of minimums
+    monthsToPayoff: number; // Infinity when the budget can't outpace interest
+    totalInterestPaid: number;
+    totalAmountPaid: number;
+    payoffMonth: Record<string, number>; // Debt id → month it reaches zero
+    schedule: DebtPlanMonth[];
+}
+
+/** Total debt month by month and when each debt reaches zero */
+export interface DebtTimeline {
+    totals: number[]; // Index 0 = today's total, then the total left after each plan month
+    milestones: Array<{ id: string; name: string; month: number }>; // Soonest first
+    debtFreeMonth: number; // Infinity when the plan never finishes
+}
+
+export const DEBT_PLAN_STRATEGIES: Array<{ id: DebtPlanStrategy; label: string; description: string }> = [
+    { id: 'snowball', label: 'Snowball', description: 'Smallest balance first' },
+    { id: 'avalanche', label: 'Avalanche', description: 'Highest APR first' },
+    { id: 'custom', label: 'Custom', description: 'Your own order' },
+];
+
+// Same ceiling as CalculationEngine.calculatePayoff
+const MAX_MONTHS = 600;
+
+const toCents = (dollars: number) => Math.round(dollars * 100);
+const toDollars = (cents: number) => cents / 100;
+
+export class DebtPlanner {
+    /** Every credit account or balance-carrying bill that still owes something */
+    static fromBills(bills: Bill[]): PlannerDebt[] {
+        return bills
+            .filter(b => (b.hasBalance || b.isCreditAccount) && (b.balance ?? 0) > 0)
+            .map(b => ({
+                id: b.id,
+                name: b.name,
+                balance: b.balance ?? 0,
+                annualRate: RateSchedule.rateForMonth(b, DateUtils.getCurrentMonth()) / 100,
+                minimumPayment: b.monthlyPayment || 0,
+                rateForMonth: RateSchedule.monthlyRates(b),
+                interestMethod: b.interestMethod,
+            }));
+    }
+
+    static minimumBudget(debts: PlannerDebt[]): number {
+        return toDollars(debts.reduce((sum, d) => sum + toCents(d.minimumPayment), 0));
+    }
+
+    /**
+     * Order extra payments go to.
+     * Custom order keeps the listed ids first; debts missing from it follow in snowball order.
+     */
+    static orderDebts(debts: PlannerDebt[], strategy: DebtPlanStrategy, customOrder: string[] = []): PlannerDebt[] {
+        const snowball = [...debts].sort((a, b) => a.balance - b.balance || b.annualRate - a.annualRate);
+
+        if (strategy === 'avalanche') {
+            return [...debts].sort((a, b) => b.annualRate - a.annualRate || a.balance - b.balance);
+        }
+        if (strategy === 'custom') {
+            const listed = customOrder
+                .map(id => debts.find(d => d.id === id))
+                .filter((d): d is PlannerDebt => d !== undefined);
+            return [...listed, ...snowball.filter(d => !listed.includes(d))];
+        }
+        return snowball;
+    }
+
+    /**
+     * Simulate paying every debt from one monthly budget.
+     * Each month interest accrues, every debt gets its minimum, and whatever is left goes to the
+     * first unpaid debt in strategy order. A paid-off debt's minimum stays in the budget.
+     */
+    static simulate(
+        debts: PlannerDebt[],
+        monthlyBudget: number,
+        strategy: DebtPlanStrategy,
+        customOrder: string[] = []
+    ): DebtPlanResult {
+        const ordered = this.orderDebts(debts, strategy, customOrder);
+        const budgetCents = Math.max(toCents(monthlyBudget), toCents(this.minimumBudget(debts)));
+        const balances = new Map(ordered.map(d => [d.id, toCents(d.balance)]));
+        const payoffMonth: Record<string, number> = {};
+        const schedule: DebtPlanMonth[] = [];
+        let totalInterestCents = 0;
+        let totalPaidCents = 0;
+        let month = 0;
+
+        const remainingCents = () => Array.from(balances.values()).reduce((sum, c) => sum + c, 0);
+
+        while (remainingCents() > 0 && month < MAX_MONTHS) {
+            month++;
+            const interest = new Map<string, number>();
+            const paid = new Map<string, number>();
+
+            for (const debt of ordered) {
+                const balance = balances.get(debt.id) ?? 0;
+                if (balance <= 0) continue;
+                const annualRate = debt.rateForMonth ? debt.rateForMonth(month) : debt.annualRate;
+                const interestCents = CalculationEngine.calculateMonthlyInterestCents(balance, annualRate, debt.interestMethod);
+                interest.set(debt.id, interestCents);
+                balances.set(debt.id, balance + interestCents);
+                totalInterestCents += interestCents;
+            }
+
+            let available = budgetCents;
+            const pay = (debt: PlannerDebt, cents: number) => {
+                const balance = balances.get(debt.id) ?? 0;
+                const amount = Math.min(cents, balance, available);
+                if (amount <= 0) return;
+                balances.set(debt.id, balance - amount);
+                paid.set(debt.id, (paid.get(debt.id) ?? 0) + amount);
+                available -= amount;
+            };
+
+            for (const debt of ordered) pay(debt, toCents(debt.minimumPayment));
+            for (const debt of ordered) pay(debt, available);
+
+            let monthPaid = 0;
+            const payments = ordered
+                .filter(d => interest.has(d.id))
+                .map(d => {
+                    const remaining = balances.get(d.id) ?? 0;
+                    if (remaining <= 0 && payoffMonth[d.id] === undefined) payoffMonth[d.id] = month;
+                    monthPaid += paid.get(d.id) ?? 0;
+                    return {
+                        id: d.id,
+                        payment: toDollars(paid.get(d.id) ?? 0),
+                        interest: toDollars(interest.get(d.id) ?? 0),
+                        remainingBalance: toDollars(remaining),
+                    };
+                });
+            totalPaidCents += monthPaid;
+
+            schedule.push({
+                month,
+                payments,
+                totalPaid: toDollars(monthPaid),
+                totalRemaining: toDollars(remainingCents()),
+            });
+        }
+
+        const neverPaidOff = remainingCents() > 0;
+        return {
+            strategy,
+            order: ordered.map(d => d.id),
+            monthlyBudget: toDollars(budgetCents),
+            monthsToPayoff: neverPaidOff ? Infinity : month,
+            totalInterestPaid: neverPaidOff ? Infinity : toDollars(totalInterestCents),
+            totalAmountPaid: neverPaidOff ? Infinity : toDollars(totalPaidCents),
+            payoffMonth,
+            schedule,
+        };
+    }
+
+    /** Timeline of a simulated plan, for charting */
+    static timeline(debts: PlannerDebt[], result: DebtPlanResult): DebtTimeline {
+        const opening = toDollars(debts.reduce((sum, d) => sum + toCents(d.balance), 0));
+        return {
+            totals: [opening, ...result.schedule.map(m => m.totalRemaining)],
+            milestones: debts
+                .filter(d => result.payoffMonth[d.id] !== undefined)
+                .map(d => ({ id: d.id, name: d.name, month: result.payoffMonth[d.id]! }))
+                .sort((a, b) => a.month - b.month),
+            debtFreeMonth: result.monthsToPayoff,
+        };
+    }
+
+    /** Run every strategy against the same debts and budget */
+    static compare(debts: PlannerDebt[], monthlyBudget: number, customOrder: string[] = []): Record<DebtPlanStrategy, DebtPlanResult> {
+        return {
+            snowball: this.simulate(debts, monthlyBudget, 'snowball', customOrder),
+            avalanche: this.simulate(debts, monthlyBudget, 'avalanche', customOrder),
+            custom: this.simulate(debts, monthlyBudget, 'custom', customOrder),
+        };
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * Installment loans (mortgages, auto loans): fixed-term amortization, escrow and extra principal
+ * The balance is never typed in — it comes from the schedule plus the payments actually recorded.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import type { Bill, HistoryItem, InstallmentLoan } from '../types';
+
+export interface AmortizationRow {
+    number: number; // 1 = first payment
+    date: string; // YYYY-MM-DD
+    principalAndInterest: number;
+    extraPrincipal: number;
+    interest: number;
+    principal: number; // Includes extra principal
+    escrowAndFees: number;
+    totalPayment: number;
+    balance: number; // After this payment
+}
+
+export interface AmortizationSummary {
+    rows: AmortizationRow[];
+    payoffDate: string;
+    totalInterest: number;
+    interestSaved: number; // Compared with no extra principal
+    monthsSaved: number;
+}
+
+const toCents = (dollars: number) => Math.round(dollars * 100);
+const toDollars = (cents: number) => cents / 100;
+
+export class InstallmentLoans {
+    /** Level principal-and-interest payment that retires the loan over its term */
+    static scheduledPayment(loan: InstallmentLoan): number {
+        const principal = CalculationEngine.parseAmount(loan.principal);
+        const months = Math.max(1, Math.round(loan.termMonths));
+        const monthlyRate = CalculationEngine.parseAmount(loan.rate) / 100 / 12;
+        if (principal <= 0) return 0;
+        if (monthlyRate === 0) return CalculationEngine.roundCurrency(principal / months);
+        return CalculationEngine.roundCurrency(principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months)));
+    }
+
+    static escrowAndFees(loan: InstallmentLoan): number {
+        return CalculationEngine.roundCurrency((loan.escrow || 0) + (loan.fees || 0));
+    }
+
+    /** Everything due each month: principal and interest, extra principal, escrow and fees */
+    static monthlyTotal(loan: InstallmentLoan): number {
+        return CalculationEngine.roundCurrency(this.scheduledPayment(loan) + (loan.extraPrincipal || 0) + this.escrowAndFees(loan));
+    }
+
+    /**
+     * Full schedule from the first payment. Extra principal shortens the loan;
+     * the last payment only covers what is left.
+     */
+    static schedule(loan: InstallmentLoan, extraPrincipal: number = loan.extraPrincipal || 0): AmortizationRow[] {
+        const rows: AmortizationRow[] = [];
+        const monthlyRate = CalculationEngine.parseAmount(loan.rate) / 100 / 12;
+        const paymentCents = toCents(this.scheduledPayment(loan));
+        const extraCents = toCents(CalculationEngine.parseAmount(extraPrincipal));
+        const escrowCents = toCents(this.escrowAndFees(loan));
+        let balanceCents = toCents(CalculationEngine.parseAmount(loan.principal));
+
+        // A little past the term covers rounding on the final payment
+        const maxPayments = Math.max(1, Math.round(loan.termMonths)) + 1;
+
+        for (let n = 1; balanceCents > 0 && n <= maxPayments; n++) {
+            const interestCents = Math.round(balanceCents * monthlyRate);
+            const scheduledPrincipal = Math.min(Math.max(0, paymentCents - interestCents), balanceCents);
+            const extra = Math.min(extraCents, balanceCents - scheduledPrincipal);
+            const principalCents = scheduledPrincipal + extra;
+            balanceCents -= principalCents;
+
+            rows.push({
+                number: n,
+                date: DateUtils.addMonths(loan.startDate, n - 1),
+                principalAndInterest: toDollars(scheduledPrincipal + interestCents),
+                extraPrincipal: toDollars(extra),
+                interest: toDollars(interestCents),
+                principal: toDollars(principalCents),
+                escrowAndFees: toDollars(escrowCents),
+                totalPayment: toDollars(principalCents + interestCents + escrowCents),
+                balance: toDollars(balanceCents),
+            });
+        }
+
+        return rows;
+    }
+
+    static summarize(loan: InstallmentLoan): AmortizationSummary {
+        const rows = this.schedule(loan);
+        const baseline = (loan.extraPrincipal || 0) > 0 ? this.schedule(loan, 0) : rows;
+        const totalInterest = (r: AmortizationRow[]) => CalculationEngine.roundCurrency(r.reduce((sum, row) => sum + row.interest, 0));
+
+        return {
+            rows,
+            payoffDate: rows[rows.length - 1]?.date ?? loan.startDate,
+            totalInterest: totalInterest(rows),
+            interestSaved: CalculationEngine.roundCurrency(totalInterest(baseline) - totalInterest(rows)),
+            monthsSaved: baseline.length - rows.length,
+        };
+    }
+
+    /** Scheduled payments due before a date — the default for payments made before the loan was added */
+    static paymentsDueBefore(loan: InstallmentLoan, date: string): number {
+        return this.schedule(loan, 0).filter(row => row.date < date).length;
+    }
+
+    /** Amounts paid toward this loan in the app, oldest first; a month paid in parts counts as one payment */
+    static recordedPayments(billId: string, history: HistoryItem[]): number[] {
+        const byMonth = new Map<string, number>();
+        history
+            .filter(item => item.id === billId && item.paidAmount > 0)
+            .sort((a, b) => (a.paidDate || a.archivedDate || '').localeCompare(b.paidDate || b.archivedDate || ''))
+            .forEach((item, i) => {
+                const key = item.parts && item.originalDueDate ? DateUtils.getMonthFromDate(item.originalDueDate) : String(i);
+                byMonth.set(key, (byMonth.get(key) || 0) + item.paidAmount);
+            });
+        return [...byMonth.values()].map(amount => CalculationEngine.roundCurrency(amount));
+    }
+
+    /** How one payment is applied: escrow and fees come off first, then interest, the rest is principal */
+    static paymentSplit(loan: InstallmentLoan, balance: number, amount: number): { escrowAndFees: number; interest: number; principal: number } {
+        const balanceCents = toCents(balance);
+        const escrowCents = Math.min(toCents(this.escrowAndFees(loan)), toCents(amount));
+        const interestCents = Math.round(balanceCents * CalculationEngine.parseAmount(loan.rate) / 100 / 12);
+        const principalCents = Math.min(balanceCents, Math.max(0, toCents(amount) - escrowCents - interestCents));
+        return {
+            escrowAndFees: toDollars(escrowCents),
+            interest: toDollars(interestCents),
+            principal: toDollars(principalCents),
+        };
+    }
+
+    /**
+     * Balance after the payments made before tracking (assumed to be on schedule, with no extra)
+     * and then every recorded payment
+     */
+    static currentBalance(loan: InstallmentLoan, recordedPayments: number[]): number {
+        const prior = Math.max(0, Math.round(loan.paymentsBefore || 0));
+
+        let balanceCents = prior > 0
+            ? toCents(this.schedule(loan, 0)[prior - 1]?.balance ?? 0)
+            : toCents(CalculationEngine.parseAmount(loan.principal));
+
+        for (const amount of recordedPayments) {
+            if (balanceCents <= 0) break;
+            balanceCents -= toCents(this.paymentSplit(loan, toDollars(balanceCents), amount).principal);
+        }
+
+        return toDollars(balanceCents);
+    }
+
+    /** Payments made so far, counting the ones before tracking */
+    static paymentsMade(loan: InstallmentLoan, recordedPayments: number[]): number {
+        return Math.max(0, Math.round(loan.paymentsBefore || 0)) + recordedPayments.length;
+    }
+
+    /** Bill fields derived from the loan, so payoff views, the planner and exports keep working */
+    static billFields(loan: InstallmentLoan, history: HistoryItem[], billId: string): Pick<Bill, 'amount' | 'monthlyPayment' | 'interestRate' | 'balance'> {
+        return {
+            amount: this.monthlyTotal(loan),
+            monthlyPayment: CalculationEngine.roundCurrency(this.scheduledPayment(loan) + (loan.extraPrincipal || 0)),
+            interestRate: loan.rate,
+            balance: this.currentBalance(loan, this.recordedPayments(billId, history)),
+        };
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * OFX/QFX statement parsing (SGML v1.x and XML v2.x) into normalized transactions and balances
+ */
+
+import type { ImportedTransaction } from '../types';
+
+export interface OfxStatement {
+    accountId: string;
+    accountType: 'bank' | 'creditcard';
+    currency?: string;
+    transactions: ImportedTransaction[];
+    /** Ledger balance as the bank reports it — negative on a credit card means money owed */
+    ledgerBalance?: number;
+    balanceDate?: string; // YYYY-MM-DD format
+}
+
+interface OfxNode {
+    name: string;
+    value?: string;
+    children: OfxNode[];
+}
+
+export class OfxParser {
+    /**
+     * Quick sniff so the import dialog can route a file without relying on its extension
+     */
+    static looksLikeOfx(text: string): boolean {
+        const head = text.slice(0, 2048).toUpperCase();
+        return head.includes('OFXHEADER') || head.includes('<OFX>');
+    }
+
+    /**
+     * Parse every bank and credit card statement in an OFX document.
+     * Throws when the text has no <OFX> body.
+     */
+    static parse(text: string): OfxStatement[] {
+        const root = this.parseTree(text);
+        const statements: OfxStatement[] = [];
+
+        for (const stmt of this.findAll(root, 'STMTRS')) {
+            statements.push(this.readStatement(stmt, 'bank', 'BANKACCTFROM'));
+        }
+        for (const stmt of this.findAll(root, 'CCSTMTRS')) {
+            statements.push(this.readStatement(stmt, 'creditcard', 'CCACCTFROM'));
+        }
+
+        return statements;
+    }
+
+    private static readStatement(stmt: OfxNode, accountType: OfxStatement['accountType'], accountTag: string): OfxStatement {
+        const accountId = this.text(stmt, [accountTag, 'ACCTID']) ?? '';
+        const transactions: ImportedTransaction[] = [];
+
+        this.findAll(stmt, 'STMTTRN').forEach((trn, i) => {
+            const date = this.parseDate(this.text(trn, ['DTPOSTED']) ?? '');
+            const amount = this.parseAmount(this.text(trn, ['TRNAMT']) ?? '');
+            if (!date || amount === null) return;
+
+            const name = this.text(trn, ['NAME']) ?? this.text(trn, ['PAYEE', 'NAME']) ?? '';
+            const memo = this.text(trn, ['MEMO']) ?? '';
+            const fitId = this.text(trn, ['FITID']) ?? String(i);
+
+            transactions.push({
+                id: `ofx-${accountId}-${fitId}`,
+                date,
+                description: name || memo,
+                // OFX amounts are signed from the account's side: debits and card charges are negative
+                amount: -amount,
+            });
+        });
+
+        const ledgerBalance = this.parseAmount(this.text(stmt, ['LEDGERBAL', 'BALAMT']) ?? '');
+        const balanceDate = this.parseDate(this.text(stmt, ['LEDGERBAL', 'DTASOF']) ?? '');
+
+        return {
+            accountId,
+            accountType,
+            currency: this.text(stmt, ['CURDEF']),
+            transactions,
+            ledgerBalance: ledgerBalance ?? undefined,
+            balanceDate: balanceDate ?? undefined,
+        };
+    }
+
+    // ── Tree building ──
+
+    /**
+     * Build an element tree from the OFX body. SGML v1 leaves have no closing tags, so an
+     * element that carries text is treated as a leaf and any closing tag for it is skipped;
+     * the same rule reads XML v2 unchanged.
+     */
+    private static parseTree(text: string): OfxNode {
+        const start = text.search(/<OFX>/i);
+        if (start < 0) {
+            throw new Error('No <OFX> section found in this file.');
+        }
+
+        const root: OfxNode = { name: '#root', children: [] };
+        const stack: OfxNode[] = [root];
+        const tagPattern = /<(\/?)([A-Za-z0-9.]+)\s*(\/?)>([^<]*)/g;
+        const body = text.slice(start);
+
+        let match: RegExpExecArray | null;
+        while ((match = tagPattern.exec(body)) !== null) {
+            const [, closing, rawName = '', selfClosing, rawText = ''] = match;
+            const name = rawName.toUpperCase();
+            const parent = stack[stack.length - 1] ?? root;
+
+            if (closing) {
+                // Pop back to the matching aggregate; unmatched closers (SGML leaves) are ignored
+                const idx = stack.map(n => n.name).lastIndexOf(name);
+                if (idx > 0) stack.length = idx;
+                continue;
+            }
+
+            const value = this.decodeEntities(rawText.trim());
+            if (selfClosing || value) {
+                parent.children.push({ name, value, children: [] });
+            } else {
+                const node: OfxNode = { name, children: [] };
+                parent.children.push(node);
+                stack.push(node);
+            }
+        }
+
+        return root;
+    }
+
+    private static findAll(node: OfxNode, name: string): OfxNode[] {
+        const found: OfxNode[] = [];
+        for (const child of node.children) {
+            if (child.name === name) found.push(child);
+            found.push(...this.findAll(child, name));
+        }
+        return found;
+    }
+
+    /** Text of the leaf at a path of direct children, e.g. ['LEDGERBAL', 'BALAMT'] */
+    private static text(node: OfxNode, path: string[]): string | undefined {
+        let current: OfxNode | undefined = node;
+        for (const name of path) {
+            current = current?.children.find(c => c.name === name);
+        }
+        return current?.value || undefined;
+    }
+
+    private static decodeEntities(value: string): string {
+        return value
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+            .replace(/&amp;/g, '&');
+    }
+
+    // ── Values ──
+
+    /**
+     * OFX dates are YYYYMMDD with an optional time and [offset:TZ] suffix; only the day is kept
+     */
+    static parseDate(value: string): string | null {
+        const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) return null;
+        const [, year, month, day] = match;
+        if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+        return `${year}-${month}-${day}`;
+    }
+
+    /**
+     * OFX amounts are plain signed decimals; the spec also allows a comma as the decimal mark
+     */
+    static parseAmount(value: string): number | null {
+        let text = value.trim();
+        if (!text) return null;
+        if (text.includes(',') && !text.includes('.')) text = text.replace(',', '.');
+        const parsed = parseFloat(text.replace(/[^0-9.+-]/g, ''));
+        return isNaN(parsed) || !isFinite(parsed) ? null : parsed;
+    }
+
+    /**
+     * Amount owed on a credit card statement. Issuers report the ledger balance as negative
+     * when money is owed; a positive balance is a credit, which leaves nothing owed.
+     */
+    static amountOwed(statement: OfxStatement): number | null {
+        if (statement.ledgerBalance === undefined) return null;
+        return Math.max(0, Math.round(-statement.ledgerBalance * 100) / 100);
+    }
+}
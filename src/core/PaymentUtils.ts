@@ -0,0 +1,157 @@
+/**
+ * Payment recording rules shared by manual payments and imported transactions
+ * A bill can be paid in several parts; it stays partially paid until its payments cover the month's amount.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import { Recurrence } from './Recurrence';
+import type { Bill, BillPayment } from '../types';
+
+const sumPayments = (payments: BillPayment[]) =>
+    CalculationEngine.roundCurrency(payments.reduce((sum, p) => sum + p.amount, 0));
+
+export class PaymentUtils {
+    /**
+     * Recurring bills paid for a future (preview) month keep that month's payments in paidMonths
+     * without touching the bill's current isPaid state.
+     */
+    private static usesPaidMonths(bill: Bill, month: string): boolean {
+        const billMonth = DateUtils.getMonthFromDate(bill.dueDate);
+        return !!bill.paidMonths?.[month] || (bill.isRecurring && DateUtils.compareMonths(month, billMonth) > 0);
+    }
+
+    /** Payments made toward a bill for a "YYYY-MM" month, oldest first */
+    static paymentsFor(bill: Bill, month: string): BillPayment[] {
+        const entry = bill.paidMonths?.[month];
+        if (entry) {
+            // Saved before bills could be paid in parts
+            return entry.payments ?? [{ id: `${bill.id}-${month}`, amount: entry.paidAmount, method: entry.paidMethod, date: entry.paidDate }];
+        }
+        if (DateUtils.getMonthFromDate(bill.dueDate) !== month) return [];
+        if (bill.payments) return bill.payments;
+        return bill.isPaid
+            ? [{ id: bill.id, amount: bill.paidAmount || Recurrence.amountForMonth(bill, month), method: bill.paidMethod || 'Unknown', date: bill.paidDate || '' }]
+            : [];
+    }
+
+    /**
+     * A bill as it stands in a "YYYY-MM" month, or null when it isn't due then. Recurring bills from
+     * earlier months are projected onto the month's first due date with that month's payments;
+     * weekly and biweekly bills carry the month's total across their due dates.
+     */
+    static forMonth(bill: Bill, month: string): Bill | null {
+        const billMonth = DateUtils.getMonthFromDate(bill.dueDate);
+        const isProjected = bill.isRecurring && DateUtils.compareMonths(billMonth, month) < 0;
+        if (billMonth !== month && !(isProjected && Recurrence.isDueInMonth(bill, month))) return null;
+
+        const amount = Recurrence.amountForMonth(bill, month);
+        const monthPayment = bill.paidMonths?.[month];
+        if (isProjected) {
+            return {
+                ...bill,
+                amount,
+                dueDate: Recurrence.occurrencesInMonth(bill, month)[0] ?? bill.dueDate,
+                isPaid: !!monthPayment && !monthPayment.partial,
+                paidAmount: monthPayment?.paidAmount,
+                paidMethod: monthPayment?.paidMethod,
+                paidDate: monthPayment?.paidDate,
+                payments: monthPayment ? this.paymentsFor(bill, month) : undefined,
+            };
+        }
+        // Advance payments count even for bills whose due date falls in the month
+        if (monthPayment && !bill.isPaid) {
+            return {
+                ...bill,
+                amount,
+                isPaid: !monthPayment.partial,
+                paidAmount: monthPayment.paidAmount,
+                paidMethod: monthPayment.paidMethod,
+                paidDate: monthPayment.paidDate,
+                payments: this.paymentsFor(bill, month),
+            };
+        }
+        return amount === bill.amount ? bill : { ...bill, amount };
+    }
+
+    /** What a bill row has had paid toward it, in full or in part */
+    static amountPaid(bill: Pick<Bill, 'amount' | 'isPaid' | 'paidAmount'>): number {
+        return bill.isPaid ? bill.paidAmount || bill.amount : bill.paidAmount || 0;
+    }
+
+    /** What is still owed on a bill row */
+    static remaining(bill: Pick<Bill, 'amount' | 'isPaid' | 'paidAmount'>): number {
+        return bill.isPaid ? 0 : Math.max(0, CalculationEngine.roundCurrency(bill.amount - (bill.paidAmount || 0)));
+    }
+
+    static isPartiallyPaid(bill: Pick<Bill, 'isPaid' | 'paidAmount'>): boolean {
+        return !bill.isPaid && (bill.paidAmount || 0) > 0;
+    }
+
+    /** Record a payment on a bill for the month being viewed; without an amount it pays what is left */
+    static applyPayment(
+        bill: Bill,
+        viewingMonth: string,
+        paymentMethod: string,
+        paidAmount?: number,
+        paidDate: string = new Date().toISOString(),
+        auto = false
+    ): Bill {
+        const month = this.usesPaidMonths(bill, viewingMonth) ? viewingMonth : DateUtils.getMonthFromDate(bill.dueDate);
+        const earlier = this.paymentsFor(bill, month);
+        const due = Recurrence.amountForMonth(bill, month);
+        const payment: BillPayment = {
+            id: crypto.randomUUID(),
+            amount: paidAmount ?? Math.max(0, CalculationEngine.roundCurrency(due - sumPayments(earlier))),
+            method: paymentMethod,
+            date: paidDate,
+            auto: auto || undefined,
+        };
+        return this.withPayments(bill, month, [...earlier, payment]);
+    }
+
+    /** Take back the latest payment for the month being viewed */
+    static undoLastPayment(bill: Bill, viewingMonth: string): Bill {
+        const month = this.usesPaidMonths(bill, viewingMonth) ? viewingMonth : DateUtils.getMonthFromDate(bill.dueDate);
+        return this.withPayments(bill, month, this.paymentsFor(bill, month).slice(0, -1));
+    }
+
+    /** The bill with a month's payments replaced, and its paid fields summed up from them */
+    private static withPayments(bill: Bill, month: string, payments: BillPayment[]): Bill {
+        const total = sumPayments(payments);
+        const latest = payments[payments.length - 1];
+        // A variable bill paid before its amount was entered takes the payments as its amount
+        const isUnenteredVariable = bill.amount === 0 && !bill.hasBalance;
+        const due = Recurrence.amountForMonth(bill, month);
+        const partial = !isUnenteredVariable && Math.round(total * 100) < Math.round(due * 100);
+
+        if (this.usesPaidMonths(bill, month)) {
+            const paidMonths = { ...(bill.paidMonths || {}) };
+            if (latest) {
+                paidMonths[month] = {
+                    paidAmount: total,
+                    paidMethod: latest.method,
+                    paidDate: latest.date,
+                    payments,
+                    partial: partial || undefined,
+                };
+            } else {
+                delete paidMonths[month];
+            }
+            return { ...bill, paidMonths: Object.keys(paidMonths).length > 0 ? paidMonths : undefined };
+        }
+
+        if (!latest) {
+            return { ...bill, isPaid: false, paidAmount: undefined, paidMethod: undefined, paidDate: undefined, payments: undefined };
+        }
+        return {
+            ...bill,
+            amount: isUnenteredVariable ? total : bill.amount,
+            isPaid: !partial,
+            paidAmount: total,
+            paidMethod: latest.method,
+            paidDate: latest.date,
+            payments,
+        };
+    }
+}
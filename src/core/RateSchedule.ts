@@ -0,0 +1,128 @@
+/**
+ * Promotional and variable interest rates on debt bills
+ * A month is charged the rate in effect on its first day; outside every period the bill's interestRate applies.
+ */
+
+import { CalculationEngine, PayoffOptions, PayoffProjection } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import type { Bill, RatePeriod } from '../types';
+
+type RatedBill = Pick<Bill, 'interestRate' | 'rateSchedule'>;
+type ProjectedBill = RatedBill & Pick<Bill, 'interestMethod'>;
+
+/** A promo rate ending with a balance its payments won't clear in time */
+export interface PromoWarning {
+    bill: Bill;
+    period: RatePeriod;
+    endDate: string;
+    daysLeft: number;
+    balanceAtEnd: number; // Projected balance when the promo rate ends
+    rateAfter: number; // Whole-number rate that applies next
+}
+
+/** How far ahead promo expirations are flagged */
+export const PROMO_WARNING_DAYS = 90;
+
+export class RateSchedule {
+    /** Periods in effect on a date, latest start first */
+    private static activePeriods(bill: RatedBill, date: string): RatePeriod[] {
+        return (bill.rateSchedule || [])
+            .filter(p => p.effectiveDate <= date && (!p.endDate || date <= p.endDate))
+            .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+    }
+
+    /** Whole-number annual rate in effect on a YYYY-MM-DD date */
+    static rateOn(bill: RatedBill, date: string): number {
+        return this.activePeriods(bill, date)[0]?.rate ?? (bill.interestRate || 0);
+    }
+
+    /** Whole-number annual rate charged for a YYYY-MM month */
+    static rateForMonth(bill: RatedBill, month: string): number {
+        return this.rateOn(bill, `${month}-01`);
+    }
+
+    /**
+     * Rate lookup for CalculationEngine.calculatePayoff: month 1 is startMonth, rates as fractions.
+     * Undefined when the bill has no schedule, so the engine keeps its constant-rate fast path.
+     */
+    static monthlyRates(bill: RatedBill, startMonth: string = DateUtils.getCurrentMonth()): ((month: number) => number) | undefined {
+        if (!bill.rateSchedule?.length) return undefined;
+        return (month: number) => this.rateForMonth(bill, DateUtils.addMonthsToMonth(startMonth, month - 1)) / 100;
+    }
+
+    /** Engine options for a bill: its rate schedule from startMonth on, and how it charges interest */
+    static payoffOptions(bill: ProjectedBill, startMonth?: string): PayoffOptions {
+        return { rateForMonth: this.monthlyRates(bill, startMonth), interestMethod: bill.interestMethod };
+    }
+
+    /** Payoff projection for a debt bill at its current payment, honoring its rate schedule */
+    static projectPayoff(bill: Bill, payment: number = bill.monthlyPayment || 0, startMonth?: string): PayoffProjection {
+        return CalculationEngine.calculatePayoff(
+            bill.balance ?? 0,
+            payment,
+            (bill.interestRate || 0) / 100,
+            this.payoffOptions(bill, startMonth)
+        );
+    }
+
+    /** The promo period in effect today, if any */
+    static currentPromo(bill: RatedBill, today: string = DateUtils.toLocalDateString(new Date())): RatePeriod | undefined {
+        return this.activePeriods(bill, today).find(p => p.endDate);
+    }
+
+    /** "0% until Mar 15, 2027, then 24.99%" */
+    static describe(bill: RatedBill, today?: string): string {
+        const promo = this.currentPromo(bill, today);
+        const rate = this.rateOn(bill, today ?? DateUtils.toLocalDateString(new Date()));
+        if (!promo?.endDate) return `${rate}%`;
+        const after = this.rateOn(bill, DateUtils.toLocalDateString(this.dayAfter(promo.endDate)));
+        const until = DateUtils.parseLocalDate(promo.endDate)
+            .toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+        return `${promo.rate}% until ${until}, then ${after}%`;
+    }
+
+    /**
+     * Promos ending within PROMO_WARNING_DAYS whose balance won't be paid off by the end date
+     * at the bill's current monthly payment. Soonest first.
+     */
+    static promoWarnings(bills: Bill[], today: string = DateUtils.toLocalDateString(new Date())): PromoWarning[] {
+        const warnings: PromoWarning[] = [];
+        const currentMonth = DateUtils.getMonthFromDate(today);
+
+        for (const bill of bills) {
+            const balance = bill.balance ?? 0;
+            if (balance <= 0) continue;
+
+            for (const period of bill.rateSchedule || []) {
+                if (!period.endDate || period.endDate < today) continue;
+                const daysLeft = DateUtils.daysBetween(today, period.endDate);
+                if (daysLeft > PROMO_WARNING_DAYS) continue;
+
+                // Months charged before the promo ends: this one through the month the end date falls in
+                const promoMonths = DateUtils.monthsBetween(currentMonth, DateUtils.getMonthFromDate(period.endDate)) + 1;
+                const projection = this.projectPayoff(bill, bill.monthlyPayment || 0, currentMonth);
+                const balanceAtEnd = projection.monthsToPayoff <= promoMonths
+                    ? 0
+                    : projection.monthlyBreakdown[promoMonths - 1]?.remainingBalance ?? balance;
+                if (balanceAtEnd <= 0) continue;
+
+                warnings.push({
+                    bill,
+                    period,
+                    endDate: period.endDate,
+                    daysLeft,
+                    balanceAtEnd,
+                    rateAfter: this.rateOn(bill, DateUtils.toLocalDateString(this.dayAfter(period.endDate))),
+                });
+            }
+        }
+
+        return warnings.sort((a, b) => a.endDate.localeCompare(b.endDate));
+    }
+
+    private static dayAfter(date: string): Date {
+        const d = DateUtils.parseLocalDate(date);
+        d.setDate(d.getDate() + 1);
+        return d;
+    }
+}
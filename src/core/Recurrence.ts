@@ -0,0 +1,163 @@
+/**
+ * Recurrence rules: which days a recurring bill falls due on, and when its series ends
+ * Bills without a rule repeat monthly from their due date, as they always have.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import type { Bill, BillFrequency, RecurrenceRule } from '../types';
+
+export const FREQUENCY_LABELS: Record<BillFrequency, string> = {
+    'one-time': 'One Time',
+    weekly: 'Weekly',
+    biweekly: 'Every 2 Weeks',
+    monthly: 'Monthly',
+    'every-n-months': 'Every N Months',
+    quarterly: 'Quarterly',
+    semiannual: 'Twice a Year',
+    annual: 'Annually',
+    'specific-months': 'Specific Months',
+};
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Months from one occurrence to the next for the fixed month-based frequencies */
+const MONTH_STEPS: Partial<Record<BillFrequency, number>> = {
+    monthly: 1,
+    quarterly: 3,
+    semiannual: 6,
+    annual: 12,
+};
+
+type ScheduledBill = Pick<Bill, 'dueDate' | 'isRecurring' | 'frequency' | 'recurrence' | 'originalDueDay'>;
+
+export class Recurrence {
+    /** Older bills only carry isRecurring, which meant monthly */
+    static frequency(bill: Pick<Bill, 'isRecurring' | 'frequency'>): BillFrequency {
+        return bill.frequency ?? (bill.isRecurring ? 'monthly' : 'one-time');
+    }
+
+    /** The bill's rule, anchored on its due date when none was saved */
+    static rule(bill: ScheduledBill): RecurrenceRule {
+        return bill.recurrence ?? { startDate: bill.dueDate };
+    }
+
+    static isWeekly(frequency: BillFrequency): frequency is 'weekly' | 'biweekly' {
+        return frequency === 'weekly' || frequency === 'biweekly';
+    }
+
+    /** Months between occurrences, or null for weekly bills and specific-month lists */
+    static monthStep(frequency: BillFrequency, rule: RecurrenceRule): number | null {
+        if (frequency === 'every-n-months') return Math.max(1, Math.round(rule.interval ?? 1));
+        return MONTH_STEPS[frequency] ?? null;
+    }
+
+    /** Dates the rule falls on in a "YYYY-MM" month, before its end date and count are applied */
+    private static scheduledInMonth(bill: ScheduledBill, frequency: BillFrequency, rule: RecurrenceRule, month: string): string[] {
+        if (this.isWeekly(frequency)) {
+            return DateUtils.getPayDatesInMonth(rule.startDate, frequency, month).filter(d => d >= rule.startDate);
+        }
+
+        const offset = DateUtils.monthsBetween(DateUtils.getMonthFromDate(rule.startDate), month);
+        if (offset < 0) return [];
+        const step = this.monthStep(frequency, rule);
+        const matches = step !== null
+            ? offset % step === 0
+            : (rule.months ?? []).includes(Number(month.split('-')[1]));
+        if (!matches) return [];
+
+        const dueDay = bill.originalDueDay || DateUtils.parseLocalDate(rule.startDate).getDate();
+        const date = `${month}-${String(Math.min(dueDay, DateUtils.daysInMonth(month))).padStart(2, '0')}`;
+        return date >= rule.startDate ? [date] : [];
+    }
+
+    /** Last day an occurrence can fall on: the end date, or the count-th occurrence when that is sooner */
+    static lastDate(bill: ScheduledBill): string | undefined {
+        const frequency = this.frequency(bill);
+        const rule = this.rule(bill);
+        if (!rule.count || rule.count < 1) return rule.endDate;
+
+        const count = Math.round(rule.count);
+        let byCount: string | undefined;
+        if (this.isWeekly(frequency)) {
+            const last = DateUtils.parseLocalDate(rule.startDate);
+            last.setDate(last.getDate() + (count - 1) * (frequency === 'weekly' ? 7 : 14));
+            byCount = DateUtils.toLocalDateString(last);
+        } else {
+            // At most one occurrence a month, and at least one every twelve (or every interval)
+            const startMonth = DateUtils.getMonthFromDate(rule.startDate);
+            const maxMonths = count * Math.max(12, this.monthStep(frequency, rule) ?? 12);
+            let seen = 0;
+            for (let i = 0; i < maxMonths && seen < count; i++) {
+                const dates = this.scheduledInMonth(bill, frequency, rule, DateUtils.addMonthsToMonth(startMonth, i));
+                seen += dates.length;
+                if (seen >= count) byCount = dates[dates.length - 1];
+            }
+        }
+
+        if (!byCount) return rule.endDate;
+        return rule.endDate && rule.endDate < byCount ? rule.endDate : byCount;
+    }
+
+    /** Due dates of a bill in a "YYYY-MM" month, in order */
+    static occurrencesInMonth(bill: ScheduledBill, month: string): string[] {
+        const frequency = this.frequency(bill);
+        if (frequency === 'one-time') {
+            return DateUtils.getMonthFromDate(bill.dueDate) === month ? [bill.dueDate] : [];
+        }
+
+        const last = this.lastDate(bill);
+        return this.scheduledInMonth(bill, frequency, this.rule(bill), month).filter(d => !last || d <= last);
+    }
+
+    static isDueInMonth(bill: ScheduledBill, month: string): boolean {
+        return this.occurrencesInMonth(bill, month).length > 0;
+    }
+
+    /** First due date in a month after `month`, or undefined once the series has ended */
+    static nextDueDate(bill: ScheduledBill, month: string): string | undefined {
+        const frequency = this.frequency(bill);
+        if (frequency === 'one-time') return undefined;
+
+        const rule = this.rule(bill);
+        const startMonth = DateUtils.getMonthFromDate(rule.startDate);
+        const nextMonth = DateUtils.addMonthsToMonth(month, 1);
+        const from = DateUtils.compareMonths(startMonth, nextMonth) > 0 ? startMonth : nextMonth;
+        // Every rule repeats within a year, or within its interval when that is longer
+        const lookahead = Math.max(12, this.monthStep(frequency, rule) ?? 12);
+        for (let i = 0; i < lookahead; i++) {
+            const first = this.occurrencesInMonth(bill, DateUtils.addMonthsToMonth(from, i))[0];
+            if (first) return first;
+        }
+        return undefined;
+    }
+
+    /** First due date on or after the rule's start — a specific-months rule may start in a month it skips */
+    static firstDueDate(bill: ScheduledBill): string | undefined {
+        const startMonth = DateUtils.getMonthFromDate(this.rule(bill).startDate);
+        return this.occurrencesInMonth(bill, startMonth)[0] ?? this.nextDueDate(bill, startMonth);
+    }
+
+    /** What is due in a month: weekly and biweekly bills fall due several times */
+    static amountForMonth(bill: Bill, month: string): number {
+        const count = this.occurrencesInMonth(bill, month).length;
+        return count > 1 ? CalculationEngine.roundCurrency(bill.amount * count) : bill.amount;
+    }
+
+    /** "Every 3 months", "Jan, Jul · 4 times", "Weekly until Jun 30" */
+    static describe(bill: ScheduledBill): string {
+        const frequency = this.frequency(bill);
+        const rule = this.rule(bill);
+
+        let text: string = FREQUENCY_LABELS[frequency];
+        if (frequency === 'every-n-months') {
+            text = `Every ${this.monthStep(frequency, rule)} months`;
+        } else if (frequency === 'specific-months') {
+            text = [...(rule.months ?? [])].sort((a, b) => a - b).map(m => MONTH_NAMES[m - 1] ?? '').join(', ');
+        }
+
+        if (rule.count) return `${text} · ${rule.count} times`;
+        if (rule.endDate) return `${text} until ${DateUtils.formatDate(rule.endDate)}`;
+        return text;
+    }
+}
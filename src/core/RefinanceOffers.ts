@@ -0,0 +1,127 @@
+/**
+ * Balance-transfer and consolidation-loan offers, compared with paying the debts as they are
+ * Both sides are projected with CalculationEngine.calculatePayoff; fees count toward the offer's cost.
+ */
+
+import { CalculationEngine, PayoffProjection } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import { InstallmentLoans } from './InstallmentLoans';
+import { RateSchedule } from './RateSchedule';
+import type { Bill } from '../types';
+
+/** Move the balances to a card with a promo APR for a while */
+export interface BalanceTransferOffer {
+    kind: 'transfer';
+    feePercent: number; // Added to the transferred balance, e.g. 3
+    promoRate: number; // Whole-number APR during the promo, usually 0
+    promoMonths: number;
+    rateAfter: number; // Whole-number APR once the promo ends
+    monthlyPayment: number; // What will be paid on the new card each month
+}
+
+/** Pay the balances off with a fixed-term loan */
+export interface ConsolidationLoanOffer {
+    kind: 'loan';
+    feePercent: number; // Origination fee, added to the amount financed
+    rate: number; // Whole-number APR
+    termMonths: number;
+}
+
+export type RefinanceOffer = BalanceTransferOffer | ConsolidationLoanOffer;
+
+export interface RefinancePlan {
+    monthlyPayment: number;
+    monthsToPayoff: number; // Infinity when the payment never clears the balance
+    totalInterest: number;
+    fees: number;
+    totalCost: number; // Interest plus fees
+}
+
+export interface RefinanceComparison {
+    balance: number; // Combined balance of the debts being moved
+    current: RefinancePlan;
+    offer: RefinancePlan;
+    savings: number; // Positive when the offer costs less; NaN when either side never pays off
+    monthsSaved: number;
+    balanceAfterPromo?: number; // Transfers only: what is left when the promo rate ends
+}
+
+export class RefinanceOffers {
+    /** Debts that can be moved to an offer */
+    static eligible(bills: Bill[]): Bill[] {
+        return bills.filter(b => (b.hasBalance || b.isCreditAccount) && (b.balance ?? 0) > 0);
+    }
+
+    /** Each debt paid as it is now, at its own payment and rates */
+    static currentPlan(debts: Bill[]): RefinancePlan {
+        const projections = debts.map(d => RateSchedule.projectPayoff(d));
+        const months = Math.max(0, ...projections.map(p => p.monthsToPayoff));
+        const interest = projections.reduce((sum, p) => sum + p.totalInterestPaid, 0);
+        return {
+            monthlyPayment: CalculationEngine.roundCurrency(debts.reduce((sum, d) => sum + (d.monthlyPayment || 0), 0)),
+            monthsToPayoff: months,
+            totalInterest: isFinite(interest) ? CalculationEngine.roundCurrency(interest) : Infinity,
+            fees: 0,
+            totalCost: isFinite(interest) ? CalculationEngine.roundCurrency(interest) : Infinity,
+        };
+    }
+
+    /** Projection of the offer on a combined balance */
+    static projectOffer(balance: number, offer: RefinanceOffer): { plan: RefinancePlan; projection: PayoffProjection } {
+        const fees = CalculationEngine.roundCurrency(balance * Math.max(0, offer.feePercent) / 100);
+        const financed = CalculationEngine.roundCurrency(balance + fees);
+
+        let payment: number;
+        let projection: PayoffProjection;
+        if (offer.kind === 'transfer') {
+            payment = offer.monthlyPayment;
+            const promoMonths = Math.max(0, Math.round(offer.promoMonths));
+            projection = CalculationEngine.calculatePayoff(financed, payment, offer.rateAfter / 100, {
+                rateForMonth: month => (month <= promoMonths ? offer.promoRate : offer.rateAfter) / 100,
+            });
+        } else {
+            payment = InstallmentLoans.scheduledPayment({
+                principal: financed,
+                termMonths: offer.termMonths,
+                rate: offer.rate,
+                startDate: DateUtils.toLocalDateString(new Date()),
+            });
+            projection = CalculationEngine.calculatePayoff(financed, payment, offer.rate / 100);
+        }
+
+        const interest = projection.totalInterestPaid;
+        return {
+            projection,
+            plan: {
+                monthlyPayment: payment,
+                monthsToPayoff: projection.monthsToPayoff,
+                totalInterest: interest,
+                fees,
+                totalCost: isFinite(interest) ? CalculationEngine.roundCurrency(interest + fees) : Infinity,
+            },
+        };
+    }
+
+    static compare(debts: Bill[], offer: RefinanceOffer): RefinanceComparison {
+        const balance = CalculationEngine.roundCurrency(debts.reduce((sum, d) => sum + (d.balance ?? 0), 0));
+        const current = this.currentPlan(debts);
+        const { plan, projection } = this.projectOffer(balance, offer);
+        const comparable = isFinite(current.totalCost) && isFinite(plan.totalCost);
+
+        let balanceAfterPromo: number | undefined;
+        if (offer.kind === 'transfer' && offer.promoMonths > 0 && isFinite(projection.monthsToPayoff)) {
+            balanceAfterPromo = projection.monthsToPayoff <= offer.promoMonths
+                ? 0
+                : projection.monthlyBreakdown[offer.promoMonths - 1]?.remainingBalance ?? 0;
+        }
+
+        return {
+            balance,
+            current,
+            offer: plan,
+            savings: comparable ? CalculationEngine.roundCurrency(current.totalCost - plan.totalCost) : NaN,
+            monthsSaved: comparable ? current.monthsToPayoff - plan.monthsToPayoff : NaN,
+            balanceAfterPromo,
+        };
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * Bank/credit card statement parsing into normalized transactions
+ */
+
+import { DateUtils } from './DateUtils';
+import type { CsvColumnMapping, ImportedTransaction } from '../types';
+
+export class TransactionImport {
+    /**
+     * Parse CSV text into rows (RFC 4180: quoted fields, escaped quotes, CRLF line endings)
+     */
+    static parseCsv(text: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = '';
+        let inQuotes = false;
+
+        // Strip a UTF-8 byte order mark some banks prepend
+        if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+
+        for (let i = 0; i < text.length; i++) {
+            const ch = text[i];
+            if (inQuotes) {
+                if (ch === '"') {
+                    if (text[i + 1] === '"') {
+                        field += '"';
+                        i++;
+                    } else {
+                        inQuotes = false;
+                    }
+                } else {
+                    field += ch;
+                }
+            } else if (ch === '"') {
+                inQuotes = true;
+            } else if (ch === ',') {
+                row.push(field);
+                field = '';
+            } else if (ch === '\n' || ch === '\r') {
+                if (ch === '\r' && text[i + 1] === '\n') i++;
+                row.push(field);
+                rows.push(row);
+                row = [];
+                field = '';
+            } else {
+                field += ch;
+            }
+        }
+
+        if (field !== '' || row.length > 0) {
+            row.push(field);
+            rows.push(row);
+        }
+
+        // Drop blank lines
+        return rows.filter(r => r.some(cell => cell.trim() !== ''));
+    }
+
+    /**
+     * Guess a column mapping from the header row of a CSV export
+     */
+    static detectMapping(rows: string[][]): CsvColumnMapping {
+        const header = (rows[0] ?? []).map(h => h.trim().toLowerCase());
+        const find = (patterns: RegExp[]) => {
+            for (const pattern of patterns) {
+                const idx = header.findIndex(h => pattern.test(h));
+                if (idx >= 0) return idx;
+            }
+            return -1;
+        };
+
+        const dateColumn = find([/^(transaction |posted |post )?date$/, /date/]);
+        const descriptionColumn = find([/^description$/, /payee|merchant|memo|name|description|details/]);
+        const amountColumn = find([/^amount$/, /amount|debit/]);
+        const hasHeader = dateColumn >= 0 || descriptionColumn >= 0 || amountColumn >= 0;
+
+        // Look at the first data row to tell US and ISO dates apart
+        const sampleDate = rows[hasHeader ? 1 : 0]?.[Math.max(dateColumn, 0)]?.trim() ?? '';
+
+        return {
+            hasHeader,
+            dateColumn: Math.max(dateColumn, 0),
+            descriptionColumn: descriptionColumn >= 0 ? descriptionColumn : 1,
+            amountColumn: amountColumn >= 0 ? amountColumn : 2,
+            dateFormat: /^\d{4}-\d{1,2}-\d{1,2}/.test(sampleDate) ? 'YYYY-MM-DD' : 'MM/DD/YYYY',
+            paymentsAreNegative: true,
+        };
+    }
+
+    /**
+     * Convert CSV rows into transactions. Rows whose date or amount can't be read are skipped.
+     */
+    static readCsvTransactions(rows: string[][], mapping: CsvColumnMapping): ImportedTransaction[] {
+        const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+        const transactions: ImportedTransaction[] = [];
+
+        dataRows.forEach((row, i) => {
+            const date = this.parseDate(row[mapping.dateColumn] ?? '', mapping.dateFormat);
+            const rawAmount = this.parseAmount(row[mapping.amountColumn] ?? '');
+            if (!date || rawAmount === null) return;
+
+            transactions.push({
+                id: `csv-${i}`,
+                date,
+                description: (row[mapping.descriptionColumn] ?? '').trim(),
+                amount: mapping.paymentsAreNegative ? -rawAmount : rawAmount,
+            });
+        });
+
+        return transactions;
+    }
+
+    /**
+     * Parse a statement date into YYYY-MM-DD, or null if it doesn't fit the format
+     */
+    static parseDate(value: string, format: CsvColumnMapping['dateFormat']): string | null {
+        const parts = value.trim().split(/[-/.\s]/).filter(Boolean).map(Number);
+        if (parts.length < 3 || parts.some(isNaN)) return null;
+
+        let year: number, month: number, day: number;
+        switch (format) {
+            case 'YYYY-MM-DD':
+                [year, month, day] = parts as [number, number, number];
+                break;
+            case 'MM/DD/YYYY':
+                [month, day, year] = parts as [number, number, number];
+                break;
+            case 'DD/MM/YYYY':
+                [day, month, year] = parts as [number, number, number];
+                break;
+        }
+
+        if (year < 100) year += 2000;
+        if (month < 1 || month > 12 || day < 1) return null;
+        const monthStr = `${year}-${String(month).padStart(2, '0')}`;
+        // Rejects days the month doesn't have, like 02/30 or 04/31
+        if (day > DateUtils.daysInMonth(monthStr)) return null;
+        return `${monthStr}-${String(day).padStart(2, '0')}`;
+    }
+
+    /**
+     * Parse a statement amount: "$1,234.56", "-45.00", "(45.00)" and "45.00-" are all accepted
+     */
+    static parseAmount(value: string): number | null {
+        let text = value.trim();
+        if (!text) return null;
+
+        let negative = false;
+        if (text.startsWith('(') && text.endsWith(')')) {
+            negative = true;
+            text = text.slice(1, -1);
+        }
+        if (text.endsWith('-')) {
+            negative = true;
+            text = text.slice(0, -1);
+        }
+
+        const parsed = parseFloat(text.replace(/[$,\s]/g, ''));
+        if (isNaN(parsed) || !isFinite(parsed)) return null;
+        return negative ? -Math.abs(parsed) : parsed;
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * Fuzzy matching of imported transactions to bills by name, amount and date
+ */
+
+import { DateUtils } from './DateUtils';
+import { PaymentUtils } from './PaymentUtils';
+import type { Bill, ImportedTransaction } from '../types';
+
+export interface TransactionMatch {
+    transaction: ImportedTransaction;
+    billId: string;
+    score: number; // 0–1
+}
+
+// A proposal needs at least this combined score to be offered
+const MATCH_THRESHOLD = 0.55;
+
+// Words that appear in most statement descriptions and say nothing about the payee
+const NOISE_WORDS = new Set([
+    'ach', 'debit', 'credit', 'payment', 'pmt', 'web', 'online', 'pos', 'purchase',
+    'recurring', 'autopay', 'bill', 'pay', 'the', 'inc', 'llc', 'co', 'com', 'www',
+]);
+
+export class TransactionMatcher {
+    /**
+     * Propose transactions for bills, several per bill when a bill is paid in parts, until what is
+     * left on it is covered. Only payments (positive amounts) are considered;
+     * everything that doesn't clear the threshold is returned as unmatched for review.
+     */
+    static match(
+        transactions: ImportedTransaction[],
+        bills: Bill[]
+    ): { matches: TransactionMatch[]; unmatched: ImportedTransaction[] } {
+        const candidates: TransactionMatch[] = [];
+        for (const transaction of transactions) {
+            if (transaction.amount <= 0) continue;
+            for (const bill of bills) {
+                if (bill.isPaid) continue;
+                const score = this.score(transaction, bill);
+                if (score >= MATCH_THRESHOLD) {
+                    candidates.push({ transaction, billId: bill.id, score });
+                }
+            }
+        }
+
+        // Greedy assignment, best pairs first: each transaction is used once, and a bill keeps taking
+        // transactions while something is left on it. Variable bills without an amount yet take one.
+        candidates.sort((a, b) => b.score - a.score);
+        const leftCents = new Map(bills.map(b => [b.id, b.amount > 0 ? Math.round(PaymentUtils.remaining(b) * 100) : null]));
+        const usedTransactions = new Set<string>();
+        const matches: TransactionMatch[] = [];
+        for (const candidate of candidates) {
+            const left = leftCents.get(candidate.billId);
+            if (left === undefined || (left !== null && left <= 0) || usedTransactions.has(candidate.transaction.id)) continue;
+            leftCents.set(candidate.billId, left === null ? 0 : left - Math.round(candidate.transaction.amount * 100));
+            usedTransactions.add(candidate.transaction.id);
+            matches.push(candidate);
+        }
+
+        const unmatched = transactions.filter(t => t.amount > 0 && !usedTransactions.has(t.id));
+        matches.sort((a, b) => a.transaction.date.localeCompare(b.transaction.date));
+        return { matches, unmatched };
+    }
+
+    /**
+     * Combined score: name similarity dominates, amount and due-date proximity refine it.
+     * A partly paid bill is compared against what is left on it.
+     */
+    static score(transaction: ImportedTransaction, bill: Bill): number {
+        const name = this.nameScore(transaction.description, bill);
+        const amount = this.amountScore(transaction.amount, PaymentUtils.remaining(bill) || bill.amount);
+        const date = this.dateScore(transaction.date, bill.dueDate);
+        return name * 0.55 + amount * 0.35 + date * 0.1;
+    }
+
+    private static nameScore(description: string, bill: Bill): number {
+        const desc = this.normalize(description);
+        if (!desc) return 0;
+
+        const descTokens = this.tokens(description);
+
+        // Keywords learned from earlier imports are an exact signal
+        if (bill.matchKeywords?.some(k => {
+            const keywordTokens = this.tokens(k);
+            return keywordTokens.length > 0 && keywordTokens.every(t => descTokens.includes(t));
+        })) return 1;
+
+        const billTokens = this.tokens(bill.name);
+        if (billTokens.length === 0) return 0;
+
+        const shared = billTokens.filter(t => descTokens.some(d => d.startsWith(t) || t.startsWith(d))).length;
+        const tokenScore = shared / billTokens.length;
+        return Math.max(tokenScore, this.diceCoefficient(this.normalize(bill.name), desc));
+    }
+
+    private static amountScore(paid: number, expected: number): number {
+        // Variable bills without an amount yet can't be judged on amount
+        if (expected <= 0) return 0.5;
+        const diff = Math.abs(paid - expected);
+        if (diff < 0.01) return 1;
+        return Math.max(0, 1 - diff / expected);
+    }
+
+    private static dateScore(date: string, dueDate: string): number {
+        const days = Math.abs(DateUtils.daysBetween(date, dueDate));
+        if (days <= 3) return 1;
+        if (days <= 10) return 0.6;
+        if (days <= 31) return 0.3;
+        return 0;
+    }
+
+    /**
+     * Keyword to remember when the user assigns a transaction by hand,
+     * e.g. "ACH DEBIT DUKE ENERGY 8473629 WEB PMT" → "duke energy"
+     */
+    static keywordFor(description: string): string {
+        return this.tokens(description).slice(0, 3).join(' ');
+    }
+
+    private static normalize(text: string): string {
+        return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    }
+
+    private static tokens(text: string): string[] {
+        return this.normalize(text)
+            .split(' ')
+            .filter(t => t.length >= 3 && !NOISE_WORDS.has(t) && !/^\d+$/.test(t));
+    }
+
+    /** Sørensen–Dice similarity over character bigrams */
+    private static diceCoefficient(a: string, b: string): number {
+        const bigrams = (s: string) => {
+            const result = new Map<string, number>();
+            const compact = s.replace(/\s+/g, '');
+            for (let i = 0; i < compact.length - 1; i++) {
+                const gram = compact.slice(i, i + 2);
+                result.set(gram, (result.get(gram) || 0) + 1);
+            }
+            return result;
+        };
+
+        const aGrams = bigrams(a);
+        const bGrams = bigrams(b);
+        let aSize = 0, bSize = 0, overlap = 0;
+        aGrams.forEach(count => { aSize += count; });
+        bGrams.forEach(count => { bSize += count; });
+        aGrams.forEach((count, gram) => { overlap += Math.min(count, bGrams.get(gram) || 0); });
+
+        return aSize + bSize === 0 ? 0 : (2 * overlap) / (aSize + bSize);
+    }
+}
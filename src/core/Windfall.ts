@@ -0,0 +1,144 @@
+/**
+ * One-time windfall simulator: where a lump sum saves the most interest across the debts
+ * Installment loans are left out — their balance follows the amortization schedule.
+ */
+
+import { CalculationEngine } from './CalculationEngine';
+import { DateUtils } from './DateUtils';
+import { RateSchedule } from './RateSchedule';
+import type { Bill } from '../types';
+
+export interface WindfallImpact {
+    billId: string;
+    name: string;
+    amount: number; // Part of the windfall applied to this debt
+    interestSaved: number | null; // Null when the debt is never paid off either way
+    monthsSaved: number | null;
+}
+
+export interface WindfallOption {
+    id: string;
+    label: string;
+    description: string;
+    allocation: WindfallImpact[]; // Only debts that receive something
+    applied: number; // Less than the windfall when it covers every balance
+    interestSaved: number;
+    debtFreeMonthsSaved: number | null; // Change in the last payoff date; null when a debt is never paid off
+}
+
+const toCents = (dollars: number) => Math.round(dollars * 100);
+
+export class Windfall {
+    /** Debts a lump sum can go toward */
+    static eligible(bills: Bill[]): Bill[] {
+        return bills.filter(b => (b.hasBalance || b.isCreditAccount) && !b.loan && (b.balance ?? 0) > 0);
+    }
+
+    /** Payoff at the bill's current payment, starting from a given balance */
+    private static projectFrom(bill: Bill, balance: number) {
+        return CalculationEngine.calculatePayoff(
+            balance,
+            bill.monthlyPayment || 0,
+            (bill.interestRate || 0) / 100,
+            RateSchedule.payoffOptions(bill)
+        );
+    }
+
+    /** What putting `amount` toward one debt saves, keeping its monthly payment the same */
+    static impact(bill: Bill, amount: number): WindfallImpact {
+        const balance = bill.balance ?? 0;
+        const before = this.projectFrom(bill, balance);
+        const after = this.projectFrom(bill, Math.max(0, balance - amount));
+        const measurable = isFinite(before.monthsToPayoff) && isFinite(after.monthsToPayoff);
+
+        return {
+            billId: bill.id,
+            name: bill.name,
+            amount,
+            interestSaved: measurable ? CalculationEngine.roundCurrency(before.totalInterestPaid - after.totalInterestPaid) : null,
+            monthsSaved: measurable ? before.monthsToPayoff - after.monthsToPayoff : null,
+        };
+    }
+
+    /** Fill each debt in order until the money runs out */
+    static allocateInOrder(debts: Bill[], amount: number): Map<string, number> {
+        const allocation = new Map<string, number>();
+        let remaining = toCents(amount);
+        for (const debt of debts) {
+            if (remaining <= 0) break;
+            const cents = Math.min(remaining, toCents(debt.balance ?? 0));
+            allocation.set(debt.id, cents / 100);
+            remaining -= cents;
+        }
+        return allocation;
+    }
+
+    /** Split in proportion to each balance; rounding pennies go to the largest balance */
+    static allocateByBalance(debts: Bill[], amount: number): Map<string, number> {
+        const totalCents = debts.reduce((sum, d) => sum + toCents(d.balance ?? 0), 0);
+        const amountCents = Math.min(toCents(amount), totalCents);
+        const allocation = new Map<string, number>();
+        if (totalCents <= 0) return allocation;
+
+        let assigned = 0;
+        for (const debt of debts) {
+            const cents = Math.floor(amountCents * toCents(debt.balance ?? 0) / totalCents);
+            allocation.set(debt.id, cents);
+            assigned += cents;
+        }
+        const largest = [...debts].sort((a, b) => (b.balance ?? 0) - (a.balance ?? 0))[0];
+        if (largest) allocation.set(largest.id, (allocation.get(largest.id) ?? 0) + amountCents - assigned);
+
+        return new Map([...allocation].map(([id, cents]) => [id, cents / 100]));
+    }
+
+    static option(id: string, label: string, description: string, debts: Bill[], amounts: Map<string, number>): WindfallOption {
+        const allocation = debts
+            .filter(d => (amounts.get(d.id) ?? 0) > 0)
+            .map(d => this.impact(d, amounts.get(d.id)!));
+
+        // Debt-free date: the latest payoff across every debt, before and after
+        const lastPayoff = (balanceFor: (d: Bill) => number) => Math.max(
+            0,
+            ...debts.map(d => this.projectFrom(d, balanceFor(d)).monthsToPayoff)
+        );
+        const before = lastPayoff(d => d.balance ?? 0);
+        const after = lastPayoff(d => Math.max(0, (d.balance ?? 0) - (amounts.get(d.id) ?? 0)));
+
+        return {
+            id,
+            label,
+            description,
+            allocation,
+            applied: allocation.reduce((sum, a) => sum + toCents(a.amount), 0) / 100,
+            interestSaved: CalculationEngine.roundCurrency(allocation.reduce((sum, a) => sum + (a.interestSaved ?? 0), 0)),
+            debtFreeMonthsSaved: isFinite(before) && isFinite(after) ? before - after : null,
+        };
+    }
+
+    /** Every way to apply the windfall: all of it to each debt, then the split strategies */
+    static options(bills: Bill[], amount: number): WindfallOption[] {
+        const debts = this.eligible(bills);
+        if (amount <= 0 || debts.length === 0) return [];
+
+        const single = debts.map(d => this.option(
+            `debt-${d.id}`,
+            d.name,
+            'Everything to this debt',
+            debts,
+            this.allocateInOrder([d], amount)
+        ));
+        if (debts.length === 1) return single;
+
+        const month = DateUtils.getCurrentMonth();
+        const byRate = [...debts].sort((a, b) => RateSchedule.rateForMonth(b, month) - RateSchedule.rateForMonth(a, month));
+        const byBalance = [...debts].sort((a, b) => (a.balance ?? 0) - (b.balance ?? 0));
+
+        return [
+            ...single,
+            this.option('avalanche', 'Highest APR First', 'Clear the costliest debts in order', debts, this.allocateInOrder(byRate, amount)),
+            this.option('snowball', 'Smallest Balance First', 'Close out as many accounts as possible', debts, this.allocateInOrder(byBalance, amount)),
+            this.option('proportional', 'Split by Balance', 'Every debt gets its share', debts, this.allocateByBalance(debts, amount)),
+        ];
+    }
+}
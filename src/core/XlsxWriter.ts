@@ -0,0 +1,253 @@
+/**
+ * Minimal .xlsx workbook writer: inline-string worksheets packed into an uncompressed zip
+ */
+
+export type CellValue = string | number | null | undefined;
+
+export interface Worksheet {
+    name: string;
+    columns: string[];
+    rows: CellValue[][];
+    /** Column indexes shown with a 2-decimal money format */
+    currencyColumns?: number[];
+}
+
+// Style indexes into cellXfs in STYLES_XML
+const STYLE_HEADER = 1;
+const STYLE_CURRENCY = 2;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES_XML = (sheetCount: number) => XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    Array.from({ length: sheetCount }, (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>';
+
+const ROOT_RELS_XML = XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+const STYLES_XML = XML_HEADER +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.00"/></numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+
+export class XlsxWriter {
+    /**
+     * Build a workbook with one sheet per entry; the first row of each sheet is a bold, frozen header
+     */
+    static build(sheets: Worksheet[]): Uint8Array {
+        const names = this.uniqueSheetNames(sheets.map(s => s.name));
+
+        const workbookXml = XML_HEADER +
+            '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+            'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+            names.map((name, i) => `<sheet name="${this.escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+            '</sheets></workbook>';
+
+        const workbookRelsXml = XML_HEADER +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            names.map((_, i) =>
+                `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+            ).join('') +
+            `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+            '</Relationships>';
+
+        return ZipArchive.create([
+            { path: '[Content_Types].xml', text: CONTENT_TYPES_XML(sheets.length) },
+            { path: '_rels/.rels', text: ROOT_RELS_XML },
+            { path: 'xl/workbook.xml', text: workbookXml },
+            { path: 'xl/_rels/workbook.xml.rels', text: workbookRelsXml },
+            { path: 'xl/styles.xml', text: STYLES_XML },
+            ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, text: this.sheetXml(sheet) })),
+        ]);
+    }
+
+    private static sheetXml(sheet: Worksheet): string {
+        const currency = new Set(sheet.currencyColumns ?? []);
+        const allRows: CellValue[][] = [sheet.columns, ...sheet.rows];
+
+        // Size columns to their longest value so the file opens readable
+        const widths = sheet.columns.map((_, c) => Math.min(50, Math.max(
+            8,
+            ...allRows.map(row => String(row[c] ?? '').length + 2)
+        )));
+
+        const rowsXml = allRows.map((row, r) => {
+            const cells = row.map((value, c) => {
+                if (value === null || value === undefined || value === '') return '';
+                const ref = `${this.columnName(c)}${r + 1}`;
+                if (r === 0) {
+                    return `<c r="${ref}" t="inlineStr" s="${STYLE_HEADER}"><is><t xml:space="preserve">${this.escapeXml(String(value))}</t></is></c>`;
+                }
+                if (typeof value === 'number' && isFinite(value)) {
+                    const style = currency.has(c) ? ` s="${STYLE_CURRENCY}"` : '';
+                    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+                }
+                return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${this.escapeXml(String(value))}</t></is></c>`;
+            }).join('');
+            return `<row r="${r + 1}">${cells}</row>`;
+        }).join('');
+
+        return XML_HEADER +
+            '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+            '<sheetViews><sheetView workbookViewId="0">' +
+            '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+            '</sheetView></sheetViews>' +
+            '<cols>' + widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('') + '</cols>' +
+            `<sheetData>${rowsXml}</sheetData>` +
+            '</worksheet>';
+    }
+
+    /** 0 → A, 25 → Z, 26 → AA */
+    private static columnName(index: number): string {
+        let name = '';
+        for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+            name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+        }
+        return name;
+    }
+
+    /** Excel limits sheet names to 31 characters, without []:*?/\, unique case-insensitively */
+    private static uniqueSheetNames(names: string[]): string[] {
+        const used = new Set<string>();
+        return names.map((raw, i) => {
+            const base = raw.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`;
+            let name = base;
+            for (let n = 2; used.has(name.toLowerCase()); n++) {
+                name = `${base.slice(0, 28)} (${n})`;
+            }
+            used.add(name.toLowerCase());
+            return name;
+        });
+    }
+
+    private static escapeXml(value: string): string {
+        return value
+            // Control characters are not allowed in XML 1.0
+            .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
+
+// ── Zip container (stored entries, no compression) ──
+
+interface ZipEntry {
+    path: string;
+    text: string;
+}
+
+let crcTable: Uint32Array | null = null;
+
+class ZipArchive {
+    static create(entries: ZipEntry[]): Uint8Array {
+        const encoder = new TextEncoder();
+        const { time, date } = this.dosTimestamp(new Date());
+        const localParts: Uint8Array[] = [];
+        const centralParts: Uint8Array[] = [];
+        let offset = 0;
+
+        for (const entry of entries) {
+            const name = encoder.encode(entry.path);
+            const data = encoder.encode(entry.text);
+            const crc = this.crc32(data);
+
+            const local = new DataView(new ArrayBuffer(30));
+            local.setUint32(0, 0x04034b50, true);  // local file header signature
+            local.setUint16(4, 20, true);          // version needed
+            local.setUint16(6, 0x0800, true);      // UTF-8 names
+            local.setUint16(8, 0, true);           // stored
+            local.setUint16(10, time, true);
+            local.setUint16(12, date, true);
+            local.setUint32(14, crc, true);
+            local.setUint32(18, data.length, true);
+            local.setUint32(22, data.length, true);
+            local.setUint16(26, name.length, true);
+            local.setUint16(28, 0, true);
+
+            const central = new DataView(new ArrayBuffer(46));
+            central.setUint32(0, 0x02014b50, true); // central directory signature
+            central.setUint16(4, 20, true);         // version made by
+            central.setUint16(6, 20, true);         // version needed
+            central.setUint16(8, 0x0800, true);
+            central.setUint16(10, 0, true);
+            central.setUint16(12, time, true);
+            central.setUint16(14, date, true);
+            central.setUint32(16, crc, true);
+            central.setUint32(20, data.length, true);
+            central.setUint32(24, data.length, true);
+            central.setUint16(28, name.length, true);
+            central.setUint32(42, offset, true);    // local header offset (other fields stay 0)
+
+            localParts.push(new Uint8Array(local.buffer), name, data);
+            centralParts.push(new Uint8Array(central.buffer), name);
+            offset += 30 + name.length + data.length;
+        }
+
+        const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+        const end = new DataView(new ArrayBuffer(22));
+        end.setUint32(0, 0x06054b50, true);         // end of central directory signature
+        end.setUint16(8, entries.length, true);
+        end.setUint16(10, entries.length, true);
+        end.setUint32(12, centralSize, true);
+        end.setUint32(16, offset, true);
+
+        return this.concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+    }
+
+    private static crc32(data: Uint8Array): number {
+        if (!crcTable) {
+            crcTable = new Uint32Array(256);
+            for (let n = 0; n < 256; n++) {
+                let c = n;
+                for (let k = 0; k < 8; k++) {
+                    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+                }
+                crcTable[n] = c >>> 0;
+            }
+        }
+
+        let crc = 0xffffffff;
+        for (let i = 0; i < data.length; i++) {
+            crc = (crcTable[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8)) >>> 0;
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    private static dosTimestamp(d: Date): { time: number; date: number } {
+        return {
+            time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+            date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+        };
+    }
+
+    private static concat(parts: Uint8Array[]): Uint8Array {
+        const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+        let position = 0;
+        for (const part of parts) {
+            result.set(part, position);
+            position += part.length;
+        }
+        return result;
+    }
+}
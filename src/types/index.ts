@@ -12,15 +12,133 @@ export interface Bill {
     balance?: number;
     monthlyPayment?: number;
     interestRate?: number; // Stored as whole number (e.g., 18 for 18%)
+    rateSchedule?: RatePeriod[]; // Promo and variable rates; interestRate applies outside them
+    interestMethod?: InterestMethod; // Defaults to 'monthly'
+    minimumPayment?: MinimumPaymentFormula; // Credit cards: how the statement minimum is worked out
+    loan?: InstallmentLoan; // Mortgages and auto loans — balance, amount and rate are derived from it
     originalDueDay?: number; // Original day-of-month to prevent date drift (e.g., 31)
     isCreditAccount?: boolean; // Persistent credit card — stays visible even at $0 balance
+    creditLimit?: number; // Credit accounts only; enables utilization
     note?: string;
     isRecurring: boolean;
-    frequency?: 'one-time' | 'monthly'; // Bill frequency
-    paidAmount?: number;
-    paidMethod?: string;
+    frequency?: BillFrequency; // Defaults to 'monthly' for recurring bills
+    recurrence?: RecurrenceRule; // Anchor, interval and end of a recurring bill's schedule
+    dueDateRule?: DueDateRule; // Moves the scheduled date off weekends and bank holidays
+    estimate?: AmountEstimate; // Variable bills: how the amount is estimated until it is entered
+    autopay?: AutopayRule; // Paid automatically once the due date has passed
+    paidAmount?: number; // Total of this month's payments
+    paidMethod?: string; // Method of the latest payment
     paidDate?: string; // YYYY-MM-DD format
-    paidMonths?: Record<string, { paidAmount: number; paidMethod: string; paidDate: string }>;
+    payments?: BillPayment[]; // This month's payments, oldest first; a bill can be paid in parts
+    paidMonths?: Record<string, PaidMonth>;
+    matchKeywords?: string[]; // Statement descriptions learned from imports (e.g. "DUKE ENERGY")
+    statementAccountId?: string; // OFX account id whose statement balance updates this credit account
+    categoryId?: string;
+    tags?: string[]; // Free-form labels (e.g. "tax-deductible", "shared")
+}
+
+export interface BillPayment {
+    id: string;
+    amount: number;
+    method: string;
+    date: string; // ISO string, or YYYY-MM-DD for imported transactions
+    auto?: boolean; // Made by autopay
+}
+
+export type AutopayAmount = 'statement' | 'fixed' | 'minimum';
+
+export interface AutopayRule {
+    method: string; // Payment method charged
+    amount: AutopayAmount; // 'statement' pays the bill's amount; 'minimum' the card's statement minimum
+    fixedAmount?: number;
+    skipMonth?: string; // "YYYY-MM" whose automatic payment was undone; autopay leaves that month alone
+}
+
+/** Payments for a month other than the bill's current one, summed up like the bill's own paid fields */
+export interface PaidMonth {
+    paidAmount: number;
+    paidMethod: string;
+    paidDate: string;
+    payments?: BillPayment[];
+    partial?: boolean; // Something is still owed for the month
+}
+
+/** Fixed-term loan; the balance follows its amortization schedule and the payments recorded */
+export interface InstallmentLoan {
+    principal: number; // Original amount borrowed
+    termMonths: number;
+    startDate: string; // YYYY-MM-DD of the first payment
+    rate: number; // Whole number APR, e.g. 6.5
+    escrow?: number; // Monthly taxes and insurance collected with the payment
+    fees?: number; // Other monthly charges (PMI, servicing)
+    extraPrincipal?: number; // Paid toward principal on top of every payment
+    paymentsBefore?: number; // Payments made before the loan was added to the app
+}
+
+export type BillFrequency =
+    | 'one-time'
+    | 'weekly'
+    | 'biweekly'
+    | 'monthly'
+    | 'every-n-months'
+    | 'quarterly'
+    | 'semiannual'
+    | 'annual'
+    | 'specific-months';
+
+/** When a recurring bill falls due; bills without one repeat every month from their due date */
+export interface RecurrenceRule {
+    startDate: string; // YYYY-MM-DD of the first occurrence — the schedule is counted from here
+    interval?: number; // 'every-n-months' only, e.g. 2 for every other month
+    months?: number[]; // 'specific-months' only: 1-12, e.g. [1, 7] for January and July
+    endDate?: string; // YYYY-MM-DD — no occurrences after this day
+    count?: number; // Total occurrences, counted from startDate
+}
+
+/** Estimate for a bill whose amount varies, taken from what was paid in earlier months */
+export interface AmountEstimate {
+    method: 'average' | 'last-year' | 'max';
+    payments?: number; // How many recent payments 'average' and 'max' look at; defaults to 3
+}
+
+/** Where a due date actually posts when the scheduled day isn't a business day */
+export interface DueDateRule {
+    kind: 'previous-business-day' | 'next-business-day' | 'last-business-day' | 'nth-weekday';
+    week?: number; // 'nth-weekday': 1-4, or 5 for the last one in the month
+    weekday?: number; // 'nth-weekday': 0 = Sunday … 6 = Saturday
+}
+
+/** Days besides weekends that due dates move off */
+export interface HolidayCalendar {
+    federal: boolean; // US federal bank holidays
+    skippedFederal?: string[]; // Federal holidays treated as business days, by name
+    custom: CustomHoliday[];
+}
+
+export interface CustomHoliday {
+    id: string;
+    name: string;
+    date: string; // YYYY-MM-DD
+    yearly?: boolean; // Repeats on the same month and day every year
+}
+
+/** 'monthly' = APR / 12 on the balance; 'daily' = APR / 365 compounded daily on the average daily balance */
+export type InterestMethod = 'monthly' | 'daily';
+
+/** Statement minimum: percentOfBalance% of the balance (+ the month's interest), at least floor */
+export interface MinimumPaymentFormula {
+    percentOfBalance: number; // Whole number, e.g. 1 for 1%
+    includeInterest: boolean;
+    floor: number; // e.g. 25 — or the whole balance when it is smaller
+}
+
+/** A rate that applies from one date on, optionally only until a promo end date */
+export interface RatePeriod {
+    id: string;
+    effectiveDate: string; // YYYY-MM-DD
+    rate: number; // Whole number, like Bill.interestRate
+    endDate?: string; // YYYY-MM-DD — last day of a promo rate
+    label?: string; // e.g. "0% balance transfer"
 }
 
 export interface HistoryItem {
@@ -33,8 +151,14 @@ export interface HistoryItem {
     hasBalance?: boolean;
     balance?: number;
     isRecurring?: boolean;
+    frequency?: BillFrequency; // Copied from the bill when it is archived
+    occurrences?: number; // Weekly and biweekly bills: times it fell due that month
+    part?: number; // Bills paid in several payments: which one this is, from 1
+    parts?: number; // ...and how many there were that month
     originalDueDate?: string; // YYYY-MM-DD format
     amount?: number;
+    categoryId?: string; // Copied from the bill when it is archived
+    tags?: string[];
 }
 
 export interface PayInfo {
@@ -44,6 +168,71 @@ export interface PayInfo {
     frequency: 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
 }
 
+export interface BudgetCategory {
+    id: string;
+    name: string; // e.g. "Housing", "Subscriptions"
+    color: string; // Hex color used in charts
+    target?: number; // Planned spending per month
+    rollover?: boolean; // Carry unspent target into the next month
+}
+
+export type DebtPlanStrategy = 'snowball' | 'avalanche' | 'custom';
+
+export interface DebtPlan {
+    monthlyBudget?: number; // Total to put toward debts each month; defaults to the sum of minimums
+    strategy: DebtPlanStrategy;
+    customOrder: string[]; // Bill ids, first paid first
+}
+
+/** Utilization percentages that flag a card, e.g. 30 and 50 */
+export interface UtilizationThresholds {
+    warning: number;
+    high: number;
+}
+
+/** Credit card balances against their limits when a month was closed */
+export interface UtilizationSnapshot {
+    month: string; // YYYY-MM
+    cards: Array<{ billId: string; balance: number; limit: number }>;
+}
+
+/** What moved a debt's balance */
+export type LedgerEntryKind = 'payment' | 'interest' | 'charge' | 'adjustment' | 'edit';
+
+/** One change to a debt's balance; the ledger for a bill replays its balance over time */
+export interface LedgerEntry {
+    id: string;
+    billId: string;
+    date: string; // YYYY-MM-DD the change applies to
+    kind: LedgerEntryKind;
+    amount: number; // Signed change: payments negative, interest and charges positive
+    balanceAfter: number;
+    note?: string; // Reason for adjustments and edits
+    recordedAt: string; // ISO timestamp of when the entry was written
+}
+
+export interface ImportedTransaction {
+    id: string;
+    date: string; // YYYY-MM-DD format
+    description: string;
+    amount: number; // Positive = money leaving the account
+}
+
+export interface CsvColumnMapping {
+    hasHeader: boolean;
+    dateColumn: number;
+    descriptionColumn: number;
+    amountColumn: number;
+    dateFormat: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+    paymentsAreNegative: boolean; // Most bank exports show debits as negative amounts
+}
+
+export interface CsvImportPreset {
+    id: string;
+    name: string; // Bank name, also offered as the payment method
+    mapping: CsvColumnMapping;
+}
+
 export interface BudgetData {
     version?: number;
     bills: Bill[];
@@ -53,4 +242,24 @@ export interface BudgetData {
     theme: 'dark' | 'light';
     payInfos?: PayInfo[];
     activeMonth?: string;
+    importPresets?: CsvImportPreset[];
+    paymentMethods?: string[];
+    categories?: BudgetCategory[];
+    categoryRollovers?: Record<string, Record<string, number>>; // Month (YYYY-MM) → category id → amount carried into it
+    debtPlan?: DebtPlan;
+    balanceLedger?: LedgerEntry[];
+    utilizationThresholds?: UtilizationThresholds;
+    utilizationHistory?: UtilizationSnapshot[];
+    holidayCalendar?: HolidayCalendar;
+}
+
+export interface BudgetProfile {
+    id: string;
+    name: string; // e.g. "Household", "Business"
+    createdAt: string; // ISO string
+}
+
+export interface ProfileIndex {
+    activeProfileId: string;
+    profiles: BudgetProfile[];
 }